@@ -15,15 +15,53 @@ import { EntityResolutionService } from './services/entity-resolution.service';
 import { UsersController } from './controllers/users.controller';
 import { UsersService } from './services/users.service';
 import { ConfigModule } from '@nestjs/config';
+import { GeocodingModule } from './geocoding/geocoding.module';
 import { Person } from './entities/person.entity';
 import { User } from './entities/user.entity';
 import { ImportLog } from './entities/import-log.entity';
 import { ProposedEdit } from './entities/proposed-edit.entity';
+import { SyncJob } from './entities/sync-job.entity';
+import { SyncJobsService } from './services/sync-jobs.service';
+import { SyncEventsService } from './services/sync-events.service';
+import { Place } from './entities/place.entity';
+import { PlacesService } from './services/places.service';
+import { PlacesController } from './controllers/places.controller';
+import { TilesService } from './services/tiles.service';
+import { TilesController } from './controllers/tiles.controller';
+import { ClusteringService } from './services/clustering.service';
+import { PersonQueryService } from './services/person-query.service';
+import { PersonRevision } from './entities/person-revision.entity';
+import { PersonRevisionsService } from './services/person-revisions.service';
+import { AutoApprovalRule } from './entities/auto-approval-rule.entity';
+import { ReputationService } from './services/reputation.service';
+import { AutoApprovalRulesService } from './services/auto-approval-rules.service';
+import { AutoApprovalRulesController } from './controllers/auto-approval-rules.controller';
+import { Notification } from './entities/notification.entity';
+import { NotificationsModule } from './notifications/notifications.module';
+import { AuthModule } from './auth/auth.module';
+import { NotificationsService } from './services/notifications.service';
+import { Comment } from './entities/comment.entity';
+import { CommentsService } from './services/comments.service';
+import { NotificationsController } from './controllers/notifications.controller';
 
 @Module({
   imports: [
     ConfigModule,
-    TypeOrmModule.forFeature([Person, User, ImportLog, ProposedEdit]),
+    GeocodingModule,
+    NotificationsModule,
+    AuthModule,
+    TypeOrmModule.forFeature([
+      Person,
+      User,
+      ImportLog,
+      ProposedEdit,
+      SyncJob,
+      Place,
+      PersonRevision,
+      AutoApprovalRule,
+      Notification,
+      Comment,
+    ]),
   ],
   controllers: [
     WikipediaController,
@@ -33,6 +71,10 @@ import { ProposedEdit } from './entities/proposed-edit.entity';
     StatisticsController,
     ImportLogsController,
     UsersController,
+    PlacesController,
+    TilesController,
+    AutoApprovalRulesController,
+    NotificationsController,
   ],
   providers: [
     WikipediaService,
@@ -42,6 +84,17 @@ import { ProposedEdit } from './entities/proposed-edit.entity';
     ProposedEditsService,
     EntityResolutionService,
     UsersService,
+    SyncJobsService,
+    SyncEventsService,
+    PlacesService,
+    TilesService,
+    ClusteringService,
+    PersonQueryService,
+    PersonRevisionsService,
+    ReputationService,
+    AutoApprovalRulesService,
+    NotificationsService,
+    CommentsService,
   ],
   exports: [
     WikipediaService,
@@ -51,6 +104,17 @@ import { ProposedEdit } from './entities/proposed-edit.entity';
     ProposedEditsService,
     EntityResolutionService,
     UsersService,
+    SyncJobsService,
+    SyncEventsService,
+    PlacesService,
+    TilesService,
+    ClusteringService,
+    PersonQueryService,
+    PersonRevisionsService,
+    ReputationService,
+    AutoApprovalRulesService,
+    NotificationsService,
+    CommentsService,
   ],
 })
 export class ApiModule {}
@@ -0,0 +1,75 @@
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Request } from 'express';
+import { ApiKeyStrategy } from './api-key.strategy';
+import { ApiKeysService } from '../services/api-keys.service';
+import { RolesService } from '../services/roles.service';
+import { ApiKeyScope } from '../entities/api-key.entity';
+import { UserRole } from '../entities/user.entity';
+import { Permission } from './permissions';
+
+describe('ApiKeyStrategy', () => {
+  const apiKeysService = { validate: jest.fn() };
+  const rolesService = { permissionsFor: jest.fn() };
+  const strategy = new ApiKeyStrategy(
+    apiKeysService as unknown as ApiKeysService,
+    rolesService as unknown as RolesService,
+  );
+  const request = (method: string) => ({ method }) as Request;
+  const apiKey = (scope: ApiKeyScope) => ({
+    id: 3,
+    scope,
+    user: {
+      id: 5,
+      email: 'r@example.com',
+      username: 'researcher',
+      role: UserRole.USER,
+      verifiedAt: new Date(),
+    },
+  });
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("should authenticate as the key owner, with their role's permissions", async () => {
+    apiKeysService.validate.mockResolvedValue(apiKey(ApiKeyScope.FULL));
+    rolesService.permissionsFor.mockResolvedValue([Permission.SYNC_RUN]);
+
+    const user = await strategy.validate(request('POST'), 'ukm_key');
+    expect(rolesService.permissionsFor).toHaveBeenCalledWith(UserRole.USER);
+    expect(user).toEqual(
+      expect.objectContaining({
+        userId: 5,
+        verified: true,
+        apiKeyId: 3,
+        permissions: [Permission.SYNC_RUN],
+      }),
+    );
+  });
+
+  it('should let a read-only key read', async () => {
+    apiKeysService.validate.mockResolvedValue(apiKey(ApiKeyScope.READ_ONLY));
+    await expect(
+      strategy.validate(request('GET'), 'ukm_key'),
+    ).resolves.toBeDefined();
+  });
+
+  it('should refuse writes with a read-only key', async () => {
+    apiKeysService.validate.mockResolvedValue(apiKey(ApiKeyScope.READ_ONLY));
+    await expect(
+      strategy.validate(request('DELETE'), 'ukm_key'),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should refuse OPTIONS with a read-only key', async () => {
+    apiKeysService.validate.mockResolvedValue(apiKey(ApiKeyScope.READ_ONLY));
+    await expect(
+      strategy.validate(request('OPTIONS'), 'ukm_key'),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should refuse unknown, revoked or expired keys', async () => {
+    apiKeysService.validate.mockResolvedValue(null);
+    await expect(strategy.validate(request('GET'), 'ukm_key')).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+});
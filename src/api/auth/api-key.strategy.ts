@@ -0,0 +1,95 @@
+import { PassportStrategy } from '@nestjs/passport';
+import {
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Strategy } from 'passport';
+import { Request } from 'express';
+import { ApiKeyScope } from '../entities/api-key.entity';
+import { API_KEY_PREFIX, ApiKeysService } from '../services/api-keys.service';
+import { RolesService } from '../services/roles.service';
+
+type VerifyCallback = (
+  req: Request,
+  key: string,
+  done: (error: Error | null, user?: unknown) => void,
+) => void;
+
+/** Methods a read-only key may use. */
+const SAFE_METHODS = ['GET', 'HEAD'];
+
+/** Accepts "X-API-Key: <key>" or "Authorization: Bearer <key>". */
+const extractApiKey = (req: Request): string | null => {
+  const header = req.headers['x-api-key'];
+  if (typeof header === 'string' && header) return header;
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  return scheme?.toLowerCase() === 'bearer' && token?.startsWith(API_KEY_PREFIX)
+    ? token
+    : null;
+};
+
+/** Minimal passport strategy around a key read from the request headers. */
+class HeaderApiKeyStrategy extends Strategy {
+  name = 'api-key';
+  // Attached by passport to the per-request copy of the strategy.
+  declare success: (user: unknown) => void;
+  declare fail: () => void;
+  declare error: (error: Error) => void;
+
+  constructor(private readonly verify: VerifyCallback) {
+    super();
+  }
+
+  authenticate(req: Request) {
+    const key = extractApiKey(req);
+    if (!key) return this.fail();
+    this.verify(req, key, (error, user) => {
+      if (error) return this.error(error);
+      return user ? this.success(user) : this.fail();
+    });
+  }
+}
+
+/**
+ * Lets personal API keys authenticate wherever
+ * AuthGuard(['jwt', 'api-key']) is used; the request user has the same
+ * shape as for a JWT, plus the key's id and scope.
+ */
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(
+  HeaderApiKeyStrategy,
+  'api-key',
+) {
+  constructor(
+    private readonly apiKeysService: ApiKeysService,
+    private readonly rolesService: RolesService,
+  ) {
+    super();
+  }
+
+  async validate(req: Request, key: string) {
+    const apiKey = await this.apiKeysService.validate(key);
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid, revoked or expired API key');
+    }
+    if (
+      apiKey.scope === ApiKeyScope.READ_ONLY &&
+      !SAFE_METHODS.includes(req.method)
+    ) {
+      throw new ForbiddenException('This API key is read-only');
+    }
+    const { user } = apiKey;
+    return {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      permissions: await this.rolesService.permissionsFor(user.role),
+      persona: user.persona,
+      username: user.username,
+      verified: !!user.verifiedAt,
+      apiKeyId: apiKey.id,
+      apiKeyScope: apiKey.scope,
+    };
+  }
+}
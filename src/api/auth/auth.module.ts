@@ -3,6 +3,19 @@ import { AuthService } from '../services/auth.service';
 import { AuthController } from '../controllers/auth.controller';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { User } from '../entities/user.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { UserToken } from '../entities/user-token.entity';
+import { AuthEvent } from '../entities/auth-event.entity';
+import { AuthAuditService } from '../services/auth-audit.service';
+import { AuthEventsController } from '../controllers/auth-events.controller';
+import { ApiKey } from '../entities/api-key.entity';
+import { ApiKeysService } from '../services/api-keys.service';
+import { ApiKeysController } from '../controllers/api-keys.controller';
+import { ApiKeyStrategy } from './api-key.strategy';
+import { Role } from '../entities/role.entity';
+import { RolesService } from '../services/roles.service';
+import { RolesController } from '../controllers/roles.controller';
+import { MailModule } from '../mail/mail.module';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { JwtStrategy } from './jwt.strategy';
@@ -10,7 +23,15 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([User]),
+    TypeOrmModule.forFeature([
+      User,
+      RefreshToken,
+      UserToken,
+      AuthEvent,
+      ApiKey,
+      Role,
+    ]),
+    MailModule,
     PassportModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -19,16 +40,31 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
         if (!secret) {
           throw new Error('JWT_SECRET environment variable is required');
         }
+        // Short-lived; clients renew them with their refresh token.
         return {
           secret,
-          signOptions: { expiresIn: '7d' },
+          signOptions: {
+            expiresIn: configService.get<string>('JWT_ACCESS_TTL') || '15m',
+          },
         };
       },
       inject: [ConfigService],
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
-  exports: [AuthService],
+  controllers: [
+    AuthController,
+    AuthEventsController,
+    ApiKeysController,
+    RolesController,
+  ],
+  providers: [
+    AuthService,
+    AuthAuditService,
+    ApiKeysService,
+    RolesService,
+    JwtStrategy,
+    ApiKeyStrategy,
+  ],
+  exports: [AuthService, AuthAuditService, RolesService],
 })
 export class AuthModule {}
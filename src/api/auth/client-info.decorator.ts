@@ -0,0 +1,15 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+
+/** Where a request came from, for login throttling and the audit log. */
+export interface ClientInfo {
+  ip?: string;
+  userAgent?: string;
+}
+
+export const Client = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): ClientInfo => {
+    const req = ctx.switchToHttp().getRequest<Request>();
+    return { ip: req.ip, userAgent: req.headers['user-agent'] };
+  },
+);
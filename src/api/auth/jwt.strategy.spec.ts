@@ -0,0 +1,66 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { Request } from 'express';
+import { JwtStrategy, STREAM_TICKET_PURPOSE } from './jwt.strategy';
+import { RolesService } from '../services/roles.service';
+import { User, UserPersona, UserRole } from '../entities/user.entity';
+
+describe('JwtStrategy', () => {
+  const usersRepository = { findOne: jest.fn() };
+  const rolesService = { permissionsFor: jest.fn().mockResolvedValue([]) };
+  const strategy = new JwtStrategy(
+    { get: () => 'secret' } as unknown as ConfigService,
+    usersRepository as unknown as Repository<User>,
+    rolesService as unknown as RolesService,
+  );
+  const fromHeader = {
+    headers: { authorization: 'Bearer header.jwt.token' },
+  } as unknown as Request;
+  const fromQuery = {
+    headers: { accept: 'text/event-stream' },
+    query: { access_token: 'query.jwt.token' },
+  } as unknown as Request;
+  const accessToken = {
+    sub: 5,
+    email: 'r@example.com',
+    username: 'researcher',
+    role: UserRole.USER,
+    persona: UserPersona.STUDENT,
+    ver: 0,
+  };
+  const ticket = { sub: 5, ver: 0, purpose: STREAM_TICKET_PURPOSE } as const;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    usersRepository.findOne.mockResolvedValue({
+      id: 5,
+      role: UserRole.USER,
+      tokenVersion: 0,
+    });
+  });
+
+  it('should accept an access token in the Authorization header', async () => {
+    await expect(
+      strategy.validate(fromHeader, accessToken),
+    ).resolves.toMatchObject({ userId: 5 });
+  });
+
+  it('should accept a stream ticket in the query string', async () => {
+    await expect(strategy.validate(fromQuery, ticket)).resolves.toMatchObject({
+      userId: 5,
+    });
+  });
+
+  it('should refuse an access token in the query string', async () => {
+    await expect(strategy.validate(fromQuery, accessToken)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('should refuse a stream ticket used as an access token', async () => {
+    await expect(strategy.validate(fromHeader, ticket)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+});
@@ -1,38 +1,93 @@
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { PassportStrategy } from '@nestjs/passport';
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { UserRole, UserPersona } from '../entities/user.entity';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Request } from 'express';
+import { User, UserPersona } from '../entities/user.entity';
+import { RolesService } from '../services/roles.service';
 
 interface JwtPayload {
   sub: number;
-  email: string;
-  username: string;
-  role: UserRole;
-  persona: UserPersona;
+  // Profile claims; stream tickets carry only sub, ver and purpose.
+  email?: string;
+  username?: string;
+  role?: string;
+  persona?: UserPersona;
+  /** User.tokenVersion when signed; missing in older tokens. */
+  ver?: number;
+  /** Set on stream tickets, which are not access tokens. */
+  purpose?: typeof STREAM_TICKET_PURPOSE;
 }
 
+/** `purpose` claim of the short-lived tickets issued for SSE streams. */
+export const STREAM_TICKET_PURPOSE = 'stream';
+
+/**
+ * EventSource cannot send an Authorization header, so Server-Sent Event
+ * requests may pass a stream ticket (POST /auth/stream-ticket) as
+ * ?access_token=… instead. Query strings end up in proxy and access
+ * logs, so only these short-lived tickets are accepted there.
+ */
+const fromEventStreamQuery = (req: Request): string | null => {
+  const accept = req.headers?.accept || '';
+  if (!accept.includes('text/event-stream')) return null;
+  return ExtractJwt.fromUrlQueryParameter('access_token')(req);
+};
+
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(configService: ConfigService) {
+  constructor(
+    configService: ConfigService,
+    @InjectRepository(User)
+    private readonly usersRepository: Repository<User>,
+    private readonly rolesService: RolesService,
+  ) {
     const secret = configService.get<string>('JWT_SECRET');
     if (!secret) {
       throw new Error('JWT_SECRET environment variable is required');
     }
     super({
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      jwtFromRequest: ExtractJwt.fromExtractors([
+        ExtractJwt.fromAuthHeaderAsBearerToken(),
+        fromEventStreamQuery,
+      ]),
       ignoreExpiration: false,
       secretOrKey: secret,
+      passReqToCallback: true,
     });
   }
 
-  async validate(payload: JwtPayload) {
+  /**
+   * The claims are re-read from the user row, so a role change or a
+   * "revoke all sessions" (both bump tokenVersion) applies immediately
+   * instead of when the token expires. Permissions come from the role
+   * on every request, so editing a role needs no new tokens.
+   */
+  async validate(req: Request, payload: JwtPayload) {
+    const fromQuery = !ExtractJwt.fromAuthHeaderAsBearerToken()(req);
+    if ((payload.purpose === STREAM_TICKET_PURPOSE) !== fromQuery) {
+      throw new UnauthorizedException(
+        fromQuery
+          ? 'Only stream tickets are accepted in the query string'
+          : 'Stream tickets are only accepted in the query string',
+      );
+    }
+    const user = await this.usersRepository.findOne({
+      where: { id: payload.sub },
+    });
+    if (!user || user.tokenVersion !== (payload.ver ?? 0)) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
     return {
-      userId: payload.sub,
-      email: payload.email,
-      role: payload.role,
-      persona: payload.persona,
-      username: payload.username,
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      permissions: await this.rolesService.permissionsFor(user.role),
+      persona: user.persona,
+      username: user.username,
+      verified: !!user.verifiedAt,
     };
   }
 }
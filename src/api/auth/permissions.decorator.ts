@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from './permissions';
+
+export const PERMISSIONS_KEY = 'permissions';
+/** The request user needs every listed permission; see PermissionsGuard. */
+export const RequirePermissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
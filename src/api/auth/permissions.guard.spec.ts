@@ -0,0 +1,42 @@
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionsGuard } from './permissions.guard';
+import { Permission } from './permissions';
+
+describe('PermissionsGuard', () => {
+  const reflector = { getAllAndOverride: jest.fn() };
+  const guard = new PermissionsGuard(reflector as unknown as Reflector);
+  const context = (user: unknown) =>
+    ({
+      getHandler: () => null,
+      getClass: () => null,
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    }) as unknown as ExecutionContext;
+
+  it('should allow routes without required permissions', () => {
+    reflector.getAllAndOverride.mockReturnValue(undefined);
+    expect(guard.canActivate(context({ permissions: [] }))).toBe(true);
+  });
+
+  it('should require every listed permission', () => {
+    reflector.getAllAndOverride.mockReturnValue([
+      Permission.SYNC_RUN,
+      Permission.PERSONS_DELETE,
+    ]);
+    expect(
+      guard.canActivate(context({ permissions: [Permission.SYNC_RUN] })),
+    ).toBe(false);
+    expect(
+      guard.canActivate(
+        context({
+          permissions: [Permission.SYNC_RUN, Permission.PERSONS_DELETE],
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  it('should deny when there is no user', () => {
+    reflector.getAllAndOverride.mockReturnValue([Permission.AUDIT_READ]);
+    expect(guard.canActivate(context(undefined))).toBe(false);
+  });
+});
@@ -0,0 +1,22 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Permission } from './permissions';
+import { PERMISSIONS_KEY } from './permissions.decorator';
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const required = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!required) {
+      return true;
+    }
+    const { user } = context.switchToHttp().getRequest();
+    const granted: Permission[] = user?.permissions ?? [];
+    return required.every((permission) => granted.includes(permission));
+  }
+}
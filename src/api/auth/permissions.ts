@@ -0,0 +1,35 @@
+import { UserRole } from '../entities/user.entity';
+
+/** What a role may do. Roles are named sets of these, see Role. */
+export enum Permission {
+  /** Create and edit persons, lock fields, restore and roll back. */
+  PERSONS_WRITE = 'persons:write',
+  /** Move persons to the trash and purge it. */
+  PERSONS_DELETE = 'persons:delete',
+  /** Review proposed edits and moderate discussions. */
+  EDITS_REVIEW = 'edits:review',
+  /** Run and monitor Wikipedia syncs. */
+  SYNC_RUN = 'sync:run',
+  /** Correct geocoded places. */
+  PLACES_MANAGE = 'places:manage',
+  /** Configure auto-approval rules. */
+  RULES_MANAGE = 'rules:manage',
+  /** List users, assign roles and personas, unlock and sign them out. */
+  USERS_MANAGE = 'users:manage',
+  /** Create and edit roles. */
+  ROLES_MANAGE = 'roles:manage',
+  /** Read the authentication audit log. */
+  AUDIT_READ = 'audit:read',
+}
+
+export const ALL_PERMISSIONS = Object.values(Permission);
+
+/**
+ * Roles that always exist. The admin role always holds every permission;
+ * the others start out with these and can be edited.
+ */
+export const BUILT_IN_ROLES: Record<UserRole, Permission[]> = {
+  [UserRole.ADMIN]: ALL_PERMISSIONS,
+  [UserRole.MODERATOR]: [Permission.EDITS_REVIEW],
+  [UserRole.USER]: [],
+};
@@ -0,0 +1,20 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+
+/** Only lets users with a verified email address through; use after jwt. */
+@Injectable()
+export class VerifiedGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context.switchToHttp().getRequest();
+    if (!user?.verified) {
+      throw new ForbiddenException(
+        'Verify your email address before doing this',
+      );
+    }
+    return true;
+  }
+}
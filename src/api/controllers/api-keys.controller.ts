@@ -0,0 +1,52 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiKeysService } from '../services/api-keys.service';
+import { CreateApiKeyDto } from '../dtos/api-key.dto';
+
+/** Keys are managed with a login token only, never with another key. */
+@ApiTags('auth')
+@Controller('api-keys')
+@UseGuards(AuthGuard('jwt'))
+@ApiBearerAuth()
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @ApiOperation({
+    summary:
+      'Create a personal API key; the key is only shown in this response',
+  })
+  create(
+    @Body() dto: CreateApiKeyDto,
+    @Request() req: { user: { userId: number } },
+  ) {
+    return this.apiKeysService.create(req.user.userId, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List my API keys' })
+  findAll(@Request() req: { user: { userId: number } }) {
+    return this.apiKeysService.findForUser(req.user.userId);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke one of my API keys' })
+  async revoke(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: { user: { userId: number } },
+  ) {
+    await this.apiKeysService.revoke(req.user.userId, id);
+    return { revoked: true };
+  }
+}
@@ -0,0 +1,47 @@
+import {
+  Controller,
+  Get,
+  ParseEnumPipe,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions } from '../auth/permissions.decorator';
+import { Permission } from '../auth/permissions';
+import { AuthEventType } from '../entities/auth-event.entity';
+import { AuthAuditService } from '../services/auth-audit.service';
+import { CursorPageQueryDto } from '../dtos/pagination.dto';
+
+@ApiTags('auth')
+@Controller('auth-events')
+@UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+@RequirePermissions(Permission.AUDIT_READ)
+@ApiBearerAuth()
+export class AuthEventsController {
+  constructor(private readonly auditService: AuthAuditService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Authentication audit log, newest first (requires audit:read)',
+  })
+  @ApiQuery({ name: 'userId', required: false, type: Number })
+  @ApiQuery({ name: 'type', required: false, enum: AuthEventType })
+  @ApiQuery({ name: 'ip', required: false })
+  findAll(
+    @Query() page: CursorPageQueryDto,
+    @Query('userId', new ParseIntPipe({ optional: true })) userId?: number,
+    @Query('type', new ParseEnumPipe(AuthEventType, { optional: true }))
+    type?: AuthEventType,
+    @Query('ip') ip?: string,
+  ) {
+    return this.auditService.findAll({ userId, type, ip }, page);
+  }
+}
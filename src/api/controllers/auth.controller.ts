@@ -8,8 +8,16 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { AuthService } from '../services/auth.service';
-import { CreateUserDto, LoginUserDto } from '../dtos/auth.dto';
+import {
+  CreateUserDto,
+  EmailTokenDto,
+  ForgotPasswordDto,
+  LoginUserDto,
+  RefreshTokenDto,
+  ResetPasswordDto,
+} from '../dtos/auth.dto';
 import { AuthGuard } from '@nestjs/passport';
+import { Client, ClientInfo } from '../auth/client-info.decorator';
 
 @ApiTags('auth')
 @Controller('auth')
@@ -17,23 +25,106 @@ export class AuthController {
   constructor(private authService: AuthService) {}
 
   @Post('login')
-  @ApiOperation({ summary: 'Login with email and password' })
-  async login(@Body() loginDto: LoginUserDto) {
-    const user = await this.authService.validateUser(
+  @ApiOperation({
+    summary:
+      'Login with email and password; 401 on bad credentials, 429 while locked out',
+  })
+  async login(@Body() loginDto: LoginUserDto, @Client() client: ClientInfo) {
+    return this.authService.authenticate(
       loginDto.email,
       loginDto.password,
+      client,
     );
-    if (!user) return { error: 'Invalid credentials' };
-    return this.authService.login(user);
   }
 
   @Post('register')
   @ApiOperation({ summary: 'Register a new user' })
-  async register(@Body() createUserDto: CreateUserDto) {
-    return this.authService.register(createUserDto);
+  async register(
+    @Body() createUserDto: CreateUserDto,
+    @Client() client: ClientInfo,
+  ) {
+    return this.authService.register(createUserDto, client);
+  }
+
+  @Post('refresh')
+  @ApiOperation({
+    summary: 'Exchange a refresh token for a new access and refresh token',
+  })
+  async refresh(@Body() dto: RefreshTokenDto, @Client() client: ClientInfo) {
+    return this.authService.refresh(dto.refreshToken, client);
+  }
+
+  @Post('logout')
+  @ApiOperation({ summary: 'End the session of a refresh token' })
+  async logout(@Body() dto: RefreshTokenDto, @Client() client: ClientInfo) {
+    await this.authService.logout(dto.refreshToken, client);
+    return { loggedOut: true };
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post('logout-all')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Sign out of every session, on all devices, and revoke my API keys',
+  })
+  async logoutAll(@Request() req: { user: { userId: number } }) {
+    return this.authService.revokeAllSessions(req.user.userId);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post('stream-ticket')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Get a one-minute ticket to open a Server-Sent Event stream with ?access_token=',
+  })
+  async streamTicket(@Request() req: { user: { userId: number } }) {
+    return this.authService.issueStreamTicket(req.user.userId);
+  }
+
+  @Post('verify-email')
+  @ApiOperation({ summary: 'Confirm an email address with the mailed token' })
+  async verifyEmail(@Body() dto: EmailTokenDto, @Client() client: ClientInfo) {
+    await this.authService.verifyEmail(dto.token, client);
+    return { verified: true };
   }
 
   @UseGuards(AuthGuard('jwt'))
+  @Post('resend-verification')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Mail a new email verification link' })
+  async resendVerification(@Request() req: { user: { userId: number } }) {
+    await this.authService.resendVerification(req.user.userId);
+    return { sent: true };
+  }
+
+  @Post('forgot-password')
+  @ApiOperation({
+    summary: 'Mail a password reset link, if the address has an account',
+  })
+  async forgotPassword(
+    @Body() dto: ForgotPasswordDto,
+    @Client() client: ClientInfo,
+  ) {
+    await this.authService.forgotPassword(dto.email, client);
+    return { sent: true };
+  }
+
+  @Post('reset-password')
+  @ApiOperation({
+    summary:
+      'Set a new password with a mailed token; ends all sessions and revokes API keys',
+  })
+  async resetPassword(
+    @Body() dto: ResetPasswordDto,
+    @Client() client: ClientInfo,
+  ) {
+    await this.authService.resetPassword(dto.token, dto.password, client);
+    return { reset: true };
+  }
+
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
   @Get('profile')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get current user profile' })
@@ -0,0 +1,64 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseIntPipe,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions } from '../auth/permissions.decorator';
+import { Permission } from '../auth/permissions';
+import { AutoApprovalRulesService } from '../services/auto-approval-rules.service';
+import {
+  CreateAutoApprovalRuleDto,
+  UpdateAutoApprovalRuleDto,
+} from '../dtos/auto-approval-rule.dto';
+
+@ApiTags('auto-approval-rules')
+@Controller('auto-approval-rules')
+@UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+@RequirePermissions(Permission.RULES_MANAGE)
+@ApiBearerAuth()
+export class AutoApprovalRulesController {
+  constructor(private readonly rulesService: AutoApprovalRulesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List auto-approval rules (requires rules:manage)' })
+  async findAll() {
+    return this.rulesService.findAll();
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create an auto-approval rule (requires rules:manage)',
+  })
+  async create(@Body() dto: CreateAutoApprovalRuleDto) {
+    return this.rulesService.create(dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update an auto-approval rule (requires rules:manage)',
+  })
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateAutoApprovalRuleDto,
+  ) {
+    return this.rulesService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete an auto-approval rule (requires rules:manage)',
+  })
+  async remove(@Param('id', ParseIntPipe) id: number) {
+    await this.rulesService.remove(id);
+    return { deleted: true };
+  }
+}
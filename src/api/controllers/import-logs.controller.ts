@@ -1,17 +1,19 @@
-import { Controller, Get, UseGuards } from '@nestjs/common';
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { ImportLog } from '../entities/import-log.entity';
 import { AuthGuard } from '@nestjs/passport';
-import { RolesGuard } from '../auth/roles.guard';
-import { Roles } from '../auth/roles.decorator';
-import { UserRole } from '../entities/user.entity';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions } from '../auth/permissions.decorator';
+import { Permission } from '../auth/permissions';
+import { CursorPageQueryDto } from '../dtos/pagination.dto';
+import { paginate } from '../pagination/paginate';
 
 @ApiTags('import-logs')
 @Controller('import-logs')
-@UseGuards(AuthGuard('jwt'), RolesGuard)
-@Roles(UserRole.ADMIN)
+@UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+@RequirePermissions(Permission.SYNC_RUN)
 @ApiBearerAuth()
 export class ImportLogsController {
   constructor(
@@ -20,11 +22,11 @@ export class ImportLogsController {
   ) {}
 
   @Get()
-  @ApiOperation({ summary: 'Get import log history (admin only)' })
-  async findAll() {
-    return this.importLogRepository.find({
-      order: { importedAt: 'DESC' },
-      take: 100,
+  @ApiOperation({ summary: 'Get import log history (requires sync:run)' })
+  async findAll(@Query() page: CursorPageQueryDto) {
+    return paginate(this.importLogRepository, page, {
+      sortColumn: 'importedAt',
+      sortType: 'timestamp',
     });
   }
 }
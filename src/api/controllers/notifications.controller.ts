@@ -0,0 +1,68 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  ParseIntPipe,
+  ParseBoolPipe,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { NotificationsService } from '../services/notifications.service';
+import { CursorPageQueryDto } from '../dtos/pagination.dto';
+
+@ApiTags('notifications')
+@Controller('notifications')
+@UseGuards(AuthGuard(['jwt', 'api-key']))
+@ApiBearerAuth()
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'My notifications, newest first, with unread count',
+  })
+  @ApiQuery({ name: 'unread', required: false, type: Boolean })
+  async findMine(
+    @Request() req: { user: { userId: number } },
+    @Query() page: CursorPageQueryDto,
+    @Query('unread', new ParseBoolPipe({ optional: true })) unread?: boolean,
+  ) {
+    return this.notificationsService.findForUser(
+      req.user.userId,
+      page,
+      unread ?? false,
+    );
+  }
+
+  @Get('unread-count')
+  @ApiOperation({ summary: 'Number of my unread notifications' })
+  async countUnread(@Request() req: { user: { userId: number } }) {
+    return {
+      count: await this.notificationsService.countUnread(req.user.userId),
+    };
+  }
+
+  @Post('read-all')
+  @ApiOperation({ summary: 'Mark all my notifications as read' })
+  async markAllRead(@Request() req: { user: { userId: number } }) {
+    return this.notificationsService.markAllRead(req.user.userId);
+  }
+
+  @Post(':id/read')
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  async markRead(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: { user: { userId: number } },
+  ) {
+    return this.notificationsService.markRead(req.user.userId, id);
+  }
+}
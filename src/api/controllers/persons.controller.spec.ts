@@ -1,6 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
 import { PersonsController } from './persons.controller';
 import { PersonsService } from '../services/persons.service';
+import { PersonRevisionsService } from '../services/person-revisions.service';
+import { CommentsService } from '../services/comments.service';
 
 const mockPerson = {
   id: 'test-uuid-1',
@@ -15,15 +18,33 @@ describe('PersonsController', () => {
   let controller: PersonsController;
   const mockService = {
     create: jest.fn(),
+    findAll: jest.fn(),
     findOne: jest.fn(),
     update: jest.fn(),
     remove: jest.fn(),
+    rollback: jest.fn(),
+    setLocks: jest.fn(),
   };
+  const mockRevisions = {
+    findByPerson: jest.fn(),
+    findOne: jest.fn(),
+    diff: jest.fn(),
+  };
+  const mockComments = {
+    findThreads: jest.fn(),
+    add: jest.fn(),
+    remove: jest.fn(),
+  };
+  const req = { user: { userId: 1 } };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [PersonsController],
-      providers: [{ provide: PersonsService, useValue: mockService }],
+      providers: [
+        { provide: PersonsService, useValue: mockService },
+        { provide: PersonRevisionsService, useValue: mockRevisions },
+        { provide: CommentsService, useValue: mockComments },
+      ],
     }).compile();
 
     controller = module.get<PersonsController>(PersonsController);
@@ -34,6 +55,17 @@ describe('PersonsController', () => {
     expect(controller).toBeDefined();
   });
 
+  describe('findAll', () => {
+    it('should return a cursor page of persons', async () => {
+      const page = { items: [mockPerson], nextCursor: null };
+      mockService.findAll.mockResolvedValue(page);
+      const query = { limit: 10, oblast: 'Київська область' };
+      const result = await controller.findAll(query);
+      expect(result).toEqual(page);
+      expect(mockService.findAll).toHaveBeenCalledWith(query);
+    });
+  });
+
   describe('findOne', () => {
     it('should return a person by id', async () => {
       mockService.findOne.mockResolvedValue(mockPerson);
@@ -41,13 +73,26 @@ describe('PersonsController', () => {
       expect(result).toEqual(mockPerson);
       expect(mockService.findOne).toHaveBeenCalledWith('test-uuid-1');
     });
+
+    it('should return provenance only when asked for', async () => {
+      const provenance = { name: { source: 'manual', locked: true } };
+      mockService.findOne.mockResolvedValue({ ...mockPerson, provenance });
+
+      expect(await controller.findOne('test-uuid-1')).not.toHaveProperty(
+        'provenance',
+      );
+      mockService.findOne.mockResolvedValue({ ...mockPerson, provenance });
+      expect(await controller.findOne('test-uuid-1', true)).toMatchObject({
+        provenance,
+      });
+    });
   });
 
   describe('create', () => {
     it('should create and return a new person', async () => {
       const dto = { name: 'New Person' };
       mockService.create.mockResolvedValue({ id: 'test-uuid-2', ...dto });
-      const result = await controller.create(dto as any);
+      const result = await controller.create(dto as any, req);
       expect(result).toEqual({ id: 'test-uuid-2', ...dto });
     });
   });
@@ -56,11 +101,93 @@ describe('PersonsController', () => {
     it('should update and return the person', async () => {
       const updated = { ...mockPerson, name: 'Updated' };
       mockService.update.mockResolvedValue(updated);
-      const result = await controller.update('test-uuid-1', { name: 'Updated' } as any);
+      const result = await controller.update(
+        'test-uuid-1',
+        { name: 'Updated' } as any,
+        req,
+      );
       expect(result.name).toBe('Updated');
     });
   });
 
+  describe('revisions', () => {
+    it('should list the revisions of a person', async () => {
+      const page = { items: [{ id: 2 }, { id: 1 }], nextCursor: null };
+      mockRevisions.findByPerson.mockResolvedValue(page);
+      const result = await controller.findRevisions('test-uuid-1', {});
+      expect(result).toEqual(page);
+      expect(mockRevisions.findByPerson).toHaveBeenCalledWith(
+        'test-uuid-1',
+        {},
+      );
+    });
+
+    it('should diff two revisions', async () => {
+      const diff = { from: 1, to: 2, changes: {} };
+      mockRevisions.diff.mockResolvedValue(diff);
+      const result = await controller.diffRevisions('test-uuid-1', 1, 2);
+      expect(result).toEqual(diff);
+      expect(mockRevisions.diff).toHaveBeenCalledWith('test-uuid-1', 1, 2);
+    });
+
+    it('should not show the revisions of a trashed person', async () => {
+      mockService.findOne.mockRejectedValue(new NotFoundException());
+      await expect(controller.findRevisions('test-uuid-1', {})).rejects.toThrow(
+        NotFoundException,
+      );
+      await expect(
+        controller.diffRevisions('test-uuid-1', 1, 2),
+      ).rejects.toThrow(NotFoundException);
+      await expect(controller.findRevision('test-uuid-1', 1)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockRevisions.findByPerson).not.toHaveBeenCalled();
+      expect(mockRevisions.diff).not.toHaveBeenCalled();
+      expect(mockRevisions.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should roll back as the current user', async () => {
+      mockService.rollback.mockResolvedValue(mockPerson);
+      const result = await controller.rollback('test-uuid-1', 1, req);
+      expect(result).toEqual(mockPerson);
+      expect(mockService.rollback).toHaveBeenCalledWith('test-uuid-1', 1, 1);
+    });
+  });
+
+  describe('setLocks', () => {
+    it('should pass the lock request to the service', async () => {
+      const dto = { fields: ['summary'], locked: true };
+      mockService.setLocks.mockResolvedValue({});
+      await controller.setLocks('test-uuid-1', dto);
+      expect(mockService.setLocks).toHaveBeenCalledWith('test-uuid-1', dto);
+    });
+  });
+
+  describe('comments', () => {
+    it('should post on the person thread as the current user', async () => {
+      const dto = { body: 'Source for the birth date?' };
+      mockComments.add.mockResolvedValue({ id: 1 });
+      await controller.addComment('test-uuid-1', dto, req);
+      expect(mockComments.add).toHaveBeenCalledWith(
+        { personId: 'test-uuid-1' },
+        1,
+        dto,
+      );
+    });
+
+    it('should delete a comment and return confirmation', async () => {
+      const user = { userId: 1, permissions: [] };
+      mockComments.remove.mockResolvedValue(undefined);
+      const result = await controller.removeComment('test-uuid-1', 3, { user });
+      expect(result).toEqual({ deleted: true });
+      expect(mockComments.remove).toHaveBeenCalledWith(
+        { personId: 'test-uuid-1' },
+        3,
+        user,
+      );
+    });
+  });
+
   describe('remove', () => {
     it('should delete and return confirmation', async () => {
       mockService.remove.mockResolvedValue(undefined);
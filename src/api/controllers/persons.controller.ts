@@ -6,54 +6,235 @@ import {
   Delete,
   Body,
   Param,
+  ParseBoolPipe,
+  ParseIntPipe,
   ParseUUIDPipe,
+  Patch,
+  Query,
+  Request,
   UseGuards,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
 import { PersonsService } from '../services/persons.service';
-import { CreatePersonDto, UpdatePersonDto } from '../dtos/person.dto';
+import {
+  CreatePersonDto,
+  ListPersonsQueryDto,
+  LockFieldsDto,
+  UpdatePersonDto,
+} from '../dtos/person.dto';
 import { AuthGuard } from '@nestjs/passport';
-import { RolesGuard } from '../auth/roles.guard';
-import { Roles } from '../auth/roles.decorator';
-import { UserRole } from '../entities/user.entity';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions } from '../auth/permissions.decorator';
+import { Permission } from '../auth/permissions';
+import { Person } from '../entities/person.entity';
+import { CursorPageQueryDto } from '../dtos/pagination.dto';
+import { PersonRevisionsService } from '../services/person-revisions.service';
+import { CreateCommentDto } from '../dtos/comment.dto';
+import { CommentsService } from '../services/comments.service';
 
 @ApiTags('persons')
 @Controller('persons')
 export class PersonsController {
-  constructor(private readonly personsService: PersonsService) {}
+  constructor(
+    private readonly personsService: PersonsService,
+    private readonly revisionsService: PersonRevisionsService,
+    private readonly commentsService: CommentsService,
+  ) {}
 
   @Post()
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+  @RequirePermissions(Permission.PERSONS_WRITE)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create a new person (requires persons:write)' })
+  async create(
+    @Body() dto: CreatePersonDto,
+    @Request() req: { user: { userId: number } },
+  ) {
+    return this.personsService.create(dto, req.user.userId);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List persons by rating (cursor pagination)',
+  })
+  async findAll(@Query() query: ListPersonsQueryDto) {
+    return this.personsService.findAll(query);
+  }
+
+  @Get('trash')
+  @UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+  @RequirePermissions(Permission.PERSONS_DELETE)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List persons in the trash (requires persons:delete)',
+  })
+  async findTrash(@Query() page: CursorPageQueryDto) {
+    return this.personsService.findTrash(page);
+  }
+
+  @Post('trash/purge')
+  @UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+  @RequirePermissions(Permission.PERSONS_DELETE)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Permanently delete persons past the trash retention period (requires persons:delete)',
+  })
+  async purgeTrash() {
+    return this.personsService.purgeExpired();
+  }
+
+  @Post(':id/restore')
+  @UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+  @RequirePermissions(Permission.PERSONS_WRITE)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Create a new person (admin only)' })
-  async create(@Body() dto: CreatePersonDto) {
-    return this.personsService.create(dto);
+  @ApiOperation({
+    summary: 'Restore a person from the trash (requires persons:write)',
+  })
+  async restore(@Param('id', ParseUUIDPipe) id: string) {
+    return this.personsService.restore(id);
   }
 
   @Get(':id')
   @ApiOperation({ summary: 'Get a person by ID' })
-  async findOne(@Param('id', ParseUUIDPipe) id: string) {
-    return this.personsService.findOne(id);
+  @ApiQuery({
+    name: 'includeProvenance',
+    required: false,
+    type: Boolean,
+    description: 'Include the source and lock state of each field',
+  })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('includeProvenance', new ParseBoolPipe({ optional: true }))
+    includeProvenance?: boolean,
+  ) {
+    const person: Partial<Person> = await this.personsService.findOne(id);
+    if (!includeProvenance) delete person.provenance;
+    return person;
+  }
+
+  @Patch(':id/locks')
+  @UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+  @RequirePermissions(Permission.PERSONS_WRITE)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Lock or unlock person fields against sync (requires persons:write)',
+  })
+  async setLocks(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: LockFieldsDto,
+  ) {
+    return this.personsService.setLocks(id, dto);
   }
 
   @Put(':id')
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+  @RequirePermissions(Permission.PERSONS_WRITE)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Update a person (admin only)' })
+  @ApiOperation({ summary: 'Update a person (requires persons:write)' })
   async update(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() dto: UpdatePersonDto,
+    @Request() req: { user: { userId: number } },
+  ) {
+    return this.personsService.update(id, dto, req.user.userId);
+  }
+
+  // Revisions of trashed persons are only readable after a restore, so
+  // the revision endpoints 404 like GET /persons/:id does.
+  @Get(':id/revisions')
+  @ApiOperation({ summary: 'Revision history of a person, newest first' })
+  async findRevisions(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() page: CursorPageQueryDto,
   ) {
-    return this.personsService.update(id, dto);
+    await this.personsService.findOne(id);
+    return this.revisionsService.findByPerson(id, page);
+  }
+
+  @Get(':id/revisions/diff')
+  @ApiOperation({ summary: 'Field differences between two revisions' })
+  async diffRevisions(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('from', ParseIntPipe) from: number,
+    @Query('to', ParseIntPipe) to: number,
+  ) {
+    await this.personsService.findOne(id);
+    return this.revisionsService.diff(id, from, to);
+  }
+
+  @Get(':id/revisions/:revisionId')
+  @ApiOperation({ summary: 'Get a single revision of a person' })
+  async findRevision(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('revisionId', ParseIntPipe) revisionId: number,
+  ) {
+    await this.personsService.findOne(id);
+    return this.revisionsService.findOne(id, revisionId);
+  }
+
+  @Post(':id/revisions/:revisionId/rollback')
+  @UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+  @RequirePermissions(Permission.PERSONS_WRITE)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Restore a person to the state of a revision (requires persons:write)',
+  })
+  async rollback(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('revisionId', ParseIntPipe) revisionId: number,
+    @Request() req: { user: { userId: number } },
+  ) {
+    return this.personsService.rollback(id, revisionId, req.user.userId);
+  }
+
+  @Get(':id/comments')
+  @ApiOperation({ summary: 'Discussion threads on a person' })
+  async findComments(@Param('id', ParseUUIDPipe) id: string) {
+    return this.commentsService.findThreads({ personId: id });
+  }
+
+  @Post(':id/comments')
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Comment on a person or reply to a comment' })
+  async addComment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: CreateCommentDto,
+    @Request() req: { user: { userId: number } },
+  ) {
+    return this.commentsService.add({ personId: id }, req.user.userId, dto);
+  }
+
+  @Delete(':id/comments/:commentId')
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Delete a comment (its author, admins and moderators)',
+  })
+  async removeComment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('commentId', ParseIntPipe) commentId: number,
+    @Request() req: { user: { userId: number; permissions: Permission[] } },
+  ) {
+    await this.commentsService.remove({ personId: id }, commentId, req.user);
+    return { deleted: true };
   }
 
   @Delete(':id')
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+  @RequirePermissions(Permission.PERSONS_DELETE)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Delete a person (admin only)' })
+  @ApiOperation({
+    summary: 'Move a person to the trash (requires persons:delete)',
+  })
   async remove(@Param('id', ParseUUIDPipe) id: string) {
     await this.personsService.remove(id);
     return { deleted: true };
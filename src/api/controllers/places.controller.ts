@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  ParseIntPipe,
+  DefaultValuePipe,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions } from '../auth/permissions.decorator';
+import { Permission } from '../auth/permissions';
+import { PlacesService, PlaceStatus } from '../services/places.service';
+import { UpdatePlaceCoordinatesDto } from '../dtos/place.dto';
+
+@ApiTags('places')
+@Controller('places')
+@UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+@RequirePermissions(Permission.PLACES_MANAGE)
+@ApiBearerAuth()
+export class PlacesController {
+  constructor(private readonly placesService: PlacesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List geocoded places (requires places:manage)' })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ['resolved', 'failed', 'all'],
+    description: 'Filter by lookup outcome (default: all)',
+  })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async findAll(
+    @Query('status', new DefaultValuePipe('all')) status: PlaceStatus,
+    @Query('limit', new DefaultValuePipe(100), ParseIntPipe) limit: number,
+  ) {
+    return this.placesService.findAll(status, limit);
+  }
+
+  @Get('failed')
+  @ApiOperation({
+    summary: 'List places that failed to resolve (requires places:manage)',
+  })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async findFailed(
+    @Query('limit', new DefaultValuePipe(100), ParseIntPipe) limit: number,
+  ) {
+    return this.placesService.findAll('failed', limit);
+  }
+
+  @Put(':id/coordinates')
+  @ApiOperation({
+    summary:
+      'Fix the coordinates of a place and, by default, of everyone born there (requires places:manage)',
+  })
+  async updateCoordinates(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdatePlaceCoordinatesDto,
+    @Request() req: { user: { userId: number } },
+  ) {
+    const place = await this.placesService.override(id, dto.lat, dto.lng);
+    const personsUpdated =
+      dto.applyToPersons === false
+        ? 0
+        : await this.placesService.applyToPersons(id, req.user.userId);
+    return { place, personsUpdated };
+  }
+
+  @Post(':id/apply')
+  @ApiOperation({
+    summary:
+      "Re-apply a place's coordinates to every person born there, except locked ones",
+  })
+  async applyToPersons(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: { user: { userId: number } },
+  ) {
+    const personsUpdated = await this.placesService.applyToPersons(
+      id,
+      req.user.userId,
+    );
+    return { personsUpdated };
+  }
+}
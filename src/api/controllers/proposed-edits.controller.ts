@@ -2,8 +2,11 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
+  Delete,
   Body,
   Param,
+  ParseIntPipe,
   ParseUUIDPipe,
   UseGuards,
   Request,
@@ -11,22 +14,40 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { AuthGuard } from '@nestjs/passport';
-import { RolesGuard } from '../auth/roles.guard';
-import { Roles } from '../auth/roles.decorator';
-import { UserRole } from '../entities/user.entity';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions } from '../auth/permissions.decorator';
+import { Permission } from '../auth/permissions';
+import { VerifiedGuard } from '../auth/verified.guard';
 import { ProposedEditsService } from '../services/proposed-edits.service';
-import { CreateProposedEditDto, ReviewProposedEditDto } from '../dtos/proposed-edit.dto';
-import { ProposedEditStatus } from '../entities/proposed-edit.entity';
+import {
+  CreateProposedEditDto,
+  ResubmitProposedEditDto,
+  ReviewProposedEditDto,
+} from '../dtos/proposed-edit.dto';
+import {
+  ProposalType,
+  ProposedEditStatus,
+} from '../entities/proposed-edit.entity';
+import { CursorPageQueryDto } from '../dtos/pagination.dto';
+import { CreateCommentDto } from '../dtos/comment.dto';
+import { CommentsService } from '../services/comments.service';
 
 @ApiTags('proposed-edits')
 @Controller('proposed-edits')
-@UseGuards(AuthGuard('jwt'))
+@UseGuards(AuthGuard(['jwt', 'api-key']))
 @ApiBearerAuth()
 export class ProposedEditsController {
-  constructor(private readonly proposedEditsService: ProposedEditsService) {}
+  constructor(
+    private readonly proposedEditsService: ProposedEditsService,
+    private readonly commentsService: CommentsService,
+  ) {}
 
   @Post()
-  @ApiOperation({ summary: 'Propose an edit to a person record' })
+  @UseGuards(VerifiedGuard)
+  @ApiOperation({
+    summary:
+      'Propose a change: update, create, merge or delete a person record (verified users)',
+  })
   async create(
     @Body() dto: CreateProposedEditDto,
     @Request() req: { user: { userId: number } },
@@ -41,32 +62,104 @@ export class ProposedEditsController {
   }
 
   @Get()
-  @UseGuards(RolesGuard)
-  @Roles(UserRole.ADMIN)
-  @ApiOperation({ summary: 'Get all proposed edits (admin only)' })
+  @UseGuards(PermissionsGuard)
+  @RequirePermissions(Permission.EDITS_REVIEW)
+  @ApiOperation({ summary: 'Get all proposed edits (requires edits:review)' })
   @ApiQuery({ name: 'status', required: false, enum: ProposedEditStatus })
-  async findAll(@Query('status') status?: ProposedEditStatus) {
-    return this.proposedEditsService.findAll(status);
+  @ApiQuery({ name: 'type', required: false, enum: ProposalType })
+  async findAll(
+    @Query() page: CursorPageQueryDto,
+    @Query('status') status?: ProposedEditStatus,
+    @Query('type') type?: ProposalType,
+  ) {
+    return this.proposedEditsService.findAll({ status, type }, page);
   }
 
   @Get(':id')
-  @ApiOperation({ summary: 'Get a proposed edit by ID' })
+  @ApiOperation({
+    summary: 'Get a proposed edit by ID, with conflicting pending edits',
+  })
   async findOne(@Param('id', ParseUUIDPipe) id: string) {
-    return this.proposedEditsService.findOne(id);
+    return this.proposedEditsService.findOneWithConflicts(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary:
+      'Revise a proposed edit that was sent back for changes and resubmit it (author only)',
+  })
+  async resubmit(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ResubmitProposedEditDto,
+    @Request() req: { user: { userId: number } },
+  ) {
+    return this.proposedEditsService.resubmit(id, req.user.userId, dto);
   }
 
   @Post(':id/review')
-  @UseGuards(RolesGuard)
-  @Roles(UserRole.ADMIN)
-  @ApiOperation({ summary: 'Approve or reject a proposed edit (admin only)' })
+  @UseGuards(PermissionsGuard)
+  @RequirePermissions(Permission.EDITS_REVIEW)
+  @ApiOperation({
+    summary:
+      'Approve (optionally only some fields), reject or request changes to a proposed edit (requires edits:review)',
+  })
   async review(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() dto: ReviewProposedEditDto,
     @Request() req: { user: { userId: number } },
   ) {
     if (dto.action === 'approve') {
-      return this.proposedEditsService.approve(id, req.user.userId, dto.reviewComment);
+      return this.proposedEditsService.approve(
+        id,
+        req.user.userId,
+        dto.reviewComment,
+        dto.fields,
+      );
+    }
+    if (dto.action === 'request_changes') {
+      return this.proposedEditsService.requestChanges(
+        id,
+        req.user.userId,
+        dto.reviewComment,
+      );
     }
     return this.proposedEditsService.reject(id, req.user.userId, dto.reviewComment);
   }
+
+  @Get(':id/comments')
+  @ApiOperation({ summary: 'Discussion threads on a proposed edit' })
+  async findComments(@Param('id', ParseUUIDPipe) id: string) {
+    return this.commentsService.findThreads({ proposedEditId: id });
+  }
+
+  @Post(':id/comments')
+  @ApiOperation({ summary: 'Comment on a proposed edit or reply to a comment' })
+  async addComment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: CreateCommentDto,
+    @Request() req: { user: { userId: number } },
+  ) {
+    return this.commentsService.add(
+      { proposedEditId: id },
+      req.user.userId,
+      dto,
+    );
+  }
+
+  @Delete(':id/comments/:commentId')
+  @ApiOperation({
+    summary: 'Delete a comment (its author, admins and moderators)',
+  })
+  async removeComment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('commentId', ParseIntPipe) commentId: number,
+    @Request() req: { user: { userId: number; permissions: Permission[] } },
+  ) {
+    await this.commentsService.remove(
+      { proposedEditId: id },
+      commentId,
+      req.user,
+    );
+    return { deleted: true };
+  }
 }
@@ -0,0 +1,60 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions } from '../auth/permissions.decorator';
+import { ALL_PERMISSIONS, Permission } from '../auth/permissions';
+import { RolesService } from '../services/roles.service';
+import { CreateRoleDto, UpdateRoleDto } from '../dtos/role.dto';
+
+@ApiTags('users')
+@Controller('roles')
+@UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+@RequirePermissions(Permission.ROLES_MANAGE)
+@ApiBearerAuth()
+export class RolesController {
+  constructor(private readonly rolesService: RolesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List roles and their permissions' })
+  findAll() {
+    return this.rolesService.findAll();
+  }
+
+  @Get('permissions')
+  @ApiOperation({ summary: 'List every permission a role can grant' })
+  findPermissions() {
+    return ALL_PERMISSIONS;
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a role' })
+  create(@Body() dto: CreateRoleDto) {
+    return this.rolesService.create(dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: "Change a role's description or permissions; applies immediately",
+  })
+  update(@Param('id', ParseIntPipe) id: number, @Body() dto: UpdateRoleDto) {
+    return this.rolesService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a custom role that nobody holds' })
+  async remove(@Param('id', ParseIntPipe) id: number) {
+    await this.rolesService.remove(id);
+    return { deleted: true };
+  }
+}
@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { SearchController } from './search.controller';
 import { SearchService } from '../services/search.service';
+import { ClusteringService } from '../services/clustering.service';
+import { PersonQueryService } from '../services/person-query.service';
 
 const mockResults = [
   { person: { id: 1, name: 'Taras Shevchenko' }, similarity: 0.9 },
@@ -13,12 +15,26 @@ describe('SearchController', () => {
     search: jest.fn(),
     searchByRadius: jest.fn(),
     searchByPolygon: jest.fn(),
+    searchByDeathRadius: jest.fn(),
+    getMigrationFlows: jest.fn(),
+    searchByBbox: jest.fn(),
+    searchNearest: jest.fn(),
+  };
+  const mockClusteringService = {
+    getClusters: jest.fn(),
+  };
+  const mockPersonQueryService = {
+    query: jest.fn(),
   };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [SearchController],
-      providers: [{ provide: SearchService, useValue: mockService }],
+      providers: [
+        { provide: SearchService, useValue: mockService },
+        { provide: ClusteringService, useValue: mockClusteringService },
+        { provide: PersonQueryService, useValue: mockPersonQueryService },
+      ],
     }).compile();
 
     controller = module.get<SearchController>(SearchController);
@@ -73,4 +89,63 @@ describe('SearchController', () => {
       expect(mockService.searchByPolygon).toHaveBeenCalledWith(polygon, 50);
     });
   });
+
+  describe('searchByDeathRadius', () => {
+    it('should call service with death radius parameters', async () => {
+      mockService.searchByDeathRadius.mockResolvedValue([]);
+
+      await controller.searchByDeathRadius(48.85, 2.35, 25, 100);
+      expect(mockService.searchByDeathRadius).toHaveBeenCalledWith(
+        48.85,
+        2.35,
+        25,
+        100,
+      );
+    });
+  });
+
+  describe('getMigrationFlows', () => {
+    it('should fall back to oblast level for unknown values', async () => {
+      const flows = [{ from: 'Львівська область', to: 'Канада', count: 7 }];
+      mockService.getMigrationFlows.mockResolvedValue(flows);
+
+      expect(await controller.getMigrationFlows('region', 2, 50)).toEqual(
+        flows,
+      );
+      expect(mockService.getMigrationFlows).toHaveBeenCalledWith(
+        'oblast',
+        2,
+        50,
+      );
+    });
+  });
+
+  describe('getClusters', () => {
+    it('should delegate the bbox, zoom and filters', async () => {
+      const query = {
+        minLat: 44,
+        minLng: 22,
+        maxLat: 53,
+        maxLng: 41,
+        zoom: 6,
+        category: 'writer',
+      };
+      const response = { zoom: 6, clustered: true, clusters: [], persons: [] };
+      mockClusteringService.getClusters.mockResolvedValue(response);
+
+      expect(await controller.getClusters(query)).toEqual(response);
+      expect(mockClusteringService.getClusters).toHaveBeenCalledWith(query);
+    });
+  });
+
+  describe('searchNearest', () => {
+    it('should pass the point, paging and filters through', async () => {
+      const query = { lat: 50.45, lng: 30.52, limit: 5, category: 'writer' };
+      const results = [{ person: { id: 'p1' }, distanceKm: 1.2 }];
+      mockService.searchNearest.mockResolvedValue(results);
+
+      expect(await controller.searchNearest(query)).toEqual(results);
+      expect(mockService.searchNearest).toHaveBeenCalledWith(query);
+    });
+  });
 });
@@ -10,11 +10,32 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiQuery } from '@nestjs/swagger';
 import { SearchService } from '../services/search.service';
+import { ClusteringService } from '../services/clustering.service';
+import { PersonQueryService } from '../services/person-query.service';
+import {
+  BboxQueryDto,
+  ClusterQueryDto,
+  NearestQueryDto,
+  PersonQueryDto,
+} from '../dtos/search.dto';
 
 @ApiTags('search')
 @Controller('persons')
 export class SearchController {
-  constructor(private readonly searchService: SearchService) {}
+  constructor(
+    private readonly searchService: SearchService,
+    private readonly clusteringService: ClusteringService,
+    private readonly personQueryService: PersonQueryService,
+  ) {}
+
+  @Post('query')
+  @ApiOperation({
+    summary:
+      'Combined text, attribute and geometry query with facet counts and cursor pagination',
+  })
+  async query(@Body() dto: PersonQueryDto) {
+    return this.personQueryService.query(dto);
+  }
 
   @Get('search')
   @ApiOperation({
@@ -71,6 +92,96 @@ export class SearchController {
     return this.searchService.searchByPolygon(body.polygon, body.limit || 100);
   }
 
+  @Get('geo/bbox')
+  @ApiOperation({
+    summary: 'Find persons born inside a bounding box (map viewport)',
+  })
+  async searchByBbox(@Query() query: BboxQueryDto) {
+    return this.searchService.searchByBbox(query);
+  }
+
+  @Get('geo/nearest')
+  @ApiOperation({
+    summary: 'Find the persons born nearest to a point (KNN, distance in km)',
+  })
+  async searchNearest(@Query() query: NearestQueryDto) {
+    return this.searchService.searchNearest(query);
+  }
+
+  @Get('geo/clusters')
+  @ApiOperation({
+    summary:
+      'Cluster birth locations in a bbox for a zoom level (individual persons at high zoom)',
+  })
+  async getClusters(@Query() query: ClusterQueryDto) {
+    return this.clusteringService.getClusters(query);
+  }
+
+  @Get('geo/death/radius')
+  @ApiOperation({ summary: 'Find persons who died within a radius' })
+  @ApiQuery({ name: 'lat', type: Number, description: 'Center latitude' })
+  @ApiQuery({ name: 'lng', type: Number, description: 'Center longitude' })
+  @ApiQuery({ name: 'radius', type: Number, description: 'Radius in km' })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Max results (default: 100)',
+  })
+  async searchByDeathRadius(
+    @Query('lat', ParseFloatPipe) lat: number,
+    @Query('lng', ParseFloatPipe) lng: number,
+    @Query('radius', ParseFloatPipe) radiusKm: number,
+    @Query('limit', new DefaultValuePipe(100), ParseIntPipe) limit: number,
+  ) {
+    return this.searchService.searchByDeathRadius(lat, lng, radiusKm, limit);
+  }
+
+  @Post('geo/death/polygon')
+  @ApiOperation({ summary: 'Find persons who died within a GeoJSON polygon' })
+  async searchByDeathPolygon(
+    @Body() body: { polygon: object; limit?: number },
+  ) {
+    return this.searchService.searchByDeathPolygon(
+      body.polygon,
+      body.limit || 100,
+    );
+  }
+
+  @Get('geo/migration-flows')
+  @ApiOperation({
+    summary: 'Birth-region to death-region flows for relocation arcs',
+  })
+  @ApiQuery({
+    name: 'level',
+    required: false,
+    enum: ['oblast', 'country'],
+    description: 'Region granularity (default: oblast)',
+  })
+  @ApiQuery({
+    name: 'minCount',
+    required: false,
+    type: Number,
+    description: 'Skip flows with fewer persons (default: 1)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Max flows (default: 200)',
+  })
+  async getMigrationFlows(
+    @Query('level', new DefaultValuePipe('oblast')) level: string,
+    @Query('minCount', new DefaultValuePipe(1), ParseIntPipe) minCount: number,
+    @Query('limit', new DefaultValuePipe(200), ParseIntPipe) limit: number,
+  ) {
+    return this.searchService.getMigrationFlows(
+      level === 'country' ? 'country' : 'oblast',
+      minCount,
+      limit,
+    );
+  }
+
   @Get('meta/occupation')
   @ApiOperation({
     summary: 'Find persons by occupation (GIN-indexed JSONB containment query)',
@@ -8,6 +8,7 @@ describe('StatisticsController', () => {
     getTemporalDistribution: jest.fn(),
     getGeoDistribution: jest.fn(),
     getCategoryDistribution: jest.fn(),
+    getOblastDistribution: jest.fn(),
     getOverview: jest.fn(),
   };
 
@@ -50,6 +51,14 @@ describe('StatisticsController', () => {
     });
   });
 
+  describe('getOblastDistribution', () => {
+    it('should return oblast data', async () => {
+      const data = [{ oblast: 'Львівська область', count: 12 }];
+      mockService.getOblastDistribution.mockResolvedValue(data);
+      expect(await controller.getOblastDistribution()).toEqual(data);
+    });
+  });
+
   describe('getOverview', () => {
     it('should return overview statistics', async () => {
       const data = {
@@ -33,6 +33,22 @@ export class StatisticsController {
     return this.statisticsService.getGeoDistribution(limit);
   }
 
+  @Get('oblasts')
+  @ApiOperation({
+    summary: 'Get distribution by present-day birth oblast',
+  })
+  async getOblastDistribution() {
+    return this.statisticsService.getOblastDistribution();
+  }
+
+  @Get('countries')
+  @ApiOperation({
+    summary: 'Get distribution by present-day birth country',
+  })
+  async getCountryDistribution() {
+    return this.statisticsService.getCountryDistribution();
+  }
+
   @Get('categories')
   @ApiOperation({ summary: 'Get category distribution' })
   async getCategoryDistribution() {
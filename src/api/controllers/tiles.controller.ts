@@ -0,0 +1,35 @@
+import {
+  Controller,
+  Get,
+  Header,
+  Param,
+  ParseIntPipe,
+  StreamableFile,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiProduces } from '@nestjs/swagger';
+import { TilesService } from '../services/tiles.service';
+
+@ApiTags('tiles')
+@Controller('tiles')
+export class TilesController {
+  constructor(private readonly tilesService: TilesService) {}
+
+  @Get('persons/:z/:x/:y.mvt')
+  @Header('Cache-Control', 'public, max-age=300')
+  @ApiProduces('application/vnd.mapbox-vector-tile')
+  @ApiOperation({
+    summary:
+      'Mapbox Vector Tile of person birth locations (low-rated persons thinned out at low zoom)',
+  })
+  async getPersonTile(
+    @Param('z', ParseIntPipe) z: number,
+    @Param('x', ParseIntPipe) x: number,
+    @Param('y', ParseIntPipe) y: number,
+  ) {
+    const tile = await this.tilesService.getPersonTile(z, x, y);
+    return new StreamableFile(tile, {
+      type: 'application/vnd.mapbox-vector-tile',
+      length: tile.length,
+    });
+  }
+}
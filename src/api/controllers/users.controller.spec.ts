@@ -0,0 +1,82 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { UsersController } from './users.controller';
+import { UsersService } from '../services/users.service';
+import { ReputationService } from '../services/reputation.service';
+import { AuthService } from '../services/auth.service';
+import { RolesService } from '../services/roles.service';
+import { Permission } from '../auth/permissions';
+
+describe('UsersController', () => {
+  let controller: UsersController;
+  const mockUsersService = {
+    updateRole: jest.fn(),
+  };
+  const mockAuthService = {
+    revokeAllSessions: jest.fn(),
+    unlock: jest.fn(),
+  };
+  const mockRolesService = {
+    assertCanManageUser: jest.fn(),
+    findAssignable: jest.fn(),
+  };
+  const req = { user: { userId: 2, permissions: [Permission.USERS_MANAGE] } };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [UsersController],
+      providers: [
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: ReputationService, useValue: {} },
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: RolesService, useValue: mockRolesService },
+      ],
+    }).compile();
+
+    controller = module.get<UsersController>(UsersController);
+    jest.clearAllMocks();
+  });
+
+  describe('updateRole', () => {
+    it('should assign the role once the target and role are checked', async () => {
+      mockUsersService.updateRole.mockResolvedValue({ id: 7, role: 'user' });
+
+      await controller.updateRole(7, 'user', req);
+      expect(mockRolesService.assertCanManageUser).toHaveBeenCalledWith(7, [
+        Permission.USERS_MANAGE,
+      ]);
+      expect(mockUsersService.updateRole).toHaveBeenCalledWith(7, 'user');
+    });
+
+    it('should not demote a user with more permissions than the caller', async () => {
+      mockRolesService.assertCanManageUser.mockRejectedValueOnce(
+        new ForbiddenException(),
+      );
+
+      await expect(controller.updateRole(1, 'user', req)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockUsersService.updateRole).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should not sign out a user with more permissions than the caller', async () => {
+    mockRolesService.assertCanManageUser.mockRejectedValueOnce(
+      new ForbiddenException(),
+    );
+
+    await expect(controller.revokeSessions(1, req)).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(mockAuthService.revokeAllSessions).not.toHaveBeenCalled();
+  });
+
+  it('should not unlock a user with more permissions than the caller', async () => {
+    mockRolesService.assertCanManageUser.mockRejectedValueOnce(
+      new ForbiddenException(),
+    );
+
+    await expect(controller.unlock(1, req)).rejects.toThrow(ForbiddenException);
+    expect(mockAuthService.unlock).not.toHaveBeenCalled();
+  });
+});
@@ -2,6 +2,7 @@ import {
   Controller,
   Get,
   Patch,
+  Post,
   Param,
   Body,
   UseGuards,
@@ -9,50 +10,103 @@ import {
   ParseIntPipe,
   BadRequestException,
   ForbiddenException,
+  Query,
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
-import { RolesGuard } from '../auth/roles.guard';
-import { Roles } from '../auth/roles.decorator';
-import { UserRole, UserPersona } from '../entities/user.entity';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions } from '../auth/permissions.decorator';
+import { Permission } from '../auth/permissions';
+import { UserPersona } from '../entities/user.entity';
 import { UsersService } from '../services/users.service';
+import { ReputationService } from '../services/reputation.service';
+import { AuthService } from '../services/auth.service';
+import { RolesService } from '../services/roles.service';
+import { CursorPageQueryDto } from '../dtos/pagination.dto';
 
 @ApiTags('users')
 @ApiBearerAuth()
 @Controller('users')
-@UseGuards(AuthGuard('jwt'), RolesGuard)
+@UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly reputationService: ReputationService,
+    private readonly authService: AuthService,
+    private readonly rolesService: RolesService,
+  ) {}
 
   @Get()
-  @Roles(UserRole.ADMIN)
-  @ApiOperation({ summary: 'List all users (admin only)' })
-  findAll() {
-    return this.usersService.findAll();
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @ApiOperation({ summary: 'List all users (requires users:manage)' })
+  findAll(@Query() page: CursorPageQueryDto) {
+    return this.usersService.findAll(page);
+  }
+
+  @Get('me/reputation')
+  @ApiOperation({ summary: 'My proposed edit record and trust score' })
+  getMyReputation(@Request() req: { user: { userId: number } }) {
+    return this.reputationService.getReputation(req.user.userId);
+  }
+
+  @Get(':id/reputation')
+  @RequirePermissions(Permission.EDITS_REVIEW)
+  @ApiOperation({
+    summary:
+      "A user's proposed edit record and trust score (requires edits:review)",
+  })
+  getReputation(@Param('id', ParseIntPipe) id: number) {
+    return this.reputationService.getReputation(id);
   }
 
   @Patch(':id/role')
-  @Roles(UserRole.ADMIN)
-  @ApiOperation({ summary: 'Update a user role (admin only)' })
-  updateRole(
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @ApiOperation({ summary: 'Update a user role (requires users:manage)' })
+  async updateRole(
     @Param('id', ParseIntPipe) id: number,
     @Body('role') role: string,
-    @Request() req: { user: { userId: number } },
+    @Request() req: { user: { userId: number; permissions: Permission[] } },
   ) {
     if (req.user.userId === id) {
       throw new ForbiddenException('You cannot change your own role');
     }
-    if (!Object.values(UserRole).includes(role as UserRole)) {
-      throw new BadRequestException(
-        `Invalid role. Must be one of: ${Object.values(UserRole).join(', ')}`,
-      );
-    }
-    return this.usersService.updateRole(id, role as UserRole);
+    await this.rolesService.assertCanManageUser(id, req.user.permissions);
+    await this.rolesService.findAssignable(role, req.user.permissions);
+    return this.usersService.updateRole(id, role);
+  }
+
+  @Post(':id/revoke-sessions')
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @ApiOperation({
+    summary:
+      'Sign a user out of all sessions and revoke their API keys (requires users:manage)',
+  })
+  async revokeSessions(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: { user: { userId: number; permissions: Permission[] } },
+  ) {
+    await this.rolesService.assertCanManageUser(id, req.user.permissions);
+    return this.authService.revokeAllSessions(id, req.user.userId);
+  }
+
+  @Post(':id/unlock')
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @ApiOperation({
+    summary:
+      'Lift a login lockout and reset failed attempts (requires users:manage)',
+  })
+  async unlock(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: { user: { userId: number; permissions: Permission[] } },
+  ) {
+    await this.rolesService.assertCanManageUser(id, req.user.permissions);
+    await this.authService.unlock(id, req.user.userId);
+    return { unlocked: true };
   }
 
   @Patch(':id/persona')
-  @Roles(UserRole.ADMIN)
-  @ApiOperation({ summary: 'Update a user persona (admin only)' })
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @ApiOperation({ summary: 'Update a user persona (requires users:manage)' })
   updatePersona(
     @Param('id', ParseIntPipe) id: number,
     @Body('persona') persona: string,
@@ -4,8 +4,13 @@ import {
   Post,
   Delete,
   Query,
+  ParseIntPipe,
+  BadRequestException,
+  Sse,
   UseGuards,
+  MessageEvent,
 } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import {
   ApiTags,
   ApiOperation,
@@ -14,9 +19,10 @@ import {
 } from '@nestjs/swagger';
 import { WikipediaService } from '../services/wikipedia.service';
 import { AuthGuard } from '@nestjs/passport';
-import { RolesGuard } from '../auth/roles.guard';
-import { Roles } from '../auth/roles.decorator';
-import { UserRole } from '../entities/user.entity';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions } from '../auth/permissions.decorator';
+import { Permission } from '../auth/permissions';
+import { DEFAULT_PAGE_LIMIT, LimitQueryDto } from '../dtos/pagination.dto';
 
 @ApiTags('wikipedia')
 @Controller('wikipedia')
@@ -25,7 +31,9 @@ export class WikipediaController {
 
   @Get('famous-people')
   @ApiOperation({
-    summary: 'Get famous people from the database (supports pagination)',
+    summary:
+      'Deprecated: use GET /persons (cursor pagination). Get famous people with offset/limit',
+    deprecated: true,
   })
   @ApiQuery({
     name: 'offset',
@@ -39,49 +47,91 @@ export class WikipediaController {
     type: Number,
     description: 'Max records to return (default: all)',
   })
+  @ApiQuery({
+    name: 'oblast',
+    required: false,
+    description: 'Present-day birth oblast, e.g. "Львівська область"',
+  })
+  @ApiQuery({
+    name: 'country',
+    required: false,
+    description: 'Present-day birth country, e.g. "Україна"',
+  })
   async getFamousPeople(
-    @Query('offset') offset?: string,
-    @Query('limit') limit?: string,
+    @Query('offset', new ParseIntPipe({ optional: true })) offset?: number,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+    @Query('oblast') oblast?: string,
+    @Query('country') country?: string,
   ) {
-    const off = offset ? parseInt(offset, 10) : undefined;
-    const lim = limit ? parseInt(limit, 10) : undefined;
-    return await this.wikipediaService.getAllPeople(off, lim);
+    if ((offset != null && offset < 0) || (limit != null && limit < 1)) {
+      throw new BadRequestException('offset must be >= 0 and limit >= 1');
+    }
+    return await this.wikipediaService.getAllPeople(offset, limit, {
+      oblast,
+      country,
+    });
   }
 
   @Post('sync')
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+  @RequirePermissions(Permission.SYNC_RUN)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Trigger full Wikipedia sync (admin only)' })
+  @ApiOperation({ summary: 'Trigger full Wikipedia sync (requires sync:run)' })
   @ApiQuery({ name: 'forceRefresh', required: false, type: Boolean })
   async syncDatabase(@Query('forceRefresh') forceRefresh?: string) {
     return await this.wikipediaService.startSync(forceRefresh === 'true');
   }
 
   @Post('sync/stop')
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+  @RequirePermissions(Permission.SYNC_RUN)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Stop an ongoing Wikipedia sync (admin only)' })
+  @ApiOperation({
+    summary: 'Stop an ongoing Wikipedia sync (requires sync:run)',
+  })
   async stopSync() {
     return this.wikipediaService.stopSync();
   }
 
   @Get('sync/status')
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+  @RequirePermissions(Permission.SYNC_RUN)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Check whether a sync is currently running' })
+  @ApiOperation({
+    summary: 'Get progress of the current or most recent sync job',
+  })
   async getSyncStatus() {
     return this.wikipediaService.getSyncStatus();
   }
 
+  @Sse('sync/events')
+  @UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+  @RequirePermissions(Permission.SYNC_RUN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Stream live sync progress as Server-Sent Events (requires sync:run); EventSource clients pass ?access_token=<ticket from POST /auth/stream-ticket>',
+  })
+  streamSyncEvents(): Observable<MessageEvent> {
+    return this.wikipediaService.streamSyncEvents();
+  }
+
+  @Get('sync/jobs')
+  @UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+  @RequirePermissions(Permission.SYNC_RUN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List recent sync jobs (requires sync:run)' })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async getSyncJobs(@Query() { limit }: LimitQueryDto) {
+    return this.wikipediaService.getSyncJobs(limit ?? DEFAULT_PAGE_LIMIT);
+  }
+
   @Post('sync-category')
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+  @RequirePermissions(Permission.SYNC_RUN)
   @ApiBearerAuth()
   @ApiOperation({
-    summary: 'Sync a single category with optional limit (admin only)',
+    summary: 'Sync a single category with optional limit (requires sync:run)',
   })
   @ApiQuery({ name: 'category', required: true })
   @ApiQuery({ name: 'limit', required: false, type: Number })
@@ -95,6 +145,18 @@ export class WikipediaController {
     );
   }
 
+  @Post('normalize-places')
+  @UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+  @RequirePermissions(Permission.SYNC_RUN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Recompute modern oblast/country of birth and death places (requires sync:run)',
+  })
+  async normalizePlaces() {
+    return this.wikipediaService.normalizePlaces();
+  }
+
   @Get('categories')
   @ApiOperation({
     summary: 'Discover all people-related Wikipedia categories dynamically',
@@ -104,11 +166,12 @@ export class WikipediaController {
   }
 
   @Delete('clear-imported')
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), PermissionsGuard)
+  @RequirePermissions(Permission.SYNC_RUN, Permission.PERSONS_DELETE)
   @ApiBearerAuth()
   @ApiOperation({
-    summary: 'Delete all auto-imported persons (keeps manual entries)',
+    summary:
+      'Move all auto-imported persons to the trash (keeps manual entries)',
   })
   async clearImported() {
     return await this.wikipediaService.clearImportedPersons();
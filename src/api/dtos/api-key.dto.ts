@@ -0,0 +1,26 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+export class CreateApiKeyDto {
+  /** What the key is for, e.g. "nightly export". */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsOptional()
+  @IsEnum(ApiKeyScope)
+  scope?: ApiKeyScope;
+
+  /** ISO 8601; the key never expires when omitted. */
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
@@ -0,0 +1,40 @@
+import { PartialType } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { FieldSensitivity } from '../entities/auto-approval-rule.entity';
+
+export class CreateAutoApprovalRuleDto {
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @IsInt()
+  @Min(0)
+  minApprovedEdits: number;
+
+  /** E.g. 0.05 for "at most 5% of reviewed edits rejected". */
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  maxRejectionRate: number;
+
+  @IsEnum(FieldSensitivity)
+  maxSensitivity: FieldSensitivity;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+export class UpdateAutoApprovalRuleDto extends PartialType(
+  CreateAutoApprovalRuleDto,
+) {}
@@ -0,0 +1,19 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateCommentDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  body: string;
+
+  /** Comment this one replies to; it must be in the same thread. */
+  @IsOptional()
+  @IsInt()
+  parentId?: number;
+}
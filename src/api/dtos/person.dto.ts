@@ -1,12 +1,17 @@
 import {
+  ArrayNotEmpty,
+  IsArray,
   IsString,
   IsNumber,
   IsOptional,
   IsBoolean,
+  IsIn,
   IsObject,
   MaxLength,
 } from 'class-validator';
 import { PersonMetaData } from '../entities/person.entity';
+import { CursorPageQueryDto } from './pagination.dto';
+import { PROVENANCE_FIELDS } from '../provenance/field-provenance';
 
 export class CreatePersonDto {
   @IsString()
@@ -33,6 +38,14 @@ export class CreatePersonDto {
   @IsString()
   birthPlace?: string;
 
+  @IsOptional()
+  @IsString()
+  birthOblast?: string;
+
+  @IsOptional()
+  @IsString()
+  birthCountryModern?: string;
+
   @IsOptional()
   @IsNumber()
   lat?: number;
@@ -41,6 +54,22 @@ export class CreatePersonDto {
   @IsNumber()
   lng?: number;
 
+  @IsOptional()
+  @IsNumber()
+  deathLat?: number;
+
+  @IsOptional()
+  @IsNumber()
+  deathLng?: number;
+
+  @IsOptional()
+  @IsString()
+  deathOblast?: string;
+
+  @IsOptional()
+  @IsString()
+  deathCountryModern?: string;
+
   @IsOptional()
   @IsObject()
   meta_data?: PersonMetaData;
@@ -92,6 +121,14 @@ export class UpdatePersonDto {
   @IsString()
   birthPlace?: string;
 
+  @IsOptional()
+  @IsString()
+  birthOblast?: string;
+
+  @IsOptional()
+  @IsString()
+  birthCountryModern?: string;
+
   @IsOptional()
   @IsNumber()
   lat?: number;
@@ -100,6 +137,22 @@ export class UpdatePersonDto {
   @IsNumber()
   lng?: number;
 
+  @IsOptional()
+  @IsNumber()
+  deathLat?: number;
+
+  @IsOptional()
+  @IsNumber()
+  deathLng?: number;
+
+  @IsOptional()
+  @IsString()
+  deathOblast?: string;
+
+  @IsOptional()
+  @IsString()
+  deathCountryModern?: string;
+
   @IsOptional()
   @IsObject()
   meta_data?: PersonMetaData;
@@ -124,3 +177,28 @@ export class UpdatePersonDto {
   @IsBoolean()
   isManual?: boolean;
 }
+
+/** Query of GET /persons: cursor page ordered by rating, highest first. */
+export class ListPersonsQueryDto extends CursorPageQueryDto {
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @IsOptional()
+  @IsString()
+  oblast?: string;
+
+  @IsOptional()
+  @IsString()
+  country?: string;
+}
+
+export class LockFieldsDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(PROVENANCE_FIELDS, { each: true })
+  fields: string[];
+
+  @IsBoolean()
+  locked: boolean;
+}
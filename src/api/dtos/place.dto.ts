@@ -0,0 +1,18 @@
+import {
+  IsBoolean,
+  IsLatitude,
+  IsLongitude,
+  IsOptional,
+} from 'class-validator';
+
+export class UpdatePlaceCoordinatesDto {
+  @IsLatitude()
+  lat: number;
+
+  @IsLongitude()
+  lng: number;
+
+  @IsOptional()
+  @IsBoolean()
+  applyToPersons?: boolean;
+}
@@ -1,22 +1,80 @@
-import { IsOptional, IsString, IsObject, IsUUID } from 'class-validator';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsObject,
+  IsUUID,
+  ValidateIf,
+} from 'class-validator';
+import { ProposalType } from '../entities/proposed-edit.entity';
+import { PersonChanges } from '../validation/person-changes';
+
+const hasChanges = (dto: CreateProposedEditDto) =>
+  !dto.type ||
+  dto.type === ProposalType.UPDATE ||
+  dto.type === ProposalType.CREATE;
 
 export class CreateProposedEditDto {
+  /** Defaults to an update of an existing person. */
+  @IsOptional()
+  @IsEnum(ProposalType)
+  type?: ProposalType;
+
+  /** Person to update or delete, or the duplicate of a merge. */
+  @ValidateIf((dto) => dto.type !== ProposalType.CREATE)
+  @IsUUID()
+  personId?: string;
+
+  /** Person the duplicate is merged into. */
+  @ValidateIf((dto) => dto.type === ProposalType.MERGE)
   @IsUUID()
-  personId: string;
+  targetPersonId?: string;
 
+  /**
+   * Field name → { old, new }. Fields and values are checked against
+   * EDITABLE_PERSON_FIELDS, and `old` must match the current record.
+   * A new person needs at least a name; its `old` values are ignored.
+   */
+  @ValidateIf(hasChanges)
   @IsObject()
-  changes: Record<string, { old: any; new: any }>;
+  changes?: PersonChanges;
 
   @IsOptional()
   @IsString()
   comment?: string;
 }
 
-export class ReviewProposedEditDto {
+/** Revised changes and/or comment of a proposal sent back for changes. */
+export class ResubmitProposedEditDto {
+  /** Replaces the changes of an update or create proposal. */
+  @IsOptional()
+  @IsObject()
+  changes?: PersonChanges;
+
+  @IsOptional()
   @IsString()
-  action: 'approve' | 'reject';
+  comment?: string;
+}
+
+export class ReviewProposedEditDto {
+  /** request_changes sends the proposal back to its author. */
+  @IsIn(['approve', 'reject', 'request_changes'])
+  action: 'approve' | 'reject' | 'request_changes';
 
   @IsOptional()
   @IsString()
   reviewComment?: string;
+
+  /**
+   * Approve only these fields of the proposal; the rest is discarded.
+   * Omit to approve every field.
+   */
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  fields?: string[];
 }
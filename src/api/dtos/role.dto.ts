@@ -0,0 +1,31 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ALL_PERMISSIONS, Permission } from '../auth/permissions';
+
+export class CreateRoleDto {
+  /** Lowercase letters, digits, "-" and "_"; cannot be changed later. */
+  @IsString()
+  @MaxLength(50)
+  @Matches(/^[a-z][a-z0-9_-]*$/)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @IsArray()
+  @IsIn(ALL_PERMISSIONS, { each: true })
+  permissions: Permission[];
+}
+
+export class UpdateRoleDto extends PartialType(
+  OmitType(CreateRoleDto, ['name'] as const),
+) {}
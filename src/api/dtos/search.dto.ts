@@ -0,0 +1,187 @@
+import { IntersectionType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsLatitude,
+  IsLongitude,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/** Attribute filters shared by the map and geo-search endpoints. */
+export class PersonFilterDto {
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  yearFrom?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  yearTo?: number;
+
+  @IsOptional()
+  @IsString()
+  occupation?: string;
+
+  @IsOptional()
+  @IsString()
+  oblast?: string;
+
+  @IsOptional()
+  @IsString()
+  country?: string;
+}
+
+export class BboxDto {
+  @Type(() => Number)
+  @IsLatitude()
+  minLat: number;
+
+  @Type(() => Number)
+  @IsLongitude()
+  minLng: number;
+
+  @Type(() => Number)
+  @IsLatitude()
+  maxLat: number;
+
+  @Type(() => Number)
+  @IsLongitude()
+  maxLng: number;
+}
+
+export class PageDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+}
+
+export class ClusterQueryDto extends IntersectionType(
+  BboxDto,
+  PersonFilterDto,
+) {
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(22)
+  zoom: number;
+}
+
+export class BboxQueryDto extends IntersectionType(
+  BboxDto,
+  PersonFilterDto,
+  PageDto,
+) {}
+
+export class NearestQueryDto extends IntersectionType(
+  PersonFilterDto,
+  PageDto,
+) {
+  @Type(() => Number)
+  @IsLatitude()
+  lat: number;
+
+  @Type(() => Number)
+  @IsLongitude()
+  lng: number;
+}
+
+export const PERSON_QUERY_SORTS = [
+  'relevance',
+  'rating',
+  'name',
+  'birthYear',
+] as const;
+export type PersonQuerySort = (typeof PERSON_QUERY_SORTS)[number];
+
+/** Body of POST /persons/query; every filter is optional and combinable. */
+export class PersonQueryDto {
+  /** Matched against names (trigram) and name + summary (full text). */
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  q?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  categories?: string[];
+
+  /** Persons with any of these occupations. */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  occupations?: string[];
+
+  @IsOptional()
+  @IsInt()
+  birthYearFrom?: number;
+
+  @IsOptional()
+  @IsInt()
+  birthYearTo?: number;
+
+  @IsOptional()
+  @IsInt()
+  deathYearFrom?: number;
+
+  @IsOptional()
+  @IsInt()
+  deathYearTo?: number;
+
+  /** GeoJSON geometry the birth (or death) location must intersect. */
+  @IsOptional()
+  @IsObject()
+  geometry?: Record<string, unknown>;
+
+  @IsOptional()
+  @IsIn(['birth', 'death'])
+  geometryTarget?: 'birth' | 'death';
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(10)
+  minRating?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isManual?: boolean;
+
+  /** Defaults to relevance when `q` is given, otherwise rating. */
+  @IsOptional()
+  @IsIn(PERSON_QUERY_SORTS)
+  sort?: PersonQuerySort;
+
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
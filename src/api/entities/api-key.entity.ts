@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+export enum ApiKeyScope {
+  /** Everything the owner can do. */
+  FULL = 'full',
+  /** GET and HEAD requests only. */
+  READ_ONLY = 'read_only',
+}
+
+/**
+ * A personal API key for scripted access. The key itself is shown once
+ * at creation; only its SHA-256 is stored, plus a short prefix so the
+ * owner can tell keys apart.
+ */
+@Entity()
+export class ApiKey {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column()
+  name: string;
+
+  /** The first characters of the key, e.g. "ukm_3fA9xQ". */
+  @Column()
+  prefix: string;
+
+  @Index({ unique: true })
+  @Column({ select: false })
+  keyHash: string;
+
+  @Column({ type: 'enum', enum: ApiKeyScope, default: ApiKeyScope.FULL })
+  scope: ApiKeyScope;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastUsedAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,67 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+export enum AuthEventType {
+  REGISTERED = 'registered',
+  LOGIN_SUCCEEDED = 'login_succeeded',
+  LOGIN_FAILED = 'login_failed',
+  /** A login was refused without checking the password. */
+  LOGIN_BLOCKED = 'login_blocked',
+  ACCOUNT_LOCKED = 'account_locked',
+  ACCOUNT_UNLOCKED = 'account_unlocked',
+  TOKEN_REFRESHED = 'token_refreshed',
+  /** A used refresh token was presented again; its session was revoked. */
+  REFRESH_TOKEN_REUSED = 'refresh_token_reused',
+  LOGGED_OUT = 'logged_out',
+  SESSIONS_REVOKED = 'sessions_revoked',
+  EMAIL_VERIFIED = 'email_verified',
+  PASSWORD_RESET_REQUESTED = 'password_reset_requested',
+  PASSWORD_RESET = 'password_reset',
+}
+
+/**
+ * Auth audit log. Failed logins are also what per-IP throttling counts,
+ * hence the (ip, createdAt) index.
+ */
+@Entity()
+@Index(['userId', 'id'])
+@Index(['ip', 'createdAt'])
+export class AuthEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'enum', enum: AuthEventType })
+  type: AuthEventType;
+
+  /** Null when the event is not tied to a known account. */
+  @Column({ nullable: true })
+  userId: number | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  /** The address given at login or password reset, known or not. */
+  @Column({ nullable: true })
+  email: string | null;
+
+  @Column({ nullable: true })
+  ip: string | null;
+
+  @Column({ nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  data: Record<string, unknown> | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,52 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/** How much damage a wrong value in a field can do, in ascending order. */
+export enum FieldSensitivity {
+  MINOR = 'minor',
+  MODERATE = 'moderate',
+  MAJOR = 'major',
+}
+
+/**
+ * Update proposals from contributors with a good enough record are
+ * applied without review when every changed field is at most
+ * `maxSensitivity`.
+ */
+@Entity()
+export class AutoApprovalRule {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  /** Reviewed edits that were (at least partially) approved. */
+  @Column({ default: 0 })
+  minApprovedEdits: number;
+
+  /** Share of reviewed edits that were rejected, from 0 to 1. */
+  @Column({ type: 'float', default: 0 })
+  maxRejectionRate: number;
+
+  @Column({
+    type: 'enum',
+    enum: FieldSensitivity,
+    default: FieldSensitivity.MINOR,
+  })
+  maxSensitivity: FieldSensitivity;
+
+  @Column({ default: true })
+  enabled: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { ProposedEdit } from './proposed-edit.entity';
+import { Person } from './person.entity';
+
+/**
+ * A discussion comment on either a proposed edit or a person. Replies
+ * point to their parent; deleting a comment deletes its replies.
+ */
+@Entity()
+@Index(['proposedEditId', 'id'])
+@Index(['personId', 'id'])
+export class Comment {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'uuid', nullable: true })
+  proposedEditId: string | null;
+
+  @ManyToOne(() => ProposedEdit, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'proposedEditId' })
+  proposedEdit: ProposedEdit;
+
+  @Column({ type: 'uuid', nullable: true })
+  personId: string | null;
+
+  @ManyToOne(() => Person, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'personId' })
+  person: Person;
+
+  @Column({ nullable: true })
+  parentId: number | null;
+
+  @ManyToOne(() => Comment, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parentId' })
+  parent: Comment;
+
+  @Column({ type: 'text' })
+  body: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+export enum NotificationType {
+  EDIT_APPROVED = 'edit_approved',
+  EDIT_PARTIALLY_APPROVED = 'edit_partially_approved',
+  EDIT_REJECTED = 'edit_rejected',
+  EDIT_CHANGES_REQUESTED = 'edit_changes_requested',
+  /** A proposed edit is waiting for review; sent to reviewers. */
+  EDIT_PENDING = 'edit_pending',
+  SYNC_FAILED = 'sync_failed',
+  COMMENT_ADDED = 'comment_added',
+}
+
+/** An in-app notification; one row per recipient. */
+@Entity()
+@Index(['userId', 'id'])
+export class Notification {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'enum', enum: NotificationType })
+  type: NotificationType;
+
+  @Column()
+  title: string;
+
+  @Column({ type: 'text', nullable: true })
+  body: string | null;
+
+  /** Ids the client can link to, e.g. { proposedEditId, personId }. */
+  @Column({ type: 'jsonb', default: {} })
+  data: Record<string, unknown>;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  readAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,63 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Person } from './person.entity';
+import { User } from './user.entity';
+
+export enum RevisionSource {
+  MANUAL = 'manual',
+  PROPOSED_EDIT = 'proposed_edit',
+  WIKIPEDIA_SYNC = 'wikipedia_sync',
+  ROLLBACK = 'rollback',
+}
+
+export type FieldChanges = Record<string, { old: any; new: any }>;
+
+@Entity()
+@Index(['personId', 'id'])
+export class PersonRevision {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'uuid' })
+  personId: string;
+
+  @ManyToOne(() => Person, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'personId' })
+  person: Person;
+
+  @Column({ type: 'enum', enum: RevisionSource })
+  source: RevisionSource;
+
+  /** User who made the change; null for Wikipedia sync. */
+  @Column({ nullable: true })
+  actorId: number;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actorId' })
+  actor: User;
+
+  @Column({ type: 'uuid', nullable: true })
+  proposedEditId: string;
+
+  /** Revision whose snapshot a rollback restored. */
+  @Column({ nullable: true })
+  restoredFromId: number;
+
+  /** Tracked fields of the person after this write. */
+  @Column({ type: 'jsonb' })
+  snapshot: Record<string, any>;
+
+  /** Fields that differ from the previous state. */
+  @Column({ type: 'jsonb' })
+  changes: FieldChanges;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -4,10 +4,12 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
+  DeleteDateColumn,
   Index,
   BeforeInsert,
   BeforeUpdate,
 } from 'typeorm';
+import { RevisionSource } from './person-revision.entity';
 
 export interface PersonMetaData {
   occupation?: string[];
@@ -18,6 +20,15 @@ export interface PersonMetaData {
   alternativeNames?: string[];
 }
 
+/** Who last set a person field, and whether sync may overwrite it. */
+export interface FieldProvenance {
+  /** Null for values written before provenance was tracked. */
+  source: RevisionSource | null;
+  setAt: string | null;
+  actorId: number | null;
+  locked: boolean;
+}
+
 @Entity()
 export class Person {
   @PrimaryGeneratedColumn('uuid')
@@ -48,6 +59,16 @@ export class Person {
   @Column({ nullable: true })
   birthPlace: string;
 
+  /** Present-day oblast of the birth place, resolved from historical names. */
+  @Index()
+  @Column({ nullable: true })
+  birthOblast: string;
+
+  /** Present-day country of the birth place, e.g. "Україна" or "Польща". */
+  @Index()
+  @Column({ nullable: true })
+  birthCountryModern: string;
+
   @Index()
   @Column({ type: 'float', nullable: true })
   lat: number;
@@ -86,15 +107,63 @@ export class Person {
   })
   birthLocation: string;
 
+  @Column({ type: 'float', nullable: true })
+  deathLat: number;
+
+  @Column({ type: 'float', nullable: true })
+  deathLng: number;
+
+  /** Present-day oblast of meta_data.deathPlace. */
+  @Index()
+  @Column({ nullable: true })
+  deathOblast: string;
+
+  /** Present-day country of meta_data.deathPlace. */
+  @Index()
+  @Column({ nullable: true })
+  deathCountryModern: string;
+
+  // Geocoded meta_data.deathPlace; kept in sync with deathLat/deathLng.
+  @Index('idx_person_death_location_gist', { spatial: true })
+  @Column({
+    type: 'geometry',
+    spatialFeatureType: 'Point',
+    srid: 4326,
+    nullable: true,
+    select: false,
+  })
+  deathLocation: string;
+
+  /** Person was created by hand rather than imported. */
   @Column({ default: false })
   isManual: boolean;
 
+  /** Per-field provenance, keyed by field name. */
+  @Column({ type: 'jsonb', default: {} })
+  provenance: Record<string, FieldProvenance>;
+
   @CreateDateColumn()
   createdAt: Date;
 
   @UpdateDateColumn()
   updatedAt: Date;
 
+  /** Set while the person is in the trash; see PersonsService.remove. */
+  @Index()
+  @DeleteDateColumn()
+  deletedAt: Date | null;
+
+  /** The person this duplicate was merged into, if any. */
+  @Column({ type: 'uuid', nullable: true })
+  mergedIntoId: string | null;
+
+  /**
+   * Removed through moderation (a merge or a deletion proposal); the
+   * Wikipedia sync must not restore or re-import it.
+   */
+  @Column({ default: false })
+  excludedFromSync: boolean;
+
   @BeforeInsert()
   @BeforeUpdate()
   generateSlug() {
@@ -0,0 +1,56 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export const PLACE_SOURCE_MANUAL = 'manual';
+export const PLACE_SOURCE_PERSON = 'person';
+
+/**
+ * Persistent geocode cache: one row per normalized place name.
+ * A row with null lat/lng records a failed lookup so it is not retried
+ * on every sync.
+ */
+@Entity()
+export class Place {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index({ unique: true })
+  @Column()
+  normalizedName: string;
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'float', nullable: true })
+  lat: number;
+
+  @Column({ type: 'float', nullable: true })
+  lng: number;
+
+  // Geocoder backend name ("gazetteer", "nominatim"), "manual" for admin
+  // overrides or "person" for rows seeded from existing person coordinates.
+  @Column({ nullable: true })
+  source: string;
+
+  @Column({ type: 'float', default: 0 })
+  confidence: number;
+
+  // Set when an admin fixed the coordinates; geocoders never touch it again.
+  @Column({ default: false })
+  isOverride: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastResolvedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
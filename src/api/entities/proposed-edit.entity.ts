@@ -13,7 +13,21 @@ import { User } from './user.entity';
 export enum ProposedEditStatus {
   PENDING = 'pending',
   APPROVED = 'approved',
+  PARTIALLY_APPROVED = 'partially_approved',
   REJECTED = 'rejected',
+  /** Sent back to the author, who can revise and resubmit it. */
+  CHANGES_REQUESTED = 'changes_requested',
+}
+
+export enum ProposalType {
+  /** Change fields of `personId`. */
+  UPDATE = 'update',
+  /** Add a person described by `changes`; `personId` is set on approval. */
+  CREATE = 'create',
+  /** Merge the duplicate `personId` into `targetPersonId`. */
+  MERGE = 'merge',
+  /** Remove `personId`, e.g. a page that is not about a person. */
+  DELETE = 'delete',
 }
 
 @Entity()
@@ -21,13 +35,25 @@ export class ProposedEdit {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({ type: 'uuid' })
-  personId: string;
+  @Column({ type: 'enum', enum: ProposalType, default: ProposalType.UPDATE })
+  type: ProposalType;
+
+  /** Null once the person is purged from the trash; the edit is kept. */
+  @Column({ type: 'uuid', nullable: true })
+  personId: string | null;
 
-  @ManyToOne(() => Person, { onDelete: 'CASCADE' })
+  @ManyToOne(() => Person, { onDelete: 'SET NULL' })
   @JoinColumn({ name: 'personId' })
   person: Person;
 
+  /** Person that survives a merge. */
+  @Column({ type: 'uuid', nullable: true })
+  targetPersonId: string | null;
+
+  @ManyToOne(() => Person, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'targetPersonId' })
+  targetPerson: Person;
+
   @Column()
   userId: number;
 
@@ -35,12 +61,17 @@ export class ProposedEdit {
   @JoinColumn({ name: 'userId' })
   user: User;
 
-  @Column({ type: 'jsonb' })
+  /** Empty for merge and delete proposals. */
+  @Column({ type: 'jsonb', default: {} })
   changes: Record<string, { old: any; new: any }>;
 
   @Column({ nullable: true })
   comment: string;
 
+  /** Incremented each time the author resubmits a revised proposal. */
+  @Column({ default: 1 })
+  revision: number;
+
   @Column({
     type: 'enum',
     enum: ProposedEditStatus,
@@ -48,9 +79,21 @@ export class ProposedEdit {
   })
   status: ProposedEditStatus;
 
+  /** Fields the reviewer accepted; set once the edit is approved. */
+  @Column({ type: 'text', array: true, nullable: true })
+  approvedFields: string[] | null;
+
   @Column({ nullable: true })
   reviewedBy: number;
 
+  /** Applied without review because the author matched a rule. */
+  @Column({ default: false })
+  autoApproved: boolean;
+
+  /** The matching AutoApprovalRule; kept if the rule is deleted later. */
+  @Column({ nullable: true })
+  autoApprovalRuleId: number | null;
+
   @Column({ nullable: true })
   reviewComment: string;
 
@@ -0,0 +1,95 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum SyncJobStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  ABORTED = 'aborted',
+}
+
+export enum SyncJobTrigger {
+  MANUAL = 'manual',
+  CRON = 'cron',
+}
+
+export interface SyncCategoryStats {
+  processed: number;
+  saved: number;
+  errors: number;
+  failed?: boolean;
+}
+
+@Entity()
+// At most one job runs at a time; a second RUNNING row is refused.
+@Index('IDX_sync_job_single_running', ['status'], {
+  unique: true,
+  where: `"status" = 'running'`,
+})
+export class SyncJob {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column({
+    type: 'enum',
+    enum: SyncJobStatus,
+    default: SyncJobStatus.RUNNING,
+  })
+  status: SyncJobStatus;
+
+  @Column({
+    type: 'enum',
+    enum: SyncJobTrigger,
+    default: SyncJobTrigger.MANUAL,
+  })
+  trigger: SyncJobTrigger;
+
+  @Column({ default: false })
+  forceRefresh: boolean;
+
+  // Category list snapshot taken when the job starts, so a resumed job
+  // walks the same list in the same order.
+  @Column({ type: 'jsonb', default: [] })
+  categories: string[];
+
+  // Number of categories fully processed — the resume cursor.
+  @Column({ default: 0 })
+  completedCategories: number;
+
+  @Column({ nullable: true })
+  currentCategory: string;
+
+  @Column({ type: 'jsonb', default: {} })
+  categoryStats: Record<string, SyncCategoryStats>;
+
+  @Column({ default: 0 })
+  totalSaved: number;
+
+  @Column({ default: 0 })
+  totalErrors: number;
+
+  @Column({ default: false })
+  abortRequested: boolean;
+
+  @Column({ default: 0 })
+  resumeCount: number;
+
+  @Column({ type: 'text', nullable: true })
+  error: string;
+
+  @CreateDateColumn()
+  startedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
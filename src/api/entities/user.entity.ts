@@ -6,8 +6,11 @@ import {
   UpdateDateColumn,
 } from 'typeorm';
 
+/** Names of the built-in roles; admins can add more (see Role). */
 export enum UserRole {
   ADMIN = 'admin',
+  /** Reviews proposed edits; cannot manage users or run syncs. */
+  MODERATOR = 'moderator',
   USER = 'user',
 }
 
@@ -38,12 +41,9 @@ export class User {
   @Column({ nullable: true })
   lastName: string;
 
-  @Column({
-    type: 'enum',
-    enum: UserRole,
-    default: UserRole.USER,
-  })
-  role: UserRole;
+  /** Name of the user's Role. */
+  @Column({ default: UserRole.USER })
+  role: string;
 
   @Column({
     type: 'enum',
@@ -52,6 +52,28 @@ export class User {
   })
   persona: UserPersona;
 
+  /** Consecutive failed logins; reset by a successful one. */
+  @Column({ default: 0 })
+  failedLoginAttempts: number;
+
+  /** Logins are refused until then. */
+  @Column({ type: 'timestamptz', nullable: true })
+  lockedUntil: Date | null;
+
+  /**
+   * When the user confirmed their email address; null until then.
+   * Accounts older than verification were backfilled with createdAt.
+   */
+  @Column({ type: 'timestamptz', nullable: true })
+  verifiedAt: Date | null;
+
+  /**
+   * Part of every access token. Bumping it (role change, "revoke all
+   * sessions") invalidates the tokens issued before.
+   */
+  @Column({ default: 0 })
+  tokenVersion: number;
+
   @CreateDateColumn()
   createdAt: Date;
 
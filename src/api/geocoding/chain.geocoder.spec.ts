@@ -0,0 +1,52 @@
+import { ChainGeocoder } from './chain.geocoder';
+import { GeocodeResult, GeocoderService } from './geocoder.service';
+
+const stub = (
+  name: string,
+  impl: (place: string) => Promise<GeocodeResult | null>,
+): GeocoderService => ({ name, geocode: jest.fn(impl) });
+
+describe('ChainGeocoder', () => {
+  const hit: GeocodeResult = {
+    lat: 50,
+    lng: 30,
+    source: 'second',
+    confidence: 1,
+  };
+
+  it('should return the first backend that resolves the place', async () => {
+    const first = stub('first', async () => null);
+    const second = stub('second', async () => hit);
+    const third = stub('third', async () => hit);
+    const chain = new ChainGeocoder([first, second, third]);
+
+    expect(await chain.geocode('Київ')).toEqual(hit);
+    expect(first.geocode).toHaveBeenCalledWith('Київ');
+    expect(third.geocode).not.toHaveBeenCalled();
+  });
+
+  it('should skip backends that throw', async () => {
+    const broken = stub('broken', async () => {
+      throw new Error('offline');
+    });
+    const chain = new ChainGeocoder([broken, stub('second', async () => hit)]);
+    expect(await chain.geocode('Київ')).toEqual(hit);
+  });
+
+  it('should throw rather than report a miss when a backend failed', async () => {
+    const rateLimited = stub('remote', async () => {
+      throw new Error('Nominatim error: 429');
+    });
+    const chain = new ChainGeocoder([
+      stub('local', async () => null),
+      rateLimited,
+    ]);
+    await expect(chain.geocode('Моринці')).rejects.toThrow('remote');
+  });
+
+  it('should return null when no backend knows the place', async () => {
+    const chain = new ChainGeocoder([stub('only', async () => null)]);
+    expect(await chain.geocode('Атлантида')).toBeNull();
+    expect(chain.name).toBe('chain(only)');
+  });
+});
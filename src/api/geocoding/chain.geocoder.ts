@@ -0,0 +1,37 @@
+import { Logger } from '@nestjs/common';
+import { GeocodeResult, GeocoderService } from './geocoder.service';
+
+/**
+ * Tries each backend in order and returns the first hit. Put cheap,
+ * local backends first so remote ones only see places they cannot answer.
+ * A miss is only reported when every backend answered; if one of them
+ * failed, the chain throws so the miss is not taken as final.
+ */
+export class ChainGeocoder extends GeocoderService {
+  readonly name: string;
+  private readonly logger = new Logger(ChainGeocoder.name);
+
+  constructor(private readonly geocoders: GeocoderService[]) {
+    super();
+    this.name = `chain(${geocoders.map((g) => g.name).join(',')})`;
+  }
+
+  async geocode(place: string): Promise<GeocodeResult | null> {
+    const failed: string[] = [];
+    for (const geocoder of this.geocoders) {
+      try {
+        const result = await geocoder.geocode(place);
+        if (result) return result;
+      } catch (error: any) {
+        this.logger.warn(
+          `Geocoder "${geocoder.name}" failed for "${place}": ${error.message}`,
+        );
+        failed.push(geocoder.name);
+      }
+    }
+    if (failed.length > 0) {
+      throw new Error(`No answer from ${failed.join(', ')} for "${place}"`);
+    }
+    return null;
+  }
+}
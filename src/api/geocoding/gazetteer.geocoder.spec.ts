@@ -0,0 +1,139 @@
+import * as path from 'path';
+import { ConfigService } from '@nestjs/config';
+import { GazetteerGeocoder, GazetteerEntry } from './gazetteer.geocoder';
+
+const fixtures: GazetteerEntry[] = [
+  { name: 'Київ', oblast: 'м. Київ', lat: 50.45, lng: 30.52, population: 3e6 },
+  {
+    name: "Кам'янець-Подільський",
+    oblast: 'Хмельницька область',
+    lat: 48.68,
+    lng: 26.58,
+    population: 99000,
+    altNames: ['Камʼянець-Подільський'],
+  },
+  {
+    name: 'Олександрівка',
+    oblast: 'Кіровоградська область',
+    lat: 48.97,
+    lng: 32.23,
+    population: 9000,
+  },
+  {
+    name: 'Олександрівка',
+    oblast: 'Донецька область',
+    lat: 48.67,
+    lng: 37.65,
+    population: 3000,
+  },
+];
+
+describe('GazetteerGeocoder', () => {
+  let geocoder: GazetteerGeocoder;
+
+  beforeEach(() => {
+    geocoder = new GazetteerGeocoder();
+    geocoder.load(fixtures);
+  });
+
+  describe('geocode', () => {
+    it('should resolve a unique settlement with full confidence', async () => {
+      const result = await geocoder.geocode('Київ');
+      expect(result).toEqual({
+        lat: 50.45,
+        lng: 30.52,
+        source: 'gazetteer',
+        confidence: 1,
+      });
+    });
+
+    it('should ignore settlement-type prefixes and parentheticals', async () => {
+      const result = await geocoder.geocode('м. Київ (столиця)');
+      expect(result?.lat).toBe(50.45);
+    });
+
+    it('should match alternative names and apostrophe variants', async () => {
+      expect((await geocoder.geocode('Камʼянець-Подільський'))?.lat).toBe(
+        48.68,
+      );
+      expect((await geocoder.geocode('Кам’янець-Подільський'))?.lat).toBe(
+        48.68,
+      );
+    });
+
+    it('should use the oblast hint to pick between namesakes', async () => {
+      const result = await geocoder.geocode('Олександрівка, Донецька область');
+      expect(result?.lng).toBe(37.65);
+      expect(result?.confidence).toBe(0.8);
+    });
+
+    it('should fall back to the most populous namesake', async () => {
+      const result = await geocoder.geocode('Олександрівка');
+      expect(result?.lng).toBe(32.23);
+      expect(result?.confidence).toBe(0.5);
+    });
+
+    it('should return null for unknown places', async () => {
+      expect(await geocoder.geocode('Атлантида')).toBeNull();
+    });
+  });
+
+  describe('parsing', () => {
+    it('should parse CSV with quoted cells and alt names', () => {
+      const entries = geocoder.parseCsv(
+        'name,oblast,lat,lng,population,alt_names\n' +
+          '"Біла Церква","Київська область",49.79,30.13,207273,Біла-Церква|Біла Церков\n' +
+          'broken,,x,y,,\n',
+      );
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toEqual({
+        name: 'Біла Церква',
+        oblast: 'Київська область',
+        lat: 49.79,
+        lng: 30.13,
+        population: 207273,
+        altNames: ['Біла-Церква', 'Біла Церков'],
+      });
+    });
+
+    it('should reject CSV without coordinate columns', () => {
+      expect(() => geocoder.parseCsv('name,oblast\nКиїв,м. Київ')).toThrow();
+    });
+
+    it('should parse a GeoJSON FeatureCollection of points', () => {
+      const entries = geocoder.parseGeoJson(
+        JSON.stringify({
+          type: 'FeatureCollection',
+          features: [
+            {
+              type: 'Feature',
+              geometry: { type: 'Point', coordinates: [24.03, 49.84] },
+              properties: { name: 'Львів', oblast: 'Львівська область' },
+            },
+            {
+              type: 'Feature',
+              geometry: { type: 'LineString', coordinates: [] },
+              properties: { name: 'Дніпро (річка)' },
+            },
+          ],
+        }),
+      );
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toEqual(
+        expect.objectContaining({ name: 'Львів', lat: 49.84, lng: 24.03 }),
+      );
+    });
+  });
+
+  it('should load the bundled settlements file', async () => {
+    const file = path.resolve(__dirname, '../../../data/ua-settlements.csv');
+    const configService = {
+      get: jest.fn().mockReturnValue(file),
+    } as unknown as ConfigService;
+    const fromFile = new GazetteerGeocoder(configService);
+
+    const result = await fromFile.geocode('Умань, Черкаська область');
+    expect(result?.source).toBe('gazetteer');
+    expect(fromFile.size).toBeGreaterThan(20);
+  });
+});
@@ -0,0 +1,238 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { GeocodeResult, GeocoderService } from './geocoder.service';
+
+export interface GazetteerEntry {
+  name: string;
+  oblast?: string;
+  lat: number;
+  lng: number;
+  population?: number;
+  altNames?: string[];
+}
+
+/**
+ * Offline geocoder backed by a gazetteer of Ukrainian settlements.
+ *
+ * The file (GAZETTEER_PATH, default data/ua-settlements.csv) is read once
+ * on first lookup. CSV needs a header with at least name, lat, lng;
+ * oblast, population and alt_names ("|"-separated) are optional.
+ * GeoJSON must be a FeatureCollection of Points with the same properties.
+ */
+@Injectable()
+export class GazetteerGeocoder extends GeocoderService {
+  readonly name = 'gazetteer';
+  private readonly logger = new Logger(GazetteerGeocoder.name);
+  private readonly DEFAULT_PATH = 'data/ua-settlements.csv';
+  private readonly SETTLEMENT_PREFIXES =
+    /^(м\.|с\.|смт\.?|сел\.|місто|село|селище міського типу|селище|хутір)\s+/;
+  private index: Map<string, GazetteerEntry[]> | null = null;
+  private loading: Promise<void> | null = null;
+
+  constructor(private readonly configService?: ConfigService) {
+    super();
+  }
+
+  async geocode(place: string): Promise<GeocodeResult | null> {
+    await this.ensureLoaded();
+    const match = this.lookup(place);
+    if (!match) return null;
+    return {
+      lat: match.entry.lat,
+      lng: match.entry.lng,
+      source: this.name,
+      confidence: match.confidence,
+    };
+  }
+
+  /**
+   * Find the best gazetteer entry for a place string such as
+   * "Умань, Черкаська область". The first comma-separated part is the
+   * settlement; the rest is used to pick between same-named settlements.
+   */
+  lookup(place: string): { entry: GazetteerEntry; confidence: number } | null {
+    if (!place || !this.index) return null;
+    const parts = place
+      .split(',')
+      .map((p) => this.normalize(p))
+      .filter(Boolean);
+    if (parts.length === 0) return null;
+
+    const candidates = this.index.get(parts[0]);
+    if (!candidates || candidates.length === 0) return null;
+    if (candidates.length === 1) {
+      return { entry: candidates[0], confidence: 1 };
+    }
+
+    const hints = parts.slice(1).join(' ');
+    if (hints) {
+      const hinted = candidates.filter(
+        (c) => c.oblast && hints.includes(this.oblastStem(c.oblast)),
+      );
+      if (hinted.length > 0) {
+        return { entry: this.mostPopulous(hinted), confidence: 0.8 };
+      }
+    }
+    return { entry: this.mostPopulous(candidates), confidence: 0.5 };
+  }
+
+  /** Replace the in-memory gazetteer, e.g. with fixtures in tests. */
+  load(entries: GazetteerEntry[]) {
+    const index = new Map<string, GazetteerEntry[]>();
+    for (const entry of entries) {
+      const names = [entry.name, ...(entry.altNames || [])];
+      for (const name of names) {
+        const key = this.normalize(name);
+        if (!key) continue;
+        const list = index.get(key) || [];
+        if (!list.includes(entry)) list.push(entry);
+        index.set(key, list);
+      }
+    }
+    this.index = index;
+    this.loading = Promise.resolve();
+  }
+
+  get size(): number {
+    return this.index?.size ?? 0;
+  }
+
+  normalize(value: string): string {
+    return value
+      .toLowerCase()
+      .replace(/\(.*?\)/g, '')
+      .replace(/[’ʼ`]/g, "'")
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(this.SETTLEMENT_PREFIXES, '')
+      .trim();
+  }
+
+  parseCsv(text: string): GazetteerEntry[] {
+    const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
+    if (lines.length === 0) return [];
+    const header = this.splitCsvLine(lines[0]).map((h) =>
+      h.trim().toLowerCase(),
+    );
+    const col = (name: string) => header.indexOf(name);
+    const [iName, iOblast, iLat, iLng, iPop, iAlt] = [
+      col('name'),
+      col('oblast'),
+      col('lat'),
+      col('lng'),
+      col('population'),
+      col('alt_names'),
+    ];
+    if (iName < 0 || iLat < 0 || iLng < 0) {
+      throw new Error('Gazetteer CSV must have name, lat and lng columns');
+    }
+
+    const entries: GazetteerEntry[] = [];
+    for (const line of lines.slice(1)) {
+      const cells = this.splitCsvLine(line);
+      const lat = parseFloat(cells[iLat]);
+      const lng = parseFloat(cells[iLng]);
+      if (!cells[iName] || isNaN(lat) || isNaN(lng)) continue;
+      entries.push({
+        name: cells[iName].trim(),
+        oblast: iOblast >= 0 ? cells[iOblast]?.trim() || undefined : undefined,
+        lat,
+        lng,
+        population: iPop >= 0 ? parseInt(cells[iPop], 10) || 0 : 0,
+        altNames:
+          iAlt >= 0 && cells[iAlt]
+            ? cells[iAlt].split('|').map((n) => n.trim())
+            : [],
+      });
+    }
+    return entries;
+  }
+
+  parseGeoJson(text: string): GazetteerEntry[] {
+    const data = JSON.parse(text);
+    const features: any[] = data?.features || [];
+    return features
+      .filter((f) => f?.geometry?.type === 'Point' && f.properties?.name)
+      .map((f) => {
+        const altNames = f.properties.alt_names ?? f.properties.altNames;
+        return {
+          name: f.properties.name,
+          oblast: f.properties.oblast,
+          lng: Number(f.geometry.coordinates[0]),
+          lat: Number(f.geometry.coordinates[1]),
+          population: Number(f.properties.population) || 0,
+          altNames: Array.isArray(altNames)
+            ? altNames
+            : typeof altNames === 'string'
+              ? altNames.split('|')
+              : [],
+        };
+      });
+  }
+
+  /** Load the gazetteer file on first use; safe to call repeatedly. */
+  async ensureLoaded() {
+    if (!this.loading) {
+      this.loading = this.loadFromFile().catch((error) => {
+        this.logger.warn(`Gazetteer not loaded: ${error.message}`);
+        this.load([]);
+      });
+    }
+    await this.loading;
+  }
+
+  private async loadFromFile() {
+    const configured =
+      this.configService?.get<string>('GAZETTEER_PATH') || this.DEFAULT_PATH;
+    const file = path.resolve(process.cwd(), configured);
+    const text = await fs.readFile(file, 'utf8');
+    const isGeoJson = /\.(geo)?json$/i.test(file);
+    const entries = isGeoJson ? this.parseGeoJson(text) : this.parseCsv(text);
+    this.load(entries);
+    this.logger.log(
+      `Gazetteer loaded: ${entries.length} settlements from ${configured}`,
+    );
+  }
+
+  private splitCsvLine(line: string): string[] {
+    const cells: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i];
+      if (quoted) {
+        if (ch === '"' && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else if (ch === '"') {
+          quoted = false;
+        } else {
+          current += ch;
+        }
+      } else if (ch === '"') {
+        quoted = true;
+      } else if (ch === ',') {
+        cells.push(current);
+        current = '';
+      } else {
+        current += ch;
+      }
+    }
+    cells.push(current);
+    return cells;
+  }
+
+  /** "Черкаська область" → "черкаськ", enough to match inflected hints. */
+  private oblastStem(oblast: string): string {
+    const word = this.normalize(oblast).split(' ')[0];
+    return word.length > 6 ? word.slice(0, -2) : word;
+  }
+
+  private mostPopulous(entries: GazetteerEntry[]): GazetteerEntry {
+    return entries.reduce((best, e) =>
+      (e.population || 0) > (best.population || 0) ? e : best,
+    );
+  }
+}
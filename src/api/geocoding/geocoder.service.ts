@@ -0,0 +1,24 @@
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  /** Name of the backend that resolved the place, e.g. "gazetteer". */
+  source: string;
+  /** 0..1 — how sure the backend is that it picked the right place. */
+  confidence: number;
+}
+
+/**
+ * Geocoder contract. Declared as an abstract class rather than an
+ * interface so it can double as the Nest injection token.
+ */
+export abstract class GeocoderService {
+  abstract readonly name: string;
+
+  /**
+   * Resolve a free-form place name to coordinates.
+   * Returns null when the place is unknown; never throws for lookup misses.
+   * Throws when the backend could not answer (network error, timeout,
+   * rate limit), so the caller does not remember the place as unknown.
+   */
+  abstract geocode(place: string): Promise<GeocodeResult | null>;
+}
@@ -0,0 +1,56 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { GeocoderService } from './geocoder.service';
+import { NominatimGeocoder } from './nominatim.geocoder';
+import { GazetteerGeocoder } from './gazetteer.geocoder';
+import { ChainGeocoder } from './chain.geocoder';
+import { PlaceNormalizationService } from './place-normalization.service';
+
+const DEFAULT_BACKENDS = 'gazetteer,nominatim';
+
+/**
+ * Provides GeocoderService as a chain of backends picked by
+ * GEOCODER_BACKENDS, e.g. "gazetteer" for fully offline imports and tests.
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    NominatimGeocoder,
+    GazetteerGeocoder,
+    PlaceNormalizationService,
+    {
+      provide: GeocoderService,
+      useFactory: (
+        configService: ConfigService,
+        nominatim: NominatimGeocoder,
+        gazetteer: GazetteerGeocoder,
+      ) => {
+        const available: Record<string, GeocoderService> = {
+          nominatim,
+          gazetteer,
+        };
+        const names = (
+          configService.get<string>('GEOCODER_BACKENDS') || DEFAULT_BACKENDS
+        )
+          .split(',')
+          .map((n) => n.trim().toLowerCase())
+          .filter(Boolean);
+
+        const backends = names
+          .map((n) => {
+            if (!available[n]) {
+              new Logger('GeocodingModule').warn(
+                `Unknown geocoder backend "${n}" ignored`,
+              );
+            }
+            return available[n];
+          })
+          .filter(Boolean);
+        return new ChainGeocoder(backends);
+      },
+      inject: [ConfigService, NominatimGeocoder, GazetteerGeocoder],
+    },
+  ],
+  exports: [GeocoderService, GazetteerGeocoder, PlaceNormalizationService],
+})
+export class GeocodingModule {}
@@ -0,0 +1,191 @@
+/**
+ * Reference tables for normalizing historical birth places from Wikidata
+ * and Wikipedia infoboxes to present-day settlements and oblasts.
+ *
+ * Keys of SETTLEMENT_ALIASES are lowercase with apostrophes unified to "'".
+ */
+
+export const MODERN_UKRAINE = 'Україна';
+
+/** Canonical oblast names, plus the two cities with special status and Crimea. */
+export const OBLASTS = [
+  'Вінницька область',
+  'Волинська область',
+  'Дніпропетровська область',
+  'Донецька область',
+  'Житомирська область',
+  'Закарпатська область',
+  'Запорізька область',
+  'Івано-Франківська область',
+  'Київська область',
+  'Кіровоградська область',
+  'Луганська область',
+  'Львівська область',
+  'Миколаївська область',
+  'Одеська область',
+  'Полтавська область',
+  'Рівненська область',
+  'Сумська область',
+  'Тернопільська область',
+  'Харківська область',
+  'Херсонська область',
+  'Хмельницька область',
+  'Черкаська область',
+  'Чернівецька область',
+  'Чернігівська область',
+  'Автономна Республіка Крим',
+  'м. Київ',
+  'м. Севастополь',
+];
+
+export interface SettlementAlias {
+  modern: string;
+  oblast: string;
+}
+
+/** Former and foreign-language names of Ukrainian settlements. */
+export const SETTLEMENT_ALIASES: Record<string, SettlementAlias> = {
+  // Russian-language spellings of major cities
+  киев: { modern: 'Київ', oblast: 'м. Київ' },
+  харьков: { modern: 'Харків', oblast: 'Харківська область' },
+  одесса: { modern: 'Одеса', oblast: 'Одеська область' },
+  николаев: { modern: 'Миколаїв', oblast: 'Миколаївська область' },
+  чернигов: { modern: 'Чернігів', oblast: 'Чернігівська область' },
+  ровно: { modern: 'Рівне', oblast: 'Рівненська область' },
+  кременчуг: { modern: 'Кременчук', oblast: 'Полтавська область' },
+  // Imperial and Soviet-era names
+  єлисаветград: { modern: 'Кропивницький', oblast: 'Кіровоградська область' },
+  єлизаветград: { modern: 'Кропивницький', oblast: 'Кіровоградська область' },
+  "зінов'євськ": { modern: 'Кропивницький', oblast: 'Кіровоградська область' },
+  кірово: { modern: 'Кропивницький', oblast: 'Кіровоградська область' },
+  кіровоград: { modern: 'Кропивницький', oblast: 'Кіровоградська область' },
+  катеринослав: { modern: 'Дніпро', oblast: 'Дніпропетровська область' },
+  січеслав: { modern: 'Дніпро', oblast: 'Дніпропетровська область' },
+  дніпропетровськ: { modern: 'Дніпро', oblast: 'Дніпропетровська область' },
+  юзівка: { modern: 'Донецьк', oblast: 'Донецька область' },
+  сталіно: { modern: 'Донецьк', oblast: 'Донецька область' },
+  ворошиловград: { modern: 'Луганськ', oblast: 'Луганська область' },
+  олександрівськ: { modern: 'Запоріжжя', oblast: 'Запорізька область' },
+  жданов: { modern: 'Маріуполь', oblast: 'Донецька область' },
+  проскурів: { modern: 'Хмельницький', oblast: 'Хмельницька область' },
+  станіслав: {
+    modern: 'Івано-Франківськ',
+    oblast: 'Івано-Франківська область',
+  },
+  станиславів: {
+    modern: 'Івано-Франківськ',
+    oblast: 'Івано-Франківська область',
+  },
+  тарнопіль: { modern: 'Тернопіль', oblast: 'Тернопільська область' },
+  лемберг: { modern: 'Львів', oblast: 'Львівська область' },
+  львов: { modern: 'Львів', oblast: 'Львівська область' },
+  черновці: { modern: 'Чернівці', oblast: 'Чернівецька область' },
+  черновиці: { modern: 'Чернівці', oblast: 'Чернівецька область' },
+  унгвар: { modern: 'Ужгород', oblast: 'Закарпатська область' },
+  мункач: { modern: 'Мукачево', oblast: 'Закарпатська область' },
+  артемівськ: { modern: 'Бахмут', oblast: 'Донецька область' },
+  красноармійськ: { modern: 'Покровськ', oblast: 'Донецька область' },
+  дніпродзержинськ: {
+    modern: "Кам'янське",
+    oblast: 'Дніпропетровська область',
+  },
+  комсомольськ: { modern: 'Горішні Плавні', oblast: 'Полтавська область' },
+  іллічівськ: { modern: 'Чорноморськ', oblast: 'Одеська область' },
+  котовськ: { modern: 'Подільськ', oblast: 'Одеська область' },
+  цюрупинськ: { modern: 'Олешки', oblast: 'Херсонська область' },
+  щорс: { modern: 'Сновськ', oblast: 'Чернігівська область' },
+  'новоград-волинський': { modern: 'Звягель', oblast: 'Житомирська область' },
+  'володимир-волинський': { modern: 'Володимир', oblast: 'Волинська область' },
+  'переяслав-хмельницький': { modern: 'Переяслав', oblast: 'Київська область' },
+  димитров: { modern: 'Мирноград', oblast: 'Донецька область' },
+  кіровське: { modern: 'Хрестівка', oblast: 'Донецька область' },
+};
+
+export interface HistoricalRegion {
+  pattern: RegExp;
+  /** Null when the region is split between several modern oblasts. */
+  oblast: string | null;
+  country: string | null;
+}
+
+/**
+ * Russian Empire governorates, Austro-Hungarian crown lands and similar
+ * units. Only used when the settlement itself does not pin down an oblast.
+ */
+export const HISTORICAL_REGIONS: HistoricalRegion[] = [
+  { pattern: /київськ\S* губерні/, oblast: null, country: MODERN_UKRAINE },
+  {
+    pattern: /полтавськ\S* губерні/,
+    oblast: 'Полтавська область',
+    country: MODERN_UKRAINE,
+  },
+  { pattern: /чернігівськ\S* губерні/, oblast: null, country: MODERN_UKRAINE },
+  { pattern: /харківськ\S* губерні/, oblast: null, country: MODERN_UKRAINE },
+  { pattern: /херсонськ\S* губерні/, oblast: null, country: MODERN_UKRAINE },
+  {
+    pattern: /катеринославськ\S* губерні/,
+    oblast: null,
+    country: MODERN_UKRAINE,
+  },
+  { pattern: /подільськ\S* губерні/, oblast: null, country: MODERN_UKRAINE },
+  { pattern: /волинськ\S* губерні/, oblast: null, country: MODERN_UKRAINE },
+  { pattern: /таврійськ\S* губерні/, oblast: null, country: null },
+  { pattern: /бессарабськ\S* губерні/, oblast: null, country: null },
+  {
+    pattern: /галичин\S* (та|і) володимирі/,
+    oblast: null,
+    country: null,
+  },
+  {
+    pattern: /герцогство буковин|буковин/,
+    oblast: 'Чернівецька область',
+    country: MODERN_UKRAINE,
+  },
+  {
+    pattern: /підкарпатськ\S* русь|карпатськ\S* україн/,
+    oblast: 'Закарпатська область',
+    country: MODERN_UKRAINE,
+  },
+  { pattern: /гетьманщин|малоросі/, oblast: null, country: MODERN_UKRAINE },
+];
+
+/** Historical state names stripped from place strings before matching. */
+export const HISTORICAL_STATES =
+  /,?\s*(українська рср|урср|срср|російська імперія|російської імперії|австро-угорщина|австрійська імперія|королівство польща|друга річ посполита|річ посполита|польська республіка|російська срфр|рсфср)(?![\p{L}])/giu;
+
+export interface ForeignMarker {
+  /** Lowercase words; a place matches if any of its words is listed. */
+  words: string[];
+  country: string;
+}
+
+/** Places outside present-day Ukraine that show up often in birth/death data. */
+export const FOREIGN_MARKERS: ForeignMarker[] = [
+  {
+    words: [
+      'росія',
+      'росії',
+      'москва',
+      'санкт-петербург',
+      'петербург',
+      'петроград',
+      'ленінград',
+    ],
+    country: 'Росія',
+  },
+  {
+    words: ['польща', 'польщі', 'варшава', 'краків', 'перемишль', 'люблін'],
+    country: 'Польща',
+  },
+  { words: ['білорусь', 'мінськ', 'берестя', 'брест'], country: 'Білорусь' },
+  { words: ['молдова', 'кишинів'], country: 'Молдова' },
+  { words: ['австрія', 'відень'], country: 'Австрія' },
+  { words: ['чехія', 'прага'], country: 'Чехія' },
+  { words: ['німеччина', 'берлін', 'мюнхен'], country: 'Німеччина' },
+  { words: ['франція', 'париж'], country: 'Франція' },
+  { words: ['сша', 'нью-йорк', 'чикаго'], country: 'США' },
+  { words: ['канада', 'торонто', 'вінніпег', 'едмонтон'], country: 'Канада' },
+  { words: ['ізраїль', 'єрусалим', 'тель-авів'], country: 'Ізраїль' },
+  { words: ['казахстан', 'алмати'], country: 'Казахстан' },
+  { words: ['грузія', 'тбілісі'], country: 'Грузія' },
+];
@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { GeocodeResult, GeocoderService } from './geocoder.service';
+
+@Injectable()
+export class NominatimGeocoder extends GeocoderService {
+  readonly name = 'nominatim';
+  private readonly NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search';
+  private readonly FETCH_TIMEOUT = 15000;
+  /** Nominatim usage policy: max 1 request per second. */
+  private readonly MIN_INTERVAL = 1100;
+  private lastRequestAt = 0;
+
+  async geocode(place: string): Promise<GeocodeResult | null> {
+    const cleanAddress = place.replace(/\(.*\)/, '').trim();
+    if (!cleanAddress) return null;
+    const url = `${this.NOMINATIM_URL}?q=${encodeURIComponent(cleanAddress)}&format=json&limit=1&accept-language=uk`;
+
+    await this.throttle();
+    // Transport errors and non-2xx replies (e.g. 429) propagate: only an
+    // empty result means the place is unknown.
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'UkrMapDiplomaBot/1.0 (student_project)',
+      },
+      signal: AbortSignal.timeout(this.FETCH_TIMEOUT),
+    });
+    if (!response.ok) throw new Error(`Nominatim error: ${response.status}`);
+
+    const data = await response.json();
+    if (data && data.length > 0) {
+      return {
+        lat: parseFloat(data[0].lat),
+        lng: parseFloat(data[0].lon),
+        source: this.name,
+        confidence: parseFloat(data[0].importance) || 0.5,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Space requests at least MIN_INTERVAL apart. Callers no longer need to
+   * sleep after each lookup — cache hits and other backends stay fast.
+   */
+  private async throttle() {
+    const wait = this.lastRequestAt + this.MIN_INTERVAL - Date.now();
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+    this.lastRequestAt = Date.now();
+  }
+}
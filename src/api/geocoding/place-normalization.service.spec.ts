@@ -0,0 +1,92 @@
+import { GazetteerGeocoder } from './gazetteer.geocoder';
+import { PlaceNormalizationService } from './place-normalization.service';
+
+describe('PlaceNormalizationService', () => {
+  let service: PlaceNormalizationService;
+
+  beforeEach(() => {
+    const gazetteer = new GazetteerGeocoder();
+    gazetteer.load([
+      { name: 'Київ', oblast: 'м. Київ', lat: 50.45, lng: 30.52 },
+      { name: 'Умань', oblast: 'Черкаська область', lat: 48.75, lng: 30.22 },
+    ]);
+    service = new PlaceNormalizationService(gazetteer);
+  });
+
+  describe('normalize', () => {
+    it('should map a renamed town to its present-day name and oblast', async () => {
+      const result = await service.normalize(
+        'Єлисаветград, Херсонська губернія, Російська імперія',
+      );
+      expect(result).toEqual({
+        settlement: 'Кропивницький',
+        oblast: 'Кіровоградська область',
+        countryModern: 'Україна',
+        historicalName: 'Єлисаветград',
+      });
+    });
+
+    it('should resolve Austro-Hungarian names', async () => {
+      const result = await service.normalize('Станіслав, Австро-Угорщина');
+      expect(result.settlement).toBe('Івано-Франківськ');
+      expect(result.oblast).toBe('Івано-Франківська область');
+    });
+
+    it('should use an inflected oblast from a "нині" parenthetical', async () => {
+      const result = await service.normalize(
+        'с. Моринці, Київська губернія (нині Черкаської області)',
+      );
+      expect(result).toEqual({
+        settlement: 'Моринці',
+        oblast: 'Черкаська область',
+        countryModern: 'Україна',
+      });
+    });
+
+    it('should fall back to the gazetteer for the oblast', async () => {
+      const result = await service.normalize('Умань, Київська губернія');
+      expect(result.oblast).toBe('Черкаська область');
+      expect(result.countryModern).toBe('Україна');
+    });
+
+    it('should fall back to the historical region', async () => {
+      const result = await service.normalize('Вашківці, герцогство Буковина');
+      expect(result.oblast).toBe('Чернівецька область');
+    });
+
+    it('should keep the country when a governorate spans several oblasts', async () => {
+      const result = await service.normalize(
+        'Невідомівка, Подільська губернія',
+      );
+      expect(result.oblast).toBeNull();
+      expect(result.countryModern).toBe('Україна');
+    });
+
+    it('should detect places outside Ukraine', async () => {
+      expect((await service.normalize('Москва, РСФСР')).countryModern).toBe(
+        'Росія',
+      );
+      expect((await service.normalize('Перемишль')).countryModern).toBe(
+        'Польща',
+      );
+    });
+
+    it('should return empty fields for blank input', async () => {
+      expect(await service.normalize('')).toEqual({
+        settlement: '',
+        oblast: null,
+        countryModern: null,
+      });
+    });
+  });
+
+  describe('findOblast', () => {
+    it('should match abbreviated and inflected forms', () => {
+      expect(service.findOblast('Львівська обл.')).toBe('Львівська область');
+      expect(service.findOblast('Полтавської області')).toBe(
+        'Полтавська область',
+      );
+      expect(service.findOblast('Київська губернія')).toBeNull();
+    });
+  });
+});
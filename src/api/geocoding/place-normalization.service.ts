@@ -0,0 +1,137 @@
+import { Injectable } from '@nestjs/common';
+import { GazetteerGeocoder } from './gazetteer.geocoder';
+import {
+  FOREIGN_MARKERS,
+  HISTORICAL_REGIONS,
+  HISTORICAL_STATES,
+  MODERN_UKRAINE,
+  OBLASTS,
+  SETTLEMENT_ALIASES,
+} from './historical-places';
+
+export interface NormalizedPlace {
+  /** Present-day settlement name, or the cleaned input when unknown. */
+  settlement: string;
+  oblast: string | null;
+  countryModern: string | null;
+  /** Former name of the settlement when it was renamed. */
+  historicalName?: string;
+}
+
+/**
+ * Maps historical birth places ("Єлисаветград, Херсонська губернія,
+ * Російська імперія") to the present-day settlement, oblast and country.
+ *
+ * Resolution order: renamed-settlement aliases, an explicit "… область"
+ * in the string, well-known foreign places, the gazetteer, and finally
+ * historical regions, which often only pin down the country.
+ */
+@Injectable()
+export class PlaceNormalizationService {
+  private readonly SETTLEMENT_PREFIXES =
+    /^(м\.|с\.|смт\.?|сел\.|місто|село|селище міського типу|селище|хутір)\s+/i;
+  private readonly PRESENT_DAY_HINT = /^(нині|тепер|зараз)\s+/i;
+
+  constructor(private readonly gazetteer: GazetteerGeocoder) {}
+
+  async normalize(place: string | null | undefined): Promise<NormalizedPlace> {
+    const empty = { settlement: '', oblast: null, countryModern: null };
+    if (!place || !place.trim()) return empty;
+
+    const text = place.replace(/[’ʼ`]/g, "'");
+
+    // "(нині Черкаська область)" carries the modern location; other
+    // parentheticals are usually old names and are dropped.
+    const hints: string[] = [];
+    for (const match of text.matchAll(/\(([^)]*)\)/g)) {
+      if (this.PRESENT_DAY_HINT.test(match[1].trim())) {
+        hints.push(match[1].trim().replace(this.PRESENT_DAY_HINT, ''));
+      }
+    }
+
+    const parts = text
+      .replace(/\(.*?\)/g, '')
+      .replace(HISTORICAL_STATES, '')
+      .split(',')
+      .map((p) => p.replace(/\s+/g, ' ').trim())
+      .filter(Boolean);
+    if (parts.length === 0) return empty;
+
+    const settlement = parts[0].replace(this.SETTLEMENT_PREFIXES, '').trim();
+    const context = [...parts.slice(1), ...hints].join(', ').toLowerCase();
+
+    const alias = SETTLEMENT_ALIASES[settlement.toLowerCase()];
+    if (alias) {
+      return {
+        settlement: alias.modern,
+        oblast: alias.oblast,
+        countryModern: MODERN_UKRAINE,
+        historicalName: settlement,
+      };
+    }
+
+    const oblast = this.findOblast(context);
+    if (oblast) {
+      return { settlement, oblast, countryModern: MODERN_UKRAINE };
+    }
+
+    const foreign = this.findForeignCountry(
+      `${settlement.toLowerCase()} ${context}`,
+    );
+    if (foreign) {
+      return { settlement, oblast: null, countryModern: foreign };
+    }
+
+    await this.gazetteer.ensureLoaded();
+    const match = this.gazetteer.lookup([settlement, context].join(', '));
+    if (match?.entry.oblast) {
+      return {
+        settlement: match.entry.name,
+        oblast: match.entry.oblast,
+        countryModern: MODERN_UKRAINE,
+      };
+    }
+
+    const region = HISTORICAL_REGIONS.find((r) => r.pattern.test(context));
+    if (region) {
+      return {
+        settlement,
+        oblast: region.oblast,
+        countryModern: region.oblast ? MODERN_UKRAINE : region.country,
+      };
+    }
+
+    return {
+      settlement,
+      oblast: null,
+      countryModern: /україн/.test(context) ? MODERN_UKRAINE : null,
+    };
+  }
+
+  /**
+   * Find an oblast named in free text, tolerating case endings
+   * ("Черкаської області", "Черкаська обл.").
+   */
+  findOblast(text: string): string | null {
+    if (!text) return null;
+    const lower = text.toLowerCase();
+    if (/крим/.test(lower)) return 'Автономна Республіка Крим';
+    if (/севастопол/.test(lower)) return 'м. Севастополь';
+
+    for (const oblast of OBLASTS) {
+      if (!oblast.endsWith('область')) continue;
+      const word = oblast.split(' ')[0].toLowerCase();
+      const stem = word.slice(0, -2);
+      if (new RegExp(`${stem}\\S*\\s+обл`).test(lower)) return oblast;
+    }
+    return null;
+  }
+
+  private findForeignCountry(text: string): string | null {
+    const words = new Set(text.split(/[^\p{L}'-]+/u).filter(Boolean));
+    const marker = FOREIGN_MARKERS.find((m) =>
+      m.words.some((w) => words.has(w)),
+    );
+    return marker?.country ?? null;
+  }
+}
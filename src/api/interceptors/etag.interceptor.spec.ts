@@ -1,5 +1,5 @@
 import { EtagInterceptor } from './etag.interceptor';
-import { ExecutionContext, CallHandler } from '@nestjs/common';
+import { ExecutionContext, CallHandler, StreamableFile } from '@nestjs/common';
 import { of } from 'rxjs';
 import { createHash } from 'crypto';
 
@@ -102,4 +102,58 @@ describe('EtagInterceptor', () => {
       done();
     });
   });
+
+  it('should not apply to Server-Sent Event streams', (done) => {
+    const body = { data: { type: 'category_started' } };
+    const mockResponse = {
+      setHeader: jest.fn(),
+      status: jest.fn(),
+    };
+    const mockRequest = {
+      method: 'GET',
+      headers: { accept: 'text/event-stream' },
+    };
+
+    const context = {
+      switchToHttp: () => ({
+        getRequest: () => mockRequest,
+        getResponse: () => mockResponse,
+      }),
+    } as unknown as ExecutionContext;
+
+    const next: CallHandler = { handle: () => of(body) };
+
+    interceptor.intercept(context, next).subscribe((result) => {
+      expect(mockResponse.setHeader).not.toHaveBeenCalled();
+      expect(result).toEqual(body);
+      done();
+    });
+  });
+
+  it('should pass binary StreamableFile bodies through untouched', (done) => {
+    const body = new StreamableFile(Buffer.from([0x1a, 0x02]));
+    const mockResponse = {
+      setHeader: jest.fn(),
+      status: jest.fn(),
+    };
+    const mockRequest = {
+      method: 'GET',
+      headers: {},
+    };
+
+    const context = {
+      switchToHttp: () => ({
+        getRequest: () => mockRequest,
+        getResponse: () => mockResponse,
+      }),
+    } as unknown as ExecutionContext;
+
+    const next: CallHandler = { handle: () => of(body) };
+
+    interceptor.intercept(context, next).subscribe((result) => {
+      expect(mockResponse.setHeader).not.toHaveBeenCalled();
+      expect(result).toBe(body);
+      done();
+    });
+  });
 });
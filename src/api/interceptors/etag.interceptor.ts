@@ -3,6 +3,7 @@ import {
   NestInterceptor,
   ExecutionContext,
   CallHandler,
+  StreamableFile,
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
@@ -21,8 +22,17 @@ export class EtagInterceptor implements NestInterceptor {
       return next.handle();
     }
 
+    // Server-Sent Event streams emit many bodies after headers are flushed
+    const accept = request.headers['accept'] || '';
+    if (accept.includes('text/event-stream')) {
+      return next.handle();
+    }
+
     return next.handle().pipe(
       map((body) => {
+        // Binary responses (e.g. vector tiles) set their own cache headers
+        if (body instanceof StreamableFile) return body;
+
         const json = JSON.stringify(body);
         const hash = createHash('md5').update(json).digest('hex');
         const etag = `"${hash}"`;
@@ -0,0 +1,17 @@
+export interface MailMessage {
+  to: string | string[];
+  subject: string;
+  /** Plain-text body. */
+  text: string;
+}
+
+/**
+ * Outgoing mail contract. Declared as an abstract class rather than an
+ * interface so it can double as the Nest injection token.
+ */
+export abstract class MailTransport {
+  abstract readonly name: string;
+
+  /** Send a message; rejects when the server does not accept it. */
+  abstract send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,40 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MailTransport } from './mail-transport';
+import { SmtpMailTransport } from './smtp.transport';
+import { MemoryMailTransport } from './memory.transport';
+
+const DEFAULT_TRANSPORT = 'smtp';
+
+/** Provides the MailTransport named by MAIL_TRANSPORT: smtp or memory. */
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    SmtpMailTransport,
+    MemoryMailTransport,
+    {
+      provide: MailTransport,
+      useFactory: (
+        configService: ConfigService,
+        smtp: SmtpMailTransport,
+        memory: MemoryMailTransport,
+      ) => {
+        const available: Record<string, MailTransport> = { smtp, memory };
+        const name = (
+          configService.get<string>('MAIL_TRANSPORT') || DEFAULT_TRANSPORT
+        )
+          .trim()
+          .toLowerCase();
+        if (!available[name]) {
+          new Logger('MailModule').warn(
+            `Unknown mail transport "${name}", using ${DEFAULT_TRANSPORT}`,
+          );
+        }
+        return available[name] ?? available[DEFAULT_TRANSPORT];
+      },
+      inject: [ConfigService, SmtpMailTransport, MemoryMailTransport],
+    },
+  ],
+  exports: [MailTransport],
+})
+export class MailModule {}
@@ -0,0 +1,33 @@
+import { Logger } from '@nestjs/common';
+import { MemoryMailTransport } from './memory.transport';
+
+describe('MemoryMailTransport', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should log the recipient and subject but not the body', async () => {
+    const log = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    const transport = new MemoryMailTransport();
+
+    await transport.send({
+      to: 'taras@example.com',
+      subject: 'Reset your password',
+      text: 'https://ukrmap.test/reset-password?token=secret-token',
+    });
+    expect(transport.sent).toHaveLength(1);
+    expect(log).toHaveBeenCalledWith(
+      'Mail to taras@example.com: Reset your password',
+    );
+    expect(JSON.stringify(log.mock.calls)).not.toContain('secret-token');
+  });
+
+  it('should keep only the most recent messages', async () => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    const transport = new MemoryMailTransport();
+
+    for (let i = 0; i < 150; i++) {
+      await transport.send({ to: 'a@example.com', subject: `#${i}`, text: '' });
+    }
+    expect(transport.sent).toHaveLength(100);
+    expect(transport.sent[0].subject).toBe('#50');
+  });
+});
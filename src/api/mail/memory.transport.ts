@@ -0,0 +1,26 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * Keeps messages in memory instead of sending them, for tests and for
+ * local development without an SMTP server. Only the most recent
+ * messages are kept, and the log shows recipient and subject but never
+ * the body, which can carry verification and password-reset tokens.
+ */
+@Injectable()
+export class MemoryMailTransport extends MailTransport {
+  readonly name = 'memory';
+  readonly sent: MailMessage[] = [];
+  private readonly MAX_KEPT = 100;
+  private readonly logger = new Logger(MemoryMailTransport.name);
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+    if (this.sent.length > this.MAX_KEPT) {
+      this.sent.splice(0, this.sent.length - this.MAX_KEPT);
+    }
+    this.logger.log(
+      `Mail to ${[message.to].flat().join(', ')}: ${message.subject}`,
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { ConfigService } from '@nestjs/config';
+import { AddressInfo, Server, Socket, createServer } from 'net';
+import { SmtpMailTransport } from './smtp.transport';
+
+/**
+ * Minimal local SMTP server standing in for a real one: accepts every
+ * command but STARTTLS and records what the client sent.
+ */
+function startFakeSmtpServer(
+  options: { rejectRecipients?: boolean } = {},
+): Promise<{
+  server: Server;
+  port: number;
+  commands: string[];
+  data: string[];
+  sockets: Set<Socket>;
+}> {
+  const commands: string[] = [];
+  const data: string[] = [];
+  const sockets = new Set<Socket>();
+  const server = createServer((socket: Socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    let inData = false;
+    let message = '';
+    let buffer = '';
+    socket.setEncoding('utf8');
+    socket.write('220 fake.smtp ESMTP\r\n');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            data.push(message);
+            socket.write('250 queued\r\n');
+          } else {
+            message += `${line}\r\n`;
+          }
+          continue;
+        }
+        commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === 'EHLO') {
+          socket.write('250-fake.smtp\r\n250 AUTH PLAIN\r\n');
+        } else if (verb === 'STARTTLS') {
+          socket.write('502 not implemented\r\n');
+        } else if (verb === 'AUTH') {
+          socket.write('235 ok\r\n');
+        } else if (verb === 'RCPT' && options.rejectRecipients) {
+          socket.write('550 no such user\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+  return new Promise((resolve) =>
+    server.listen(0, '127.0.0.1', () =>
+      resolve({
+        server,
+        port: (server.address() as AddressInfo).port,
+        commands,
+        data,
+        sockets,
+      }),
+    ),
+  );
+}
+
+const transportFor = (env: Record<string, string>) =>
+  new SmtpMailTransport({
+    get: (key: string) => env[key],
+  } as unknown as ConfigService);
+
+describe('SmtpMailTransport', () => {
+  let fake: Awaited<ReturnType<typeof startFakeSmtpServer>>;
+
+  afterEach(async () => {
+    fake.sockets.forEach((socket) => socket.destroy());
+    await new Promise((resolve) => fake.server.close(resolve));
+  });
+
+  it('should deliver a message through the SMTP dialogue', async () => {
+    fake = await startFakeSmtpServer();
+    const transport = transportFor({
+      SMTP_HOST: '127.0.0.1',
+      SMTP_PORT: String(fake.port),
+      SMTP_USER: 'mapper',
+      SMTP_PASSWORD: 'secret',
+      // The fake server has no TLS.
+      SMTP_ALLOW_INSECURE_AUTH: 'true',
+      MAIL_FROM: 'noreply@ukrmap.test',
+    });
+
+    await transport.send({
+      to: 'taras@example.com',
+      subject: 'Вашу правку схвалено',
+      text: 'Дякуємо!',
+    });
+
+    expect(fake.commands).toEqual([
+      expect.stringMatching(/^EHLO /),
+      `AUTH PLAIN ${Buffer.from('\0mapper\0secret').toString('base64')}`,
+      expect.stringMatching(/^MAIL FROM:<noreply@ukrmap\.test>/),
+      expect.stringMatching(/^RCPT TO:<taras@example\.com>/),
+      'DATA',
+    ]);
+    const [message] = fake.data;
+    expect(message).toContain('To: taras@example.com');
+    // Cyrillic subject is sent as an RFC 2047 encoded word
+    expect(message).toMatch(/^Subject: =\?UTF-8\?/im);
+    expect(message).toMatch(/charset=utf-8/i);
+  });
+
+  it('should not send credentials without STARTTLS unless allowed', async () => {
+    fake = await startFakeSmtpServer();
+    const transport = transportFor({
+      SMTP_HOST: '127.0.0.1',
+      SMTP_PORT: String(fake.port),
+      SMTP_USER: 'mapper',
+      SMTP_PASSWORD: 'secret',
+    });
+
+    await expect(
+      transport.send({ to: 'taras@example.com', subject: 'Hi', text: 'Hi' }),
+    ).rejects.toThrow('STARTTLS');
+    expect(fake.commands.some((c) => c.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('should reject when the server refuses a recipient', async () => {
+    fake = await startFakeSmtpServer({ rejectRecipients: true });
+    const transport = transportFor({
+      SMTP_HOST: '127.0.0.1',
+      SMTP_PORT: String(fake.port),
+    });
+
+    await expect(
+      transport.send({ to: 'nobody@example.com', subject: 'Hi', text: 'Hi' }),
+    ).rejects.toThrow('550');
+  });
+});
@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { hostname } from 'os';
+import { createTransport } from 'nodemailer';
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * Sends mail over SMTP with nodemailer. Configured by SMTP_HOST,
+ * SMTP_PORT, SMTP_SECURE (implicit TLS, usually port 465), SMTP_USER,
+ * SMTP_PASSWORD and MAIL_FROM. STARTTLS is used when the server offers
+ * it. Any local SMTP test double (Mailpit, MailHog, …) can stand in for a
+ * real server, e.g. SMTP_HOST=localhost SMTP_PORT=1025.
+ */
+@Injectable()
+export class SmtpMailTransport extends MailTransport {
+  readonly name = 'smtp';
+  private readonly TIMEOUT = 15000;
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const host = this.configService.get<string>('SMTP_HOST');
+    if (!host) {
+      throw new Error('SMTP_HOST is not configured');
+    }
+    const secure = this.configService.get<string>('SMTP_SECURE') === 'true';
+    const port =
+      parseInt(this.configService.get<string>('SMTP_PORT'), 10) ||
+      (secure ? 465 : 587);
+    const user = this.configService.get<string>('SMTP_USER');
+    const password = this.configService.get<string>('SMTP_PASSWORD') ?? '';
+    const allowInsecureAuth =
+      this.configService.get<string>('SMTP_ALLOW_INSECURE_AUTH') === 'true';
+    const from =
+      this.configService.get<string>('MAIL_FROM') || `noreply@${hostname()}`;
+
+    const transport = createTransport({
+      host,
+      port,
+      secure,
+      // A missing STARTTLS may have been stripped by a middlebox; never
+      // send the password in the clear unless explicitly allowed.
+      requireTLS: Boolean(user) && !secure && !allowInsecureAuth,
+      auth: user ? { user, pass: password } : undefined,
+      connectionTimeout: this.TIMEOUT,
+      greetingTimeout: this.TIMEOUT,
+      socketTimeout: this.TIMEOUT,
+    });
+    try {
+      const info = await transport.sendMail({
+        from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+      });
+      if (info.rejected.length > 0) {
+        throw new Error(
+          `SMTP server rejected recipients: ${info.rejected.join(', ')}`,
+        );
+      }
+    } finally {
+      transport.close();
+    }
+  }
+}
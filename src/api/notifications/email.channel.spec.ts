@@ -0,0 +1,47 @@
+import { EmailChannel } from './email.channel';
+import { NotificationMessage } from './notification-channel';
+import { NotificationType } from '../entities/notification.entity';
+import { User } from '../entities/user.entity';
+import { MailTransport } from '../mail/mail-transport';
+
+describe('EmailChannel', () => {
+  const users = [
+    { id: 1, email: 'bad@example' },
+    { id: 2, email: 'b@example.com' },
+  ] as User[];
+  const message: NotificationMessage = {
+    type: NotificationType.EDIT_APPROVED,
+    title: 'Your proposal was approved',
+  };
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  it('should keep sending after one recipient fails', async () => {
+    const mail = {
+      send: jest
+        .fn()
+        .mockRejectedValueOnce(new Error('550 no such user'))
+        .mockResolvedValue(undefined),
+    };
+    await new EmailChannel(mail as unknown as MailTransport).deliver(
+      users,
+      message,
+    );
+    await flush();
+
+    expect(mail.send).toHaveBeenCalledTimes(2);
+    expect(mail.send).toHaveBeenLastCalledWith(
+      expect.objectContaining({ to: 'b@example.com' }),
+    );
+  });
+
+  it('should not wait for the mail server', async () => {
+    const mail = { send: jest.fn(() => new Promise<void>(() => undefined)) };
+    await expect(
+      new EmailChannel(mail as unknown as MailTransport).deliver(
+        users,
+        message,
+      ),
+    ).resolves.toBeUndefined();
+    expect(mail.send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,42 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MailTransport } from '../mail/mail-transport';
+import { User } from '../entities/user.entity';
+import {
+  NotificationChannel,
+  NotificationMessage,
+} from './notification-channel';
+
+/**
+ * Sends each recipient a plain-text email. Mail goes out in the
+ * background, so a slow SMTP server does not hold up the request that
+ * caused the notification; a failed address is logged and skipped.
+ */
+@Injectable()
+export class EmailChannel extends NotificationChannel {
+  readonly name = 'email';
+  private readonly logger = new Logger(EmailChannel.name);
+
+  constructor(private readonly mail: MailTransport) {
+    super();
+  }
+
+  async deliver(recipients: User[], message: NotificationMessage) {
+    void this.sendAll(recipients, message);
+  }
+
+  private async sendAll(recipients: User[], message: NotificationMessage) {
+    for (const user of recipients) {
+      try {
+        await this.mail.send({
+          to: user.email,
+          subject: message.title,
+          text: message.body ?? message.title,
+        });
+      } catch (error: any) {
+        this.logger.warn(
+          `Could not email ${message.type} to user #${user.id}: ${error.message}`,
+        );
+      }
+    }
+  }
+}
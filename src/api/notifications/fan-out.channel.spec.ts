@@ -0,0 +1,46 @@
+import { FanOutChannel } from './fan-out.channel';
+import {
+  NotificationChannel,
+  NotificationMessage,
+} from './notification-channel';
+import { NotificationType } from '../entities/notification.entity';
+import { User } from '../entities/user.entity';
+
+const stub = (
+  name: string,
+  impl: () => Promise<void> = async () => undefined,
+): NotificationChannel => ({ name, deliver: jest.fn(impl) });
+
+describe('FanOutChannel', () => {
+  const users = [{ id: 1, email: 'a@example.com' }] as User[];
+  const message: NotificationMessage = {
+    type: NotificationType.SYNC_FAILED,
+    title: 'Wikipedia sync #3 failed',
+  };
+
+  it('should deliver through every channel', async () => {
+    const inApp = stub('in-app');
+    const email = stub('email');
+    const channel = new FanOutChannel([inApp, email]);
+
+    await channel.deliver(users, message);
+    expect(inApp.deliver).toHaveBeenCalledWith(users, message);
+    expect(email.deliver).toHaveBeenCalledWith(users, message);
+    expect(channel.name).toBe('fan-out(in-app,email)');
+  });
+
+  it('should keep delivering when a channel throws', async () => {
+    const broken = stub('email', async () => {
+      throw new Error('SMTP down');
+    });
+    const inApp = stub('in-app');
+    await new FanOutChannel([broken, inApp]).deliver(users, message);
+    expect(inApp.deliver).toHaveBeenCalled();
+  });
+
+  it('should skip delivery without recipients', async () => {
+    const inApp = stub('in-app');
+    await new FanOutChannel([inApp]).deliver([], message);
+    expect(inApp.deliver).not.toHaveBeenCalled();
+  });
+});
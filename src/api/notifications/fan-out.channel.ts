@@ -0,0 +1,33 @@
+import { Logger } from '@nestjs/common';
+import { User } from '../entities/user.entity';
+import {
+  NotificationChannel,
+  NotificationMessage,
+} from './notification-channel';
+
+/**
+ * Delivers through every channel. A failing channel is logged and does
+ * not keep the others from delivering.
+ */
+export class FanOutChannel extends NotificationChannel {
+  readonly name: string;
+  private readonly logger = new Logger(FanOutChannel.name);
+
+  constructor(private readonly channels: NotificationChannel[]) {
+    super();
+    this.name = `fan-out(${channels.map((c) => c.name).join(',')})`;
+  }
+
+  async deliver(recipients: User[], message: NotificationMessage) {
+    if (recipients.length === 0) return;
+    for (const channel of this.channels) {
+      try {
+        await channel.deliver(recipients, message);
+      } catch (error: any) {
+        this.logger.warn(
+          `Channel "${channel.name}" failed to deliver ${message.type}: ${error.message}`,
+        );
+      }
+    }
+  }
+}
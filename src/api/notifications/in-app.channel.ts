@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Notification } from '../entities/notification.entity';
+import { User } from '../entities/user.entity';
+import {
+  NotificationChannel,
+  NotificationMessage,
+} from './notification-channel';
+
+/** Stores the notification for GET /notifications. */
+@Injectable()
+export class InAppChannel extends NotificationChannel {
+  readonly name = 'in-app';
+
+  constructor(
+    @InjectRepository(Notification)
+    private notificationRepository: Repository<Notification>,
+  ) {
+    super();
+  }
+
+  async deliver(recipients: User[], message: NotificationMessage) {
+    await this.notificationRepository.insert(
+      recipients.map((user) => ({
+        userId: user.id,
+        type: message.type,
+        title: message.title,
+        body: message.body ?? null,
+        data: message.data ?? {},
+      })),
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NotificationType } from '../entities/notification.entity';
+import { User } from '../entities/user.entity';
+
+export interface NotificationMessage {
+  type: NotificationType;
+  title: string;
+  body?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Delivery channel contract. Declared as an abstract class rather than an
+ * interface so it can double as the Nest injection token.
+ */
+export abstract class NotificationChannel {
+  abstract readonly name: string;
+
+  abstract deliver(
+    recipients: User[],
+    message: NotificationMessage,
+  ): Promise<void>;
+}
@@ -0,0 +1,57 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Notification } from '../entities/notification.entity';
+import { MailModule } from '../mail/mail.module';
+import { NotificationChannel } from './notification-channel';
+import { InAppChannel } from './in-app.channel';
+import { EmailChannel } from './email.channel';
+import { FanOutChannel } from './fan-out.channel';
+
+const DEFAULT_CHANNELS = 'in-app';
+
+/**
+ * Provides NotificationChannel as a fan-out over the channels named in
+ * NOTIFICATION_CHANNELS, e.g. "in-app,email".
+ */
+@Module({
+  imports: [ConfigModule, MailModule, TypeOrmModule.forFeature([Notification])],
+  providers: [
+    InAppChannel,
+    EmailChannel,
+    {
+      provide: NotificationChannel,
+      useFactory: (
+        configService: ConfigService,
+        inApp: InAppChannel,
+        email: EmailChannel,
+      ) => {
+        const available: Record<string, NotificationChannel> = {
+          'in-app': inApp,
+          email,
+        };
+        const names = (
+          configService.get<string>('NOTIFICATION_CHANNELS') || DEFAULT_CHANNELS
+        )
+          .split(',')
+          .map((n) => n.trim().toLowerCase())
+          .filter(Boolean);
+
+        const channels = names
+          .map((n) => {
+            if (!available[n]) {
+              new Logger('NotificationsModule').warn(
+                `Unknown notification channel "${n}" ignored`,
+              );
+            }
+            return available[n];
+          })
+          .filter(Boolean);
+        return new FanOutChannel(channels);
+      },
+      inject: [ConfigService, InAppChannel, EmailChannel],
+    },
+  ],
+  exports: [NotificationChannel],
+})
+export class NotificationsModule {}
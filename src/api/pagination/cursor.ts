@@ -0,0 +1,73 @@
+import { BadRequestException } from '@nestjs/common';
+
+/** Envelope returned by cursor-paginated list endpoints. */
+export interface CursorPage<T> {
+  items: T[];
+  /** Pass back as `cursor` to get the next page; null on the last page. */
+  nextCursor: string | null;
+  total?: number;
+}
+
+/**
+ * Encode keyset position (sort key values plus id) as an opaque,
+ * URL-safe cursor. Clients must not rely on its contents.
+ */
+export function encodeCursor(payload: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+}
+
+export function decodeCursor<T extends Record<string, unknown>>(
+  cursor: string,
+): T {
+  try {
+    const payload = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    );
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      throw new Error('not an object');
+    }
+    return payload as T;
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+}
+
+/** SQL types a cursor value is cast to. */
+export type CursorValueType = 'timestamp' | 'float8' | 'int' | 'text' | 'uuid';
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isCastable(value: unknown, type: CursorValueType): boolean {
+  if (typeof value === 'number') {
+    return type === 'int'
+      ? Number.isSafeInteger(value)
+      : type === 'float8' && Number.isFinite(value);
+  }
+  if (typeof value !== 'string') return false;
+  switch (type) {
+    case 'text':
+      return true;
+    case 'uuid':
+      return UUID_PATTERN.test(value);
+    case 'int':
+      return /^-?\d{1,15}$/.test(value);
+    case 'float8':
+      return value.trim() !== '' && Number.isFinite(Number(value));
+    case 'timestamp':
+      return !Number.isNaN(Date.parse(value));
+  }
+}
+
+/**
+ * Check that the values decoded from a cursor can be cast to the types
+ * the query expects. Cursors come from clients, and a tampered one must
+ * be a 400 rather than a failed cast in Postgres.
+ */
+export function assertCursorValues(values: [unknown, CursorValueType][]): void {
+  for (const [value, type] of values) {
+    if (!isCastable(value, type)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { BadRequestException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { paginate, PaginateOptions } from './paginate';
+import { decodeCursor, encodeCursor } from './cursor';
+
+interface Row {
+  id: number;
+  status: string;
+  createdAt: Date;
+}
+
+describe('paginate', () => {
+  const qb = {
+    escape: jest.fn((name: string) => `"${name}"`),
+    select: jest.fn(),
+    addSelect: jest.fn(),
+    where: jest.fn(),
+    andWhere: jest.fn(),
+    orderBy: jest.fn(),
+    addOrderBy: jest.fn(),
+    limit: jest.fn(),
+    getRawMany: jest.fn(),
+  };
+  const mockRepo = {
+    createQueryBuilder: jest.fn(() => qb),
+    find: jest.fn(),
+    count: jest.fn(),
+  };
+  const repo = mockRepo as unknown as Repository<Row>;
+  const options: PaginateOptions<Row> = {
+    sortColumn: 'createdAt',
+    sortType: 'timestamp',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    for (const fn of [
+      qb.select,
+      qb.addSelect,
+      qb.where,
+      qb.andWhere,
+      qb.orderBy,
+      qb.addOrderBy,
+      qb.limit,
+    ]) {
+      fn.mockReturnValue(qb);
+    }
+  });
+
+  it('should return the page in sort order with a cursor to the next one', async () => {
+    qb.getRawMany.mockResolvedValue([
+      { id: 3, sort_value: '2024-03-01 10:00:00.123' },
+      { id: 2, sort_value: '2024-02-01 10:00:00' },
+      { id: 1, sort_value: '2024-01-01 10:00:00' },
+    ]);
+    mockRepo.find.mockResolvedValue([{ id: 2 }, { id: 3 }]);
+
+    const result = await paginate(repo, { limit: 2 }, options);
+
+    expect(result.items).toEqual([{ id: 3 }, { id: 2 }]);
+    expect(decodeCursor(result.nextCursor!)).toEqual({
+      value: '2024-02-01 10:00:00',
+      id: 2,
+    });
+    expect(result.total).toBeUndefined();
+    expect(qb.limit).toHaveBeenCalledWith(3);
+    expect(qb.andWhere).not.toHaveBeenCalled();
+  });
+
+  it('should continue after the cursor position', async () => {
+    qb.getRawMany.mockResolvedValue([{ id: 1, sort_value: '2024-01-01' }]);
+    mockRepo.find.mockResolvedValue([{ id: 1 }]);
+    const cursor = encodeCursor({ value: '2024-02-01 10:00:00', id: 2 });
+
+    const result = await paginate(repo, { cursor }, options);
+
+    expect(qb.andWhere).toHaveBeenCalledWith(
+      expect.stringContaining('< (CAST(:cursorValue AS timestamp), :cursorId)'),
+      { cursorValue: '2024-02-01 10:00:00', cursorId: 2 },
+    );
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('should count all matching rows when the total is requested', async () => {
+    qb.getRawMany.mockResolvedValue([]);
+    mockRepo.count.mockResolvedValue(42);
+    const where = { status: 'pending' };
+
+    const result = await paginate(
+      repo,
+      { includeTotal: true },
+      { ...options, where },
+    );
+
+    expect(result).toEqual({ items: [], nextCursor: null, total: 42 });
+    expect(qb.where).toHaveBeenCalledWith(where);
+    expect(mockRepo.count).toHaveBeenCalledWith({ where });
+    expect(mockRepo.find).not.toHaveBeenCalled();
+  });
+
+  it('should reject a malformed cursor', async () => {
+    await expect(
+      paginate(repo, { cursor: 'not-a-cursor' }, options),
+    ).rejects.toThrow(BadRequestException);
+    expect(qb.getRawMany).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    { value: 'yesterday', id: 2 },
+    { value: '2024-02-01 10:00:00', id: 'not-a-uuid' },
+    { value: '2024-02-01 10:00:00', id: 2.5 },
+  ])('should reject a cursor with values of the wrong type: %j', async (c) => {
+    await expect(
+      paginate(repo, { cursor: encodeCursor(c) }, options),
+    ).rejects.toThrow(BadRequestException);
+    expect(qb.getRawMany).not.toHaveBeenCalled();
+  });
+});
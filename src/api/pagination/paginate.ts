@@ -0,0 +1,107 @@
+import { FindOptionsWhere, In, Repository } from 'typeorm';
+import { CursorPageQueryDto, DEFAULT_PAGE_LIMIT } from '../dtos/pagination.dto';
+import {
+  CursorPage,
+  assertCursorValues,
+  decodeCursor,
+  encodeCursor,
+} from './cursor';
+
+export interface PaginateOptions<T> {
+  /** Column to sort by; ties are broken by the primary key `id`. */
+  sortColumn: keyof T & string;
+  /** SQL type of the sort column, used to cast the cursor value back. */
+  sortType: 'timestamp' | 'float8' | 'int' | 'text';
+  direction?: 'ASC' | 'DESC';
+  where?: FindOptionsWhere<T>;
+  relations?: string[];
+  select?: (keyof T & string)[];
+  /** Include soft-deleted rows. */
+  withDeleted?: boolean;
+}
+
+interface KeysetCursor extends Record<string, unknown> {
+  value: string;
+  id: string | number;
+}
+
+/**
+ * Keyset pagination over a repository. The page of ids is selected first
+ * (sort key + id, no joins), then the entities are loaded with their
+ * relations and returned in page order.
+ *
+ * Timestamps are compared at millisecond precision: Postgres keeps
+ * microseconds, which would not survive the cursor round-trip otherwise.
+ */
+export async function paginate<T extends { id: string | number }>(
+  repository: Repository<T>,
+  page: CursorPageQueryDto,
+  options: PaginateOptions<T>,
+): Promise<CursorPage<T>> {
+  const limit = page.limit ?? DEFAULT_PAGE_LIMIT;
+  const direction = options.direction ?? 'DESC';
+
+  const qb = repository.createQueryBuilder('e');
+  const idColumn = `${qb.escape('e')}.${qb.escape('id')}`;
+  const column = `${qb.escape('e')}.${qb.escape(options.sortColumn)}`;
+  const sortExpr =
+    options.sortType === 'timestamp'
+      ? `date_trunc('milliseconds', ${column})`
+      : column;
+
+  qb.select(idColumn, 'id').addSelect(`${sortExpr}::text`, 'sort_value');
+  if (options.withDeleted) {
+    qb.withDeleted();
+  }
+  if (options.where) {
+    qb.where(options.where);
+  }
+
+  if (page.cursor) {
+    const cursor = decodeCursor<KeysetCursor>(page.cursor);
+    assertCursorValues([
+      [cursor.value, options.sortType],
+      [cursor.id, typeof cursor.id === 'number' ? 'int' : 'uuid'],
+    ]);
+    const op = direction === 'DESC' ? '<' : '>';
+    qb.andWhere(
+      `(${sortExpr}, ${idColumn}) ${op} (CAST(:cursorValue AS ${options.sortType}), :cursorId)`,
+      { cursorValue: cursor.value, cursorId: cursor.id },
+    );
+  }
+
+  const rows: { id: string | number; sort_value: string }[] = await qb
+    .orderBy(sortExpr, direction)
+    .addOrderBy(idColumn, direction)
+    .limit(limit + 1)
+    .getRawMany();
+
+  const pageRows = rows.slice(0, limit);
+  const ids = pageRows.map((r) => r.id);
+  const entities =
+    ids.length > 0
+      ? await repository.find({
+          where: { id: In(ids) } as FindOptionsWhere<T>,
+          relations: options.relations,
+          withDeleted: options.withDeleted,
+          ...(options.select ? { select: options.select } : {}),
+        })
+      : [];
+  const byId = new Map(entities.map((e) => [String(e.id), e]));
+
+  const last = pageRows[pageRows.length - 1];
+  const result: CursorPage<T> = {
+    items: ids.map((id) => byId.get(String(id))).filter(Boolean) as T[],
+    nextCursor:
+      rows.length > limit
+        ? encodeCursor({ value: last.sort_value, id: last.id })
+        : null,
+  };
+  if (page.includeTotal) {
+    result.total = await repository.count({
+      where: options.where,
+      withDeleted: options.withDeleted,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,73 @@
+import { Person } from '../entities/person.entity';
+import { RevisionSource } from '../entities/person-revision.entity';
+import {
+  isFieldLocked,
+  setFieldLocks,
+  stampProvenance,
+} from './field-provenance';
+
+describe('field provenance', () => {
+  const lockedEntry = {
+    source: RevisionSource.PROPOSED_EDIT,
+    setAt: '2026-01-01T00:00:00.000Z',
+    actorId: 3,
+    locked: true,
+  };
+
+  describe('stampProvenance', () => {
+    it('should lock fields written by people', () => {
+      const result = stampProvenance({}, ['summary'], RevisionSource.MANUAL, 7);
+      expect(result.summary).toMatchObject({
+        source: RevisionSource.MANUAL,
+        actorId: 7,
+        locked: true,
+      });
+    });
+
+    it('should leave sync writes unlocked and ignore untracked fields', () => {
+      const result = stampProvenance(
+        { name: lockedEntry },
+        ['summary', 'views'],
+        RevisionSource.WIKIPEDIA_SYNC,
+      );
+      expect(result.summary.locked).toBe(false);
+      expect(result.name).toBe(lockedEntry);
+      expect(result).not.toHaveProperty('views');
+    });
+  });
+
+  describe('isFieldLocked', () => {
+    it('should follow the per-field lock', () => {
+      const person: Partial<Person> = { provenance: { summary: lockedEntry } };
+      expect(isFieldLocked(person, 'summary')).toBe(true);
+      expect(isFieldLocked(person, 'imageUrl')).toBe(false);
+    });
+
+    it('should lock fields derived from a locked field', () => {
+      const person: Partial<Person> = {
+        provenance: { birthPlace: lockedEntry },
+      };
+      expect(isFieldLocked(person, 'birthOblast')).toBe(true);
+    });
+
+    it('should treat untracked fields of manual records as locked', () => {
+      const person: Partial<Person> = {
+        isManual: true,
+        provenance: { imageUrl: { ...lockedEntry, locked: false } },
+      };
+      expect(isFieldLocked(person, 'summary')).toBe(true);
+      expect(isFieldLocked(person, 'imageUrl')).toBe(false);
+    });
+  });
+
+  describe('setFieldLocks', () => {
+    it('should keep the source of a field when locking it', () => {
+      const result = setFieldLocks(
+        { summary: { ...lockedEntry, locked: false } },
+        ['summary'],
+        true,
+      );
+      expect(result.summary).toEqual(lockedEntry);
+    });
+  });
+});
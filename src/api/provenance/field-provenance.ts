@@ -0,0 +1,87 @@
+import { FieldProvenance, Person } from '../entities/person.entity';
+import { RevisionSource } from '../entities/person-revision.entity';
+import { REVISION_FIELDS } from '../services/person-revisions.service';
+
+/** Person fields that carry provenance and can be locked. */
+export const PROVENANCE_FIELDS: (keyof Person)[] = REVISION_FIELDS.filter(
+  (field) => field !== 'isManual',
+);
+
+/**
+ * Fields computed from another one. They count as locked whenever their
+ * source field is, so a curated birth place keeps its oblast.
+ */
+const DERIVED_FROM: Partial<Record<keyof Person, keyof Person>> = {
+  birthYear: 'birthDate',
+  birthOblast: 'birthPlace',
+  birthCountryModern: 'birthPlace',
+  lng: 'lat',
+  lat: 'lng',
+  deathLng: 'deathLat',
+  deathLat: 'deathLng',
+};
+
+/** Sources whose writes are locked against sync by default. */
+const LOCKING_SOURCES = new Set([
+  RevisionSource.MANUAL,
+  RevisionSource.PROPOSED_EDIT,
+  RevisionSource.ROLLBACK,
+]);
+
+function isOwnFieldLocked(person: Partial<Person>, field: string): boolean {
+  const entry = person.provenance?.[field];
+  // Fields of manual records without provenance predate field locking,
+  // when the whole record was protected.
+  return entry ? entry.locked : !!person.isManual;
+}
+
+export function isFieldLocked(
+  person: Partial<Person>,
+  field: keyof Person,
+): boolean {
+  const parent = DERIVED_FROM[field];
+  return (
+    isOwnFieldLocked(person, field) ||
+    (parent != null && isOwnFieldLocked(person, parent))
+  );
+}
+
+/**
+ * Return a copy of `provenance` with `fields` attributed to `source`.
+ * Writes by people lock the field; sync writes leave it unlocked.
+ */
+export function stampProvenance(
+  provenance: Record<string, FieldProvenance> | null | undefined,
+  fields: string[],
+  source: RevisionSource,
+  actorId: number | null = null,
+): Record<string, FieldProvenance> {
+  const next = { ...(provenance ?? {}) };
+  const setAt = new Date().toISOString();
+  for (const field of fields) {
+    if (!PROVENANCE_FIELDS.includes(field as keyof Person)) continue;
+    next[field] = {
+      source,
+      setAt,
+      actorId,
+      locked: LOCKING_SOURCES.has(source),
+    };
+  }
+  return next;
+}
+
+/** Lock or unlock fields without changing who set them. */
+export function setFieldLocks(
+  provenance: Record<string, FieldProvenance> | null | undefined,
+  fields: string[],
+  locked: boolean,
+): Record<string, FieldProvenance> {
+  const next = { ...(provenance ?? {}) };
+  for (const field of fields) {
+    next[field] = {
+      ...(next[field] ?? { source: null, setAt: null, actorId: null }),
+      locked,
+    };
+  }
+  return next;
+}
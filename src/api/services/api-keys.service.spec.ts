@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { API_KEY_PREFIX, ApiKeysService } from './api-keys.service';
+import { ApiKey, ApiKeyScope } from '../entities/api-key.entity';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+  const mockKeyRepo = {
+    count: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((k) => k),
+    save: jest.fn(async (k) => ({ id: 1, ...k })),
+    update: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        { provide: getRepositoryToken(ApiKey), useValue: mockKeyRepo },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+    jest.clearAllMocks();
+    mockKeyRepo.count.mockResolvedValue(0);
+  });
+
+  describe('create', () => {
+    it('should return the key once and store only its hash', async () => {
+      const { apiKey, key } = await service.create(5, {
+        name: 'nightly export',
+        scope: ApiKeyScope.READ_ONLY,
+      });
+
+      expect(key.startsWith(API_KEY_PREFIX)).toBe(true);
+      expect(apiKey).not.toHaveProperty('keyHash');
+      expect(apiKey.prefix).toBe(key.slice(0, apiKey.prefix.length));
+      const stored = mockKeyRepo.save.mock.calls[0][0];
+      expect(stored.keyHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(stored).toEqual(
+        expect.objectContaining({ userId: 5, scope: ApiKeyScope.READ_ONLY }),
+      );
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(
+        service.create(5, { name: 'old', expiresAt: '2000-01-01T00:00:00Z' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should cap the number of active keys', async () => {
+      mockKeyRepo.count.mockResolvedValue(20);
+      await expect(service.create(5, { name: 'one more' })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockKeyRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validate', () => {
+    it('should return an active key and record its use', async () => {
+      mockKeyRepo.findOne.mockResolvedValue({
+        id: 3,
+        expiresAt: null,
+        lastUsedAt: null,
+        user: { id: 5 },
+      });
+
+      const apiKey = await service.validate(`${API_KEY_PREFIX}secret`);
+      expect(apiKey.user.id).toBe(5);
+      expect(mockKeyRepo.update).toHaveBeenCalledWith(3, {
+        lastUsedAt: expect.any(Date),
+      });
+    });
+
+    it('should not write lastUsedAt on every request', async () => {
+      mockKeyRepo.findOne.mockResolvedValue({
+        id: 3,
+        expiresAt: null,
+        lastUsedAt: new Date(),
+        user: { id: 5 },
+      });
+
+      await service.validate(`${API_KEY_PREFIX}secret`);
+      expect(mockKeyRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired key', async () => {
+      mockKeyRepo.findOne.mockResolvedValue({
+        id: 3,
+        expiresAt: new Date(Date.now() - 1000),
+        user: { id: 5 },
+      });
+      expect(await service.validate(`${API_KEY_PREFIX}secret`)).toBeNull();
+    });
+  });
+
+  describe('revokeAllForUser', () => {
+    it('should revoke only active keys of the user', async () => {
+      mockKeyRepo.update.mockResolvedValue({ affected: 2 });
+      await expect(service.revokeAllForUser(5)).resolves.toBe(2);
+      expect(mockKeyRepo.update).toHaveBeenCalledWith(
+        { userId: 5, revokedAt: expect.anything() },
+        { revokedAt: expect.any(Date) },
+      );
+    });
+  });
+
+  describe('revoke', () => {
+    it("should not revoke someone else's key", async () => {
+      mockKeyRepo.findOne.mockResolvedValue(null);
+      await expect(service.revoke(5, 3)).rejects.toThrow(NotFoundException);
+      expect(mockKeyRepo.findOne).toHaveBeenCalledWith({
+        where: { id: 3, userId: 5 },
+      });
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { ApiKey, ApiKeyScope } from '../entities/api-key.entity';
+import { CreateApiKeyDto } from '../dtos/api-key.dto';
+
+/** Marks a bearer token as an API key rather than a JWT. */
+export const API_KEY_PREFIX = 'ukm_';
+
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  /** The full key. It is not stored and cannot be shown again. */
+  key: string;
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+@Injectable()
+export class ApiKeysService {
+  private readonly MAX_KEYS_PER_USER = 20;
+  /** lastUsedAt is only written when older than this, not on every request. */
+  private readonly LAST_USED_PRECISION_MS = 60 * 1000;
+
+  constructor(
+    @InjectRepository(ApiKey)
+    private apiKeyRepository: Repository<ApiKey>,
+  ) {}
+
+  async create(userId: number, dto: CreateApiKeyDto): Promise<CreatedApiKey> {
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+    const active = await this.apiKeyRepository.count({
+      where: { userId, revokedAt: IsNull() },
+    });
+    if (active >= this.MAX_KEYS_PER_USER) {
+      throw new BadRequestException(
+        `You can have at most ${this.MAX_KEYS_PER_USER} API keys; revoke one first`,
+      );
+    }
+
+    const key = API_KEY_PREFIX + randomBytes(32).toString('base64url');
+    const saved = await this.apiKeyRepository.save(
+      this.apiKeyRepository.create({
+        userId,
+        name: dto.name,
+        prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+        keyHash: hashKey(key),
+        scope: dto.scope ?? ApiKeyScope.FULL,
+        expiresAt,
+      }),
+    );
+    delete saved.keyHash;
+    return { apiKey: saved, key };
+  }
+
+  /** The user's keys, revoked ones included, newest first. */
+  async findForUser(userId: number): Promise<ApiKey[]> {
+    return this.apiKeyRepository.find({
+      where: { userId },
+      order: { id: 'DESC' },
+    });
+  }
+
+  async revoke(userId: number, id: number): Promise<void> {
+    const apiKey = await this.apiKeyRepository.findOne({
+      where: { id, userId },
+    });
+    if (!apiKey) {
+      throw new NotFoundException(`API key with id ${id} not found`);
+    }
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date();
+      await this.apiKeyRepository.save(apiKey);
+    }
+  }
+
+  /** Revoke every active key of the user; returns how many. */
+  async revokeAllForUser(userId: number): Promise<number> {
+    const result = await this.apiKeyRepository.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    return result.affected ?? 0;
+  }
+
+  /**
+   * The active key with its owner, or null when the key is unknown,
+   * revoked or expired. Records when the key was used.
+   */
+  async validate(key: string): Promise<ApiKey | null> {
+    const apiKey = await this.apiKeyRepository.findOne({
+      where: { keyHash: hashKey(key), revokedAt: IsNull() },
+      relations: ['user'],
+    });
+    if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+      return null;
+    }
+
+    const now = new Date();
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() > this.LAST_USED_PRECISION_MS
+    ) {
+      await this.apiKeyRepository.update(apiKey.id, { lastUsedAt: now });
+      apiKey.lastUsedAt = now;
+    }
+    return apiKey;
+  }
+}
@@ -0,0 +1,74 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, MoreThan, Repository } from 'typeorm';
+import { AuthEvent, AuthEventType } from '../entities/auth-event.entity';
+import { ClientInfo } from '../auth/client-info.decorator';
+import { CursorPageQueryDto } from '../dtos/pagination.dto';
+import { CursorPage } from '../pagination/cursor';
+import { paginate } from '../pagination/paginate';
+
+export interface AuthEventDetails {
+  userId?: number | null;
+  email?: string | null;
+  client?: ClientInfo;
+  data?: Record<string, unknown>;
+}
+
+export interface AuthEventFilters {
+  userId?: number;
+  type?: AuthEventType;
+  ip?: string;
+}
+
+@Injectable()
+export class AuthAuditService {
+  private readonly logger = new Logger(AuthAuditService.name);
+
+  constructor(
+    @InjectRepository(AuthEvent)
+    private authEventRepository: Repository<AuthEvent>,
+  ) {}
+
+  /** Never throws: a failed audit write must not fail the sign-in itself. */
+  async record(type: AuthEventType, details: AuthEventDetails = {}) {
+    try {
+      await this.authEventRepository.insert({
+        type,
+        userId: details.userId ?? null,
+        email: details.email ?? null,
+        ip: details.client?.ip ?? null,
+        userAgent: details.client?.userAgent?.slice(0, 500) ?? null,
+        data: details.data ?? null,
+      });
+    } catch (error: any) {
+      this.logger.error(`Could not record ${type} event: ${error.message}`);
+    }
+  }
+
+  /** Failed logins from one IP within the last `minutes`. */
+  async countRecentFailures(ip: string, minutes: number): Promise<number> {
+    return this.authEventRepository.count({
+      where: {
+        ip,
+        type: AuthEventType.LOGIN_FAILED,
+        createdAt: MoreThan(new Date(Date.now() - minutes * 60 * 1000)),
+      },
+    });
+  }
+
+  /** Newest first. */
+  async findAll(
+    filters: AuthEventFilters = {},
+    page: CursorPageQueryDto = {},
+  ): Promise<CursorPage<AuthEvent>> {
+    const where: FindOptionsWhere<AuthEvent> = {};
+    if (filters.userId != null) where.userId = filters.userId;
+    if (filters.type) where.type = filters.type;
+    if (filters.ip) where.ip = filters.ip;
+    return paginate(this.authEventRepository, page, {
+      sortColumn: 'id',
+      sortType: 'int',
+      where,
+    });
+  }
+}
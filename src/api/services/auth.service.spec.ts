@@ -1,9 +1,23 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { JwtService } from '@nestjs/jwt';
-import { ConflictException } from '@nestjs/common';
-import { AuthService } from './auth.service';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { AuthService, loginDelay } from './auth.service';
+import { AuthAuditService } from './auth-audit.service';
+import { ApiKeysService } from './api-keys.service';
+import { AuthEventType } from '../entities/auth-event.entity';
 import { User, UserRole, UserPersona } from '../entities/user.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { UserToken, UserTokenPurpose } from '../entities/user-token.entity';
+import { MailTransport } from '../mail/mail-transport';
+import { MemoryMailTransport } from '../mail/memory.transport';
 import * as bcrypt from 'bcrypt';
 
 jest.mock('bcrypt');
@@ -15,6 +29,9 @@ const mockUser: Partial<User> = {
   password: 'hashedpassword',
   role: UserRole.USER,
   persona: UserPersona.STUDENT,
+  tokenVersion: 2,
+  failedLoginAttempts: 0,
+  lockedUntil: null,
 };
 
 describe('AuthService', () => {
@@ -23,23 +40,60 @@ describe('AuthService', () => {
     findOne: jest.fn(),
     create: jest.fn(),
     save: jest.fn(),
+    update: jest.fn(),
+    increment: jest.fn(),
+    findOneByOrFail: jest.fn(),
+    query: jest.fn(),
   };
+  const mockTokenRepo = {
+    findOne: jest.fn(),
+    create: jest.fn((t) => t),
+    save: jest.fn(async (t) => t),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+  const mockUserTokenRepo = {
+    findOne: jest.fn(),
+    create: jest.fn((t) => t),
+    save: jest.fn(async (t) => t),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+  const mockApiKeys = {
+    revokeAllForUser: jest.fn().mockResolvedValue(0),
+  };
+  const mockAudit = {
+    record: jest.fn(),
+    countRecentFailures: jest.fn().mockResolvedValue(0),
+  };
+  let mail: MemoryMailTransport;
   const mockJwtService = {
     sign: jest.fn().mockReturnValue('mock-jwt-token'),
   };
 
   beforeEach(async () => {
+    mail = new MemoryMailTransport();
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AuthService,
         { provide: getRepositoryToken(User), useValue: mockRepo },
+        { provide: getRepositoryToken(RefreshToken), useValue: mockTokenRepo },
+        {
+          provide: getRepositoryToken(UserToken),
+          useValue: mockUserTokenRepo,
+        },
+        { provide: MailTransport, useValue: mail },
+        { provide: AuthAuditService, useValue: mockAudit },
+        { provide: ApiKeysService, useValue: mockApiKeys },
         { provide: JwtService, useValue: mockJwtService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
       ],
     }).compile();
 
     service = module.get<AuthService>(AuthService);
     jest.clearAllMocks();
     mockJwtService.sign.mockReturnValue('mock-jwt-token');
+    mockAudit.countRecentFailures.mockResolvedValue(0);
   });
 
   describe('validateUser', () => {
@@ -68,10 +122,159 @@ describe('AuthService', () => {
     });
   });
 
+  describe('authenticate', () => {
+    const client = { ip: '203.0.113.7', userAgent: 'jest' };
+
+    it('should log in and reset earlier failures', async () => {
+      mockRepo.findOne.mockResolvedValue({
+        ...mockUser,
+        failedLoginAttempts: 2,
+      });
+      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+
+      const result = await service.authenticate(
+        'test@example.com',
+        'password',
+        client,
+      );
+      expect(result.accessToken).toBe('mock-jwt-token');
+      expect(mockRepo.update).toHaveBeenCalledWith(1, {
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      });
+      expect(mockAudit.record).toHaveBeenCalledWith(
+        AuthEventType.LOGIN_SUCCEEDED,
+        expect.objectContaining({ userId: 1, client }),
+      );
+    });
+
+    it('should answer a wrong password with 401 and count it', async () => {
+      mockRepo.findOne.mockResolvedValue(mockUser);
+      mockRepo.query.mockResolvedValue([[{ failedLoginAttempts: 1 }], 1]);
+      (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+
+      await expect(
+        service.authenticate('test@example.com', 'wrong', client),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockRepo.query).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '"failedLoginAttempts" = "failedLoginAttempts" + 1',
+        ),
+        [1],
+      );
+      expect(mockRepo.update).not.toHaveBeenCalled();
+      expect(mockAudit.record).toHaveBeenCalledWith(
+        AuthEventType.LOGIN_FAILED,
+        expect.objectContaining({ userId: 1, email: 'test@example.com' }),
+      );
+    });
+
+    it('should answer an unknown email with the same 401', async () => {
+      mockRepo.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.authenticate('no@user.com', 'password', client),
+      ).rejects.toThrow('Invalid credentials');
+      expect(mockRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('should lock the account when the stored count reaches the limit', async () => {
+      jest.useFakeTimers();
+      try {
+        // Read before concurrent failures were counted.
+        mockRepo.findOne.mockResolvedValue({
+          ...mockUser,
+          failedLoginAttempts: 3,
+        });
+        mockRepo.query.mockResolvedValue([[{ failedLoginAttempts: 10 }], 1]);
+        (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+
+        const attempt = service.authenticate('test@example.com', 'wrong');
+        const assertion = expect(attempt).rejects.toThrow(
+          UnauthorizedException,
+        );
+        await jest.runAllTimersAsync();
+        await assertion;
+      } finally {
+        jest.useRealTimers();
+      }
+      expect(mockRepo.update).toHaveBeenCalledWith(1, {
+        lockedUntil: expect.any(Date),
+      });
+      expect(mockAudit.record).toHaveBeenCalledWith(
+        AuthEventType.ACCOUNT_LOCKED,
+        expect.objectContaining({ userId: 1 }),
+      );
+    });
+
+    it('should refuse a locked account without checking the password', async () => {
+      mockRepo.findOne.mockResolvedValue({
+        ...mockUser,
+        lockedUntil: new Date(Date.now() + 60_000),
+      });
+
+      const error = await service
+        .authenticate('test@example.com', 'password', client)
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(HttpException);
+      expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      expect(bcrypt.compare).not.toHaveBeenCalled();
+      expect(mockAudit.record).toHaveBeenCalledWith(
+        AuthEventType.LOGIN_BLOCKED,
+        expect.objectContaining({ data: { reason: 'account_locked' } }),
+      );
+    });
+
+    it('should refuse an IP with too many recent failures', async () => {
+      mockAudit.countRecentFailures.mockResolvedValue(50);
+      mockRepo.findOne.mockResolvedValue(mockUser);
+
+      await expect(
+        service.authenticate('test@example.com', 'password', client),
+      ).rejects.toThrow(HttpException);
+      expect(mockAudit.countRecentFailures).toHaveBeenCalledWith(
+        '203.0.113.7',
+        15,
+      );
+      expect(bcrypt.compare).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loginDelay', () => {
+    it('should not slow down the first few attempts', () => {
+      expect(loginDelay(0)).toBe(0);
+      expect(loginDelay(2)).toBe(0);
+    });
+
+    it('should double the delay up to a cap', () => {
+      expect(loginDelay(3)).toBe(500);
+      expect(loginDelay(4)).toBe(1000);
+      expect(loginDelay(5)).toBe(2000);
+      expect(loginDelay(30)).toBe(8000);
+    });
+  });
+
+  describe('unlock', () => {
+    it('should clear the lockout and audit who lifted it', async () => {
+      mockRepo.findOneByOrFail.mockResolvedValue(mockUser);
+
+      await service.unlock(1, 9);
+      expect(mockRepo.update).toHaveBeenCalledWith(1, {
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      });
+      expect(mockAudit.record).toHaveBeenCalledWith(
+        AuthEventType.ACCOUNT_UNLOCKED,
+        { userId: 1, data: { by: 9 } },
+      );
+    });
+  });
+
   describe('login', () => {
     it('should return access token and user info', async () => {
       const result = await service.login(mockUser as User);
       expect(result.accessToken).toBe('mock-jwt-token');
+      expect(result.refreshToken).toEqual(expect.any(String));
       expect(result.user.email).toBe('test@example.com');
       expect(result.user.username).toBe('testuser');
       expect(mockJwtService.sign).toHaveBeenCalledWith(
@@ -79,9 +282,95 @@ describe('AuthService', () => {
           email: 'test@example.com',
           sub: 1,
           role: UserRole.USER,
+          ver: 2,
         }),
       );
     });
+
+    it('should store only a hash of the refresh token', async () => {
+      const result = await service.login(mockUser as User);
+      const stored = mockTokenRepo.save.mock.calls[0][0];
+      expect(stored.userId).toBe(1);
+      expect(stored.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(stored.tokenHash).not.toBe(result.refreshToken);
+      expect(stored.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('refresh', () => {
+    const stored = (overrides = {}) => ({
+      id: 'token-1',
+      familyId: 'family-1',
+      userId: 1,
+      user: mockUser,
+      expiresAt: new Date(Date.now() + 60_000),
+      revokedAt: null,
+      ...overrides,
+    });
+
+    it('should rotate the token within the same session', async () => {
+      mockTokenRepo.findOne.mockResolvedValue(stored());
+      mockTokenRepo.update.mockResolvedValue({ affected: 1 });
+
+      const result = await service.refresh('old-token');
+      expect(result.accessToken).toBe('mock-jwt-token');
+      expect(mockTokenRepo.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'token-1' }),
+        { revokedAt: expect.any(Date) },
+      );
+      expect(mockTokenRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ familyId: 'family-1', userId: 1 }),
+      );
+    });
+
+    it('should revoke the whole session when a token is reused', async () => {
+      mockTokenRepo.findOne.mockResolvedValue(
+        stored({ revokedAt: new Date() }),
+      );
+      mockTokenRepo.update.mockResolvedValue({ affected: 0 });
+
+      await expect(service.refresh('old-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockTokenRepo.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({ familyId: 'family-1' }),
+        { revokedAt: expect.any(Date) },
+      );
+      expect(mockTokenRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired token', async () => {
+      mockTokenRepo.findOne.mockResolvedValue(
+        stored({ expiresAt: new Date(Date.now() - 1000) }),
+      );
+      await expect(service.refresh('old-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockTokenRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown token', async () => {
+      mockTokenRepo.findOne.mockResolvedValue(null);
+      await expect(service.refresh('nope')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('revokeAllSessions', () => {
+    it('should revoke refresh tokens and API keys and bump the token version', async () => {
+      mockTokenRepo.update.mockResolvedValue({ affected: 3 });
+      mockApiKeys.revokeAllForUser.mockResolvedValueOnce(2);
+
+      const result = await service.revokeAllSessions(1);
+      expect(result).toEqual({ revoked: 3, apiKeysRevoked: 2 });
+      expect(mockApiKeys.revokeAllForUser).toHaveBeenCalledWith(1);
+      expect(mockRepo.increment).toHaveBeenCalledWith(
+        { id: 1 },
+        'tokenVersion',
+        1,
+      );
+    });
   });
 
   describe('register', () => {
@@ -101,9 +390,45 @@ describe('AuthService', () => {
       });
 
       expect(result.accessToken).toBe('mock-jwt-token');
+      expect(result.user.verified).toBe(false);
       expect(mockRepo.create).toHaveBeenCalled();
     });
 
+    it('should mail a verification link with the stored token', async () => {
+      mockRepo.findOne.mockResolvedValue(null);
+      mockRepo.create.mockReturnValue(mockUser);
+
+      await service.register({
+        email: 'test@example.com',
+        password: 'password123',
+        username: 'testuser',
+      });
+
+      expect(mail.sent).toHaveLength(1);
+      expect(mail.sent[0].to).toBe('test@example.com');
+      const token = mail.sent[0].text.match(/verify-email\?token=(\S+)/)[1];
+      expect(mockUserTokenRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 1,
+          purpose: UserTokenPurpose.VERIFY_EMAIL,
+        }),
+      );
+      expect(mockUserTokenRepo.save.mock.calls[0][0].tokenHash).not.toBe(token);
+    });
+
+    it('should register even when the mail cannot be sent', async () => {
+      mockRepo.findOne.mockResolvedValue(null);
+      mockRepo.create.mockReturnValue(mockUser);
+      jest.spyOn(mail, 'send').mockRejectedValue(new Error('SMTP down'));
+
+      const result = await service.register({
+        email: 'test@example.com',
+        password: 'password123',
+        username: 'testuser',
+      });
+      expect(result.accessToken).toBe('mock-jwt-token');
+    });
+
     it('should throw ConflictException if user exists', async () => {
       mockRepo.findOne.mockResolvedValue(mockUser);
 
@@ -116,4 +441,88 @@ describe('AuthService', () => {
       ).rejects.toThrow(ConflictException);
     });
   });
+
+  describe('issueStreamTicket', () => {
+    it('should sign a one-minute ticket that is not an access token', async () => {
+      mockRepo.findOneByOrFail.mockResolvedValue(mockUser);
+
+      const result = await service.issueStreamTicket(1);
+      expect(result).toEqual({ ticket: 'mock-jwt-token', expiresIn: 60 });
+      expect(mockJwtService.sign).toHaveBeenCalledWith(
+        { sub: 1, ver: 2, purpose: 'stream' },
+        { expiresIn: 60 },
+      );
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should consume the token and mark the user verified', async () => {
+      mockUserTokenRepo.findOne.mockResolvedValue({ userId: 1 });
+      mockUserTokenRepo.update.mockResolvedValue({ affected: 1 });
+
+      await service.verifyEmail('token');
+      expect(mockUserTokenRepo.update).toHaveBeenCalledWith(
+        expect.objectContaining({ purpose: UserTokenPurpose.VERIFY_EMAIL }),
+        { usedAt: expect.any(Date) },
+      );
+      expect(mockRepo.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1 }),
+        { verifiedAt: expect.any(Date) },
+      );
+    });
+
+    it('should reject an unknown, used or expired token', async () => {
+      mockUserTokenRepo.findOne.mockResolvedValue(null);
+      await expect(service.verifyEmail('token')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockRepo.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('forgotPassword', () => {
+    it('should mail a reset link to a known address', async () => {
+      mockRepo.findOne.mockResolvedValue(mockUser);
+
+      await service.forgotPassword('test@example.com');
+      expect(mail.sent).toHaveLength(1);
+      expect(mail.sent[0].text).toMatch(/reset-password\?token=\S+/);
+      expect(mockUserTokenRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ purpose: UserTokenPurpose.RESET_PASSWORD }),
+      );
+    });
+
+    it('should quietly do nothing for an unknown address', async () => {
+      mockRepo.findOne.mockResolvedValue(null);
+
+      await service.forgotPassword('no@user.com');
+      expect(mail.sent).toHaveLength(0);
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the new password and end all sessions', async () => {
+      mockUserTokenRepo.findOne.mockResolvedValue({ userId: 1 });
+      mockUserTokenRepo.update.mockResolvedValue({ affected: 1 });
+      mockRepo.findOneByOrFail.mockResolvedValue({
+        ...mockUser,
+        verifiedAt: null,
+      });
+      mockTokenRepo.update.mockResolvedValue({ affected: 2 });
+      (bcrypt.hash as jest.Mock).mockResolvedValue('new-hash');
+
+      await service.resetPassword('token', 'new-password');
+      expect(mockRepo.update).toHaveBeenCalledWith(1, {
+        password: 'new-hash',
+        verifiedAt: expect.any(Date),
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      });
+      expect(mockRepo.increment).toHaveBeenCalledWith(
+        { id: 1 },
+        'tokenVersion',
+        1,
+      );
+    });
+  });
 });
@@ -1,31 +1,93 @@
-import { Injectable, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { IsNull, LessThan, MoreThan, Repository } from 'typeorm';
+import { createHash, randomBytes, randomUUID } from 'crypto';
 import { User, UserRole, UserPersona } from '../entities/user.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { UserToken, UserTokenPurpose } from '../entities/user-token.entity';
+import { AuthEventType } from '../entities/auth-event.entity';
+import { ClientInfo } from '../auth/client-info.decorator';
 import { CreateUserDto } from '../dtos/auth.dto';
+import { MailMessage, MailTransport } from '../mail/mail-transport';
+import { AuthAuditService } from './auth-audit.service';
+import { ApiKeysService } from './api-keys.service';
+import { STREAM_TICKET_PURPOSE } from '../auth/jwt.strategy';
 import * as bcrypt from 'bcrypt';
 
 export interface AuthResponse {
   accessToken: string;
+  /** Single use: exchange it at POST /auth/refresh for a new pair. */
+  refreshToken: string;
   user: {
     id: number;
     email: string;
     username: string;
-    role: UserRole;
+    role: string;
     persona: UserPersona;
+    verified: boolean;
   };
 }
 
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/** Failed logins that are answered without any slowdown. */
+const FREE_LOGIN_ATTEMPTS = 3;
+const MAX_LOGIN_DELAY_MS = 8000;
+
+/**
+ * How long to hold a login attempt after `failures` recent failures:
+ * nothing for the first few, then 500ms doubling up to 8s.
+ */
+export function loginDelay(failures: number): number {
+  if (failures < FREE_LOGIN_ATTEMPTS) return 0;
+  return Math.min(
+    MAX_LOGIN_DELAY_MS,
+    500 * 2 ** (failures - FREE_LOGIN_ATTEMPTS),
+  );
+}
+
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+  private readonly VERIFY_EMAIL_TTL_HOURS = 48;
+  private readonly RESET_PASSWORD_TTL_HOURS = 1;
+  private readonly DEFAULT_LOGIN_MAX_ATTEMPTS = 10;
+  private readonly DEFAULT_LOGIN_IP_MAX_ATTEMPTS = 50;
+  private readonly DEFAULT_LOGIN_LOCKOUT_MINUTES = 15;
+  private readonly STREAM_TICKET_TTL_SECONDS = 60;
+
   constructor(
     @InjectRepository(User)
     private usersRepository: Repository<User>,
+    @InjectRepository(RefreshToken)
+    private refreshTokenRepository: Repository<RefreshToken>,
+    @InjectRepository(UserToken)
+    private userTokenRepository: Repository<UserToken>,
     private jwtService: JwtService,
+    private configService: ConfigService,
+    private mail: MailTransport,
+    private audit: AuthAuditService,
+    private apiKeys: ApiKeysService,
   ) {}
 
-  async register(createUserDto: CreateUserDto): Promise<AuthResponse> {
+  async register(
+    createUserDto: CreateUserDto,
+    client?: ClientInfo,
+  ): Promise<AuthResponse> {
     const { email, password, username } = createUserDto;
     const existing = await this.usersRepository.findOne({
       where: [{ email }, { username }],
@@ -36,22 +98,189 @@ export class AuthService {
       );
     }
 
-    const hashedPassword = await bcrypt.hash(
-      password,
-      parseInt(process.env.SALT_ROUNDS || '12', 10),
-    );
-
     const user = this.usersRepository.create({
       username,
       email,
-      password: hashedPassword,
+      password: await this.hashPassword(password),
       role: UserRole.USER,
       persona: UserPersona.STUDENT,
     });
     await this.usersRepository.save(user);
+    await this.audit.record(AuthEventType.REGISTERED, {
+      userId: user.id,
+      email,
+      client,
+    });
+    await this.sendVerificationEmail(user);
+    return this.login(user);
+  }
+
+  /**
+   * A ticket for opening one Server-Sent Event stream, passed as
+   * ?access_token=…; it expires within a minute, so one that leaks
+   * into a log is of no use.
+   */
+  async issueStreamTicket(
+    userId: number,
+  ): Promise<{ ticket: string; expiresIn: number }> {
+    const user = await this.usersRepository.findOneByOrFail({ id: userId });
+    const ticket = this.jwtService.sign(
+      {
+        sub: user.id,
+        ver: user.tokenVersion ?? 0,
+        purpose: STREAM_TICKET_PURPOSE,
+      },
+      { expiresIn: this.STREAM_TICKET_TTL_SECONDS },
+    );
+    return { ticket, expiresIn: this.STREAM_TICKET_TTL_SECONDS };
+  }
+
+  /** Mail a new verification link to a user who is not verified yet. */
+  async resendVerification(userId: number): Promise<void> {
+    const user = await this.usersRepository.findOneByOrFail({ id: userId });
+    if (user.verifiedAt) {
+      throw new BadRequestException('Email address is already verified');
+    }
+    await this.sendVerificationEmail(user);
+  }
+
+  async verifyEmail(token: string, client?: ClientInfo): Promise<void> {
+    const { userId } = await this.consumeUserToken(
+      token,
+      UserTokenPurpose.VERIFY_EMAIL,
+    );
+    await this.usersRepository.update(
+      { id: userId, verifiedAt: IsNull() },
+      { verifiedAt: new Date() },
+    );
+    await this.audit.record(AuthEventType.EMAIL_VERIFIED, { userId, client });
+  }
+
+  /**
+   * Mail a password reset link. Does nothing for unknown addresses, and
+   * the caller gets the same answer either way, so the endpoint cannot be
+   * used to find out who has an account.
+   */
+  async forgotPassword(email: string, client?: ClientInfo): Promise<void> {
+    const user = await this.usersRepository.findOne({ where: { email } });
+    await this.audit.record(AuthEventType.PASSWORD_RESET_REQUESTED, {
+      userId: user?.id,
+      email,
+      client,
+    });
+    if (!user) return;
+    const token = await this.createUserToken(
+      user.id,
+      UserTokenPurpose.RESET_PASSWORD,
+      this.RESET_PASSWORD_TTL_HOURS,
+    );
+    await this.sendMail({
+      to: user.email,
+      subject: 'Reset your password',
+      text:
+        `Someone asked to reset the password of ${user.username}. ` +
+        `To choose a new one, open this link within ` +
+        `${this.RESET_PASSWORD_TTL_HOURS} hour:\n\n` +
+        `${this.frontendLink('reset-password', token)}\n\n` +
+        `If this was not you, ignore this message.`,
+    });
+  }
+
+  /**
+   * Set a new password and sign the user out everywhere. Receiving the
+   * reset mail also proves the address, so the account becomes verified.
+   */
+  async resetPassword(
+    token: string,
+    password: string,
+    client?: ClientInfo,
+  ): Promise<void> {
+    const { userId } = await this.consumeUserToken(
+      token,
+      UserTokenPurpose.RESET_PASSWORD,
+    );
+    const user = await this.usersRepository.findOneByOrFail({ id: userId });
+    await this.usersRepository.update(userId, {
+      password: await this.hashPassword(password),
+      verifiedAt: user.verifiedAt ?? new Date(),
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+    });
+    await this.audit.record(AuthEventType.PASSWORD_RESET, { userId, client });
+    await this.revokeAllSessions(userId);
+  }
+
+  /**
+   * Log in with brute-force protection. Consecutive failures on an
+   * account lock it for LOGIN_LOCKOUT_MINUTES once they reach
+   * LOGIN_MAX_ATTEMPTS; an IP with LOGIN_IP_MAX_ATTEMPTS failures in that
+   * window is refused outright. Both are refused before bcrypt runs, and
+   * attempts after a few failures are slowed down (see loginDelay).
+   */
+  async authenticate(
+    email: string,
+    password: string,
+    client: ClientInfo = {},
+  ): Promise<AuthResponse> {
+    const limits = this.loginLimits();
+    const ipFailures = client.ip
+      ? await this.audit.countRecentFailures(client.ip, limits.lockoutMinutes)
+      : 0;
+    const user = await this.usersRepository.findOne({ where: { email } });
+
+    const locked = !!user?.lockedUntil && user.lockedUntil > new Date();
+    if (locked || ipFailures >= limits.maxIpAttempts) {
+      await this.audit.record(AuthEventType.LOGIN_BLOCKED, {
+        userId: user?.id,
+        email,
+        client,
+        data: { reason: locked ? 'account_locked' : 'ip_throttled' },
+      });
+      throw new HttpException(
+        'Too many failed login attempts; try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const delay = loginDelay(
+      Math.max(ipFailures, user?.failedLoginAttempts ?? 0),
+    );
+    if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    if (!user || !(await bcrypt.compare(password, user.password))) {
+      await this.recordLoginFailure(user, email, client, limits);
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    if (user.failedLoginAttempts || user.lockedUntil) {
+      await this.usersRepository.update(user.id, {
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      });
+    }
+    await this.audit.record(AuthEventType.LOGIN_SUCCEEDED, {
+      userId: user.id,
+      email,
+      client,
+    });
     return this.login(user);
   }
 
+  /** Lift a lockout and reset the failure count (admin action). */
+  async unlock(userId: number, byUserId: number): Promise<void> {
+    await this.usersRepository.findOneByOrFail({ id: userId });
+    await this.usersRepository.update(userId, {
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+    });
+    await this.audit.record(AuthEventType.ACCOUNT_UNLOCKED, {
+      userId,
+      data: { by: byUserId },
+    });
+  }
+
   async validateUser(
     email: string,
     pass: string,
@@ -64,24 +293,281 @@ export class AuthService {
     return null;
   }
 
+  /** Start a new session. */
   async login(user: User | Omit<User, 'password'>): Promise<AuthResponse> {
+    return this.issueTokens(user, randomUUID());
+  }
+
+  /**
+   * Rotate a refresh token. A token that was already used is treated as
+   * stolen: its whole session is revoked, so neither the thief nor the
+   * owner can keep refreshing.
+   */
+  async refresh(token: string, client?: ClientInfo): Promise<AuthResponse> {
+    const stored = await this.refreshTokenRepository.findOne({
+      where: { tokenHash: hashToken(token) },
+      relations: ['user'],
+    });
+    if (!stored) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    if (stored.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Refresh token has expired');
+    }
+    // Conditional so two concurrent refreshes cannot both succeed.
+    const { affected } = await this.refreshTokenRepository.update(
+      { id: stored.id, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (!affected) {
+      await this.revokeFamily(stored.familyId);
+      this.logger.warn(
+        `Refresh token reuse for user #${stored.userId}; session revoked`,
+      );
+      await this.audit.record(AuthEventType.REFRESH_TOKEN_REUSED, {
+        userId: stored.userId,
+        client,
+        data: { familyId: stored.familyId },
+      });
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+    await this.audit.record(AuthEventType.TOKEN_REFRESHED, {
+      userId: stored.userId,
+      client,
+    });
+    return this.issueTokens(stored.user, stored.familyId);
+  }
+
+  /** End the session the refresh token belongs to. Unknown tokens are ignored. */
+  async logout(token: string, client?: ClientInfo): Promise<void> {
+    const stored = await this.refreshTokenRepository.findOne({
+      where: { tokenHash: hashToken(token) },
+    });
+    if (stored) {
+      await this.revokeFamily(stored.familyId);
+      await this.audit.record(AuthEventType.LOGGED_OUT, {
+        userId: stored.userId,
+        client,
+      });
+    }
+  }
+
+  /**
+   * Sign the user out everywhere: revoke every refresh token and bump the
+   * token version so outstanding access tokens stop working too. API keys
+   * are revoked as well, since a stolen session could have minted one.
+   */
+  async revokeAllSessions(
+    userId: number,
+    byUserId = userId,
+  ): Promise<{ revoked: number; apiKeysRevoked: number }> {
+    const result = await this.refreshTokenRepository.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    await this.usersRepository.increment({ id: userId }, 'tokenVersion', 1);
+    const apiKeysRevoked = await this.apiKeys.revokeAllForUser(userId);
+    await this.audit.record(AuthEventType.SESSIONS_REVOKED, {
+      userId,
+      data: { by: byUserId, apiKeysRevoked },
+    });
+    return { revoked: result.affected ?? 0, apiKeysRevoked };
+  }
+
+  /** Drop expired refresh tokens and mailed verification/reset tokens. */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purgeExpiredTokens(): Promise<{ purged: number }> {
+    const expired = { expiresAt: LessThan(new Date()) };
+    const sessions = await this.refreshTokenRepository.delete(expired);
+    const mailed = await this.userTokenRepository.delete(expired);
+    return { purged: (sessions.affected ?? 0) + (mailed.affected ?? 0) };
+  }
+
+  private async issueTokens(
+    user: User | Omit<User, 'password'>,
+    familyId: string,
+  ): Promise<AuthResponse> {
     const payload = {
       email: user.email,
       sub: user.id,
       role: user.role,
       persona: user.persona,
       username: user.username,
+      ver: user.tokenVersion ?? 0,
     };
 
+    const refreshToken = randomBytes(48).toString('base64url');
+    const days =
+      parseInt(this.configService.get<string>('REFRESH_TOKEN_TTL_DAYS'), 10) ||
+      this.DEFAULT_REFRESH_TOKEN_TTL_DAYS;
+    await this.refreshTokenRepository.save(
+      this.refreshTokenRepository.create({
+        tokenHash: hashToken(refreshToken),
+        familyId,
+        userId: user.id,
+        expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+      }),
+    );
+
     return {
       accessToken: this.jwtService.sign(payload),
+      refreshToken,
       user: {
         id: user.id,
         email: user.email,
         username: user.username,
         role: user.role,
         persona: user.persona,
+        verified: !!user.verifiedAt,
       },
     };
   }
+
+  private async recordLoginFailure(
+    user: User | null,
+    email: string,
+    client: ClientInfo,
+    limits: { maxAttempts: number; lockoutMinutes: number },
+  ) {
+    await this.audit.record(AuthEventType.LOGIN_FAILED, {
+      userId: user?.id,
+      email,
+      client,
+    });
+    if (!user) return;
+
+    // Incremented in the database: concurrent failures must all count.
+    const [[row]] = await this.usersRepository.query(
+      `UPDATE "user" SET "failedLoginAttempts" = "failedLoginAttempts" + 1
+       WHERE id = $1
+       RETURNING "failedLoginAttempts"`,
+      [user.id],
+    );
+    const attempts: number = row.failedLoginAttempts;
+    // Once past the limit, every further failure locks the account again.
+    const lockedUntil =
+      attempts >= limits.maxAttempts
+        ? new Date(Date.now() + limits.lockoutMinutes * 60 * 1000)
+        : null;
+    if (lockedUntil) {
+      await this.usersRepository.update(user.id, { lockedUntil });
+      this.logger.warn(
+        `User #${user.id} locked until ${lockedUntil.toISOString()}`,
+      );
+      await this.audit.record(AuthEventType.ACCOUNT_LOCKED, {
+        userId: user.id,
+        email,
+        client,
+        data: { attempts, lockedUntil },
+      });
+    }
+  }
+
+  private loginLimits() {
+    const setting = (key: string, fallback: number) =>
+      parseInt(this.configService.get<string>(key), 10) || fallback;
+    return {
+      maxAttempts: setting(
+        'LOGIN_MAX_ATTEMPTS',
+        this.DEFAULT_LOGIN_MAX_ATTEMPTS,
+      ),
+      maxIpAttempts: setting(
+        'LOGIN_IP_MAX_ATTEMPTS',
+        this.DEFAULT_LOGIN_IP_MAX_ATTEMPTS,
+      ),
+      lockoutMinutes: setting(
+        'LOGIN_LOCKOUT_MINUTES',
+        this.DEFAULT_LOGIN_LOCKOUT_MINUTES,
+      ),
+    };
+  }
+
+  private async sendVerificationEmail(user: User) {
+    const token = await this.createUserToken(
+      user.id,
+      UserTokenPurpose.VERIFY_EMAIL,
+      this.VERIFY_EMAIL_TTL_HOURS,
+    );
+    await this.sendMail({
+      to: user.email,
+      subject: 'Confirm your email address',
+      text:
+        `Welcome, ${user.username}! Confirm your email address within ` +
+        `${this.VERIFY_EMAIL_TTL_HOURS} hours to start proposing edits:\n\n` +
+        this.frontendLink('verify-email', token),
+    });
+  }
+
+  /** Issue a token; earlier unused tokens for the same purpose stop working. */
+  private async createUserToken(
+    userId: number,
+    purpose: UserTokenPurpose,
+    ttlHours: number,
+  ): Promise<string> {
+    await this.userTokenRepository.delete({
+      userId,
+      purpose,
+      usedAt: IsNull(),
+    });
+    const token = randomBytes(32).toString('base64url');
+    await this.userTokenRepository.save(
+      this.userTokenRepository.create({
+        tokenHash: hashToken(token),
+        purpose,
+        userId,
+        expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+      }),
+    );
+    return token;
+  }
+
+  /** Mark a token used; the conditional update makes it single use. */
+  private async consumeUserToken(
+    token: string,
+    purpose: UserTokenPurpose,
+  ): Promise<UserToken> {
+    const where = {
+      tokenHash: hashToken(token),
+      purpose,
+      usedAt: IsNull(),
+      expiresAt: MoreThan(new Date()),
+    };
+    const stored = await this.userTokenRepository.findOne({ where });
+    const { affected } = stored
+      ? await this.userTokenRepository.update(where, { usedAt: new Date() })
+      : { affected: 0 };
+    if (!affected) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+    return stored;
+  }
+
+  /** Mail problems are logged; they must not fail sign-up. */
+  private async sendMail(message: MailMessage) {
+    try {
+      await this.mail.send(message);
+    } catch (error: any) {
+      this.logger.error(
+        `Could not send "${message.subject}" mail: ${error.message}`,
+      );
+    }
+  }
+
+  private frontendLink(path: string, token: string): string {
+    const base = (
+      this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000'
+    ).replace(/\/+$/, '');
+    return `${base}/${path}?token=${encodeURIComponent(token)}`;
+  }
+
+  private async hashPassword(password: string): Promise<string> {
+    return bcrypt.hash(password, parseInt(process.env.SALT_ROUNDS || '12', 10));
+  }
+
+  private async revokeFamily(familyId: string) {
+    await this.refreshTokenRepository.update(
+      { familyId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+  }
 }
@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { AutoApprovalRulesService } from './auto-approval-rules.service';
+import { ReputationService } from './reputation.service';
+import {
+  AutoApprovalRule,
+  FieldSensitivity,
+} from '../entities/auto-approval-rule.entity';
+
+const minorRule = {
+  id: 1,
+  name: 'Trusted contributors',
+  minApprovedEdits: 20,
+  maxRejectionRate: 0.05,
+  maxSensitivity: FieldSensitivity.MINOR,
+  enabled: true,
+};
+
+describe('AutoApprovalRulesService', () => {
+  let service: AutoApprovalRulesService;
+  const mockRuleRepo = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((r) => r),
+    save: jest.fn(async (r) => r),
+    remove: jest.fn(),
+  };
+  const mockReputation = {
+    getReputation: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AutoApprovalRulesService,
+        {
+          provide: getRepositoryToken(AutoApprovalRule),
+          useValue: mockRuleRepo,
+        },
+        { provide: ReputationService, useValue: mockReputation },
+      ],
+    }).compile();
+
+    service = module.get<AutoApprovalRulesService>(AutoApprovalRulesService);
+    jest.clearAllMocks();
+  });
+
+  describe('findMatchingRule', () => {
+    const summary = { summary: { old: null, new: 'Poet' } };
+
+    beforeEach(() => {
+      mockRuleRepo.find.mockResolvedValue([minorRule]);
+    });
+
+    it('should match a trusted user editing minor fields', async () => {
+      mockReputation.getReputation.mockResolvedValue({
+        approved: 25,
+        rejectionRate: 0.04,
+      });
+      await expect(service.findMatchingRule(5, summary)).resolves.toBe(
+        minorRule,
+      );
+    });
+
+    it('should not match fields above the rule sensitivity', async () => {
+      mockReputation.getReputation.mockResolvedValue({
+        approved: 25,
+        rejectionRate: 0,
+      });
+      await expect(
+        service.findMatchingRule(5, {
+          ...summary,
+          name: { old: 'A', new: 'B' },
+        }),
+      ).resolves.toBeNull();
+    });
+
+    it('should not match a short or poor record', async () => {
+      mockReputation.getReputation.mockResolvedValue({
+        approved: 5,
+        rejectionRate: 0,
+      });
+      await expect(service.findMatchingRule(5, summary)).resolves.toBeNull();
+
+      mockReputation.getReputation.mockResolvedValue({
+        approved: 40,
+        rejectionRate: 0.2,
+      });
+      await expect(service.findMatchingRule(5, summary)).resolves.toBeNull();
+    });
+
+    it('should skip the reputation lookup without enabled rules', async () => {
+      mockRuleRepo.find.mockResolvedValue([]);
+      await expect(service.findMatchingRule(5, summary)).resolves.toBeNull();
+      expect(mockReputation.getReputation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should throw NotFoundException for an unknown rule', async () => {
+      mockRuleRepo.findOne.mockResolvedValue(null);
+      await expect(service.update(9, { enabled: false })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AutoApprovalRule } from '../entities/auto-approval-rule.entity';
+import {
+  CreateAutoApprovalRuleDto,
+  UpdateAutoApprovalRuleDto,
+} from '../dtos/auto-approval-rule.dto';
+import {
+  PersonChanges,
+  changeSensitivity,
+  isSensitivityWithin,
+} from '../validation/person-changes';
+import { ReputationService } from './reputation.service';
+
+@Injectable()
+export class AutoApprovalRulesService {
+  constructor(
+    @InjectRepository(AutoApprovalRule)
+    private ruleRepository: Repository<AutoApprovalRule>,
+    private readonly reputation: ReputationService,
+  ) {}
+
+  async findAll(): Promise<AutoApprovalRule[]> {
+    return this.ruleRepository.find({ order: { id: 'ASC' } });
+  }
+
+  async findOne(id: number): Promise<AutoApprovalRule> {
+    const rule = await this.ruleRepository.findOne({ where: { id } });
+    if (!rule) {
+      throw new NotFoundException(`Auto-approval rule with id ${id} not found`);
+    }
+    return rule;
+  }
+
+  async create(dto: CreateAutoApprovalRuleDto): Promise<AutoApprovalRule> {
+    return this.ruleRepository.save(this.ruleRepository.create(dto));
+  }
+
+  async update(
+    id: number,
+    dto: UpdateAutoApprovalRuleDto,
+  ): Promise<AutoApprovalRule> {
+    const rule = await this.findOne(id);
+    Object.assign(rule, dto);
+    return this.ruleRepository.save(rule);
+  }
+
+  async remove(id: number): Promise<void> {
+    const rule = await this.findOne(id);
+    await this.ruleRepository.remove(rule);
+  }
+
+  /**
+   * The first enabled rule under which `userId` may apply `changes`
+   * without review, or null.
+   */
+  async findMatchingRule(
+    userId: number,
+    changes: PersonChanges,
+  ): Promise<AutoApprovalRule | null> {
+    const rules = await this.ruleRepository.find({
+      where: { enabled: true },
+      order: { id: 'ASC' },
+    });
+    if (rules.length === 0) return null;
+
+    const record = await this.reputation.getReputation(userId);
+    const sensitivity = changeSensitivity(changes);
+    return (
+      rules.find(
+        (rule) =>
+          record.approved >= rule.minApprovedEdits &&
+          record.rejectionRate <= rule.maxRejectionRate &&
+          isSensitivityWithin(sensitivity, rule.maxSensitivity),
+      ) ?? null
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { ClusteringService } from './clustering.service';
+import { SearchService } from './search.service';
+import { Person } from '../entities/person.entity';
+
+const bbox = { minLat: 44, minLng: 22, maxLat: 53, maxLng: 41 };
+
+describe('ClusteringService', () => {
+  let service: ClusteringService;
+  const mockRepo = {
+    query: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ClusteringService,
+        SearchService,
+        { provide: getRepositoryToken(Person), useValue: mockRepo },
+      ],
+    }).compile();
+
+    service = module.get<ClusteringService>(ClusteringService);
+    jest.clearAllMocks();
+  });
+
+  it('should group persons into grid cells at low zoom', async () => {
+    const cluster = {
+      lat: 50.4,
+      lng: 30.5,
+      count: 12,
+      topPerson: { id: 'p1', name: 'Test', rating: 9.5, category: 'writer' },
+      categories: { writer: 8, artist: 4 },
+    };
+    mockRepo.query.mockResolvedValue([cluster]);
+
+    const result = await service.getClusters({ ...bbox, zoom: 6 });
+    expect(result).toEqual({
+      zoom: 6,
+      clustered: true,
+      clusters: [cluster],
+      persons: [],
+    });
+    const [sql, params] = mockRepo.query.mock.calls[0];
+    expect(sql).toContain('jsonb_object_agg');
+    expect(params).toEqual([22, 44, 41, 53, service.cellSize(6), 2000]);
+  });
+
+  it('should return individual persons past the cluster zoom', async () => {
+    const persons = [{ id: 'p1', name: 'Test', lat: 50.4, lng: 30.5 }];
+    mockRepo.query.mockResolvedValue(persons);
+
+    const result = await service.getClusters({ ...bbox, zoom: 15 });
+    expect(result.clustered).toBe(false);
+    expect(result.persons).toEqual(persons);
+  });
+
+  it('should apply the shared search filters', async () => {
+    mockRepo.query.mockResolvedValue([]);
+
+    await service.getClusters({
+      ...bbox,
+      zoom: 8,
+      category: 'writer',
+      yearFrom: 1800,
+    });
+    const [sql, params] = mockRepo.query.mock.calls[0];
+    expect(sql).toContain('p.category = $5');
+    expect(sql).toContain('p."birthYear" >= $6');
+    expect(params.slice(4, 6)).toEqual(['writer', 1800]);
+  });
+
+  it('should reject an inverted bbox', async () => {
+    await expect(
+      service.getClusters({ ...bbox, minLat: 60, zoom: 5 }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,131 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Person } from '../entities/person.entity';
+import { ClusterQueryDto } from '../dtos/search.dto';
+import { NOT_DELETED, SearchService } from './search.service';
+
+export interface MapPoint {
+  id: string;
+  name: string;
+  rating: number;
+  category: string | null;
+  lat: number;
+  lng: number;
+}
+
+export interface MapCluster {
+  lat: number;
+  lng: number;
+  count: number;
+  topPerson: Omit<MapPoint, 'lat' | 'lng'>;
+  /** Person count per category; uncategorized persons count as "unknown". */
+  categories: Record<string, number>;
+}
+
+export interface ClusterResponse {
+  zoom: number;
+  /** False past CLUSTER_MAX_ZOOM, where `persons` is filled instead. */
+  clustered: boolean;
+  clusters: MapCluster[];
+  persons: MapPoint[];
+}
+
+@Injectable()
+export class ClusteringService {
+  /** Above this zoom individual persons are returned instead of clusters. */
+  private readonly CLUSTER_MAX_ZOOM = 13;
+  /** Grid cells per 256px tile side, i.e. roughly 64px clusters. */
+  private readonly CELLS_PER_TILE = 4;
+  private readonly MAX_CLUSTERS = 2000;
+  private readonly MAX_PERSONS = 2000;
+
+  constructor(
+    @InjectRepository(Person)
+    private personRepository: Repository<Person>,
+    private readonly searchService: SearchService,
+  ) {}
+
+  /**
+   * Grid-based clustering of birth locations inside a bbox. The bbox test
+   * uses the && operator so idx_person_birth_location_gist narrows the
+   * candidates before grouping into cells whose size follows the zoom.
+   */
+  async getClusters(query: ClusterQueryDto): Promise<ClusterResponse> {
+    this.searchService.assertValidBbox(query);
+
+    const params: unknown[] = [
+      query.minLng,
+      query.minLat,
+      query.maxLng,
+      query.maxLat,
+    ];
+    const conditions = [
+      NOT_DELETED,
+      'p."birthLocation" IS NOT NULL',
+      'p."birthLocation" && ST_MakeEnvelope($1, $2, $3, $4, 4326)',
+      ...this.searchService.buildFilterConditions(query, params),
+    ];
+    const where = conditions.join(' AND ');
+
+    if (query.zoom > this.CLUSTER_MAX_ZOOM) {
+      params.push(this.MAX_PERSONS);
+      const persons = await this.personRepository.query(
+        `SELECT p.id, p.name, p.rating, p.category, p.lat, p.lng
+         FROM person p
+         WHERE ${where}
+         ORDER BY p.rating DESC
+         LIMIT $${params.length}`,
+        params,
+      );
+      return { zoom: query.zoom, clustered: false, clusters: [], persons };
+    }
+
+    params.push(this.cellSize(query.zoom), this.MAX_CLUSTERS);
+    const cellParam = `$${params.length - 1}`;
+    const limitParam = `$${params.length}`;
+    const clusters = await this.personRepository.query(
+      `WITH cells AS (
+         SELECT floor(ST_X(p."birthLocation") / ${cellParam})::int AS cx,
+                floor(ST_Y(p."birthLocation") / ${cellParam})::int AS cy,
+                p.id, p.name, p.rating, p.category,
+                ST_X(p."birthLocation") AS lng, ST_Y(p."birthLocation") AS lat
+         FROM person p
+         WHERE ${where}
+       ),
+       category_counts AS (
+         SELECT cx, cy, jsonb_object_agg(category, n) AS categories
+         FROM (
+           SELECT cx, cy, COALESCE(category, 'unknown') AS category,
+                  COUNT(*)::int AS n
+           FROM cells
+           GROUP BY 1, 2, 3
+         ) c
+         GROUP BY cx, cy
+       ),
+       grouped AS (
+         SELECT cx, cy, COUNT(*)::int AS count,
+                AVG(lat)::float AS lat, AVG(lng)::float AS lng,
+                (array_agg(
+                  jsonb_build_object('id', id, 'name', name,
+                                     'rating', rating, 'category', category)
+                  ORDER BY rating DESC
+                ))[1] AS "topPerson"
+         FROM cells
+         GROUP BY cx, cy
+       )
+       SELECT g.lat, g.lng, g.count, g."topPerson", c.categories
+       FROM grouped g
+       JOIN category_counts c USING (cx, cy)
+       ORDER BY g.count DESC
+       LIMIT ${limitParam}`,
+      params,
+    );
+    return { zoom: query.zoom, clustered: true, clusters, persons: [] };
+  }
+
+  /** Grid cell side in degrees for a zoom level. */
+  cellSize(zoom: number): number {
+    return 360 / 2 ** zoom / this.CELLS_PER_TILE;
+  }
+}
@@ -0,0 +1,151 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { CommentsService } from './comments.service';
+import { NotificationsService } from './notifications.service';
+import { Comment } from '../entities/comment.entity';
+import { ProposedEdit } from '../entities/proposed-edit.entity';
+import { Person } from '../entities/person.entity';
+import { Permission } from '../auth/permissions';
+import { NotificationType } from '../entities/notification.entity';
+
+const edit = { id: 'edit-uuid-1', userId: 5 };
+const target = { proposedEditId: 'edit-uuid-1' };
+
+function comment(id: number, parentId: number | null, userId = 7) {
+  return {
+    id,
+    parentId,
+    userId,
+    body: `comment ${id}`,
+    user: { id: userId, username: `user${userId}` },
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+}
+
+describe('CommentsService', () => {
+  let service: CommentsService;
+  const mockCommentRepo = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((c) => c),
+    save: jest.fn(async (c) => ({ id: 10, ...c })),
+    remove: jest.fn(),
+  };
+  const mockEditRepo = {
+    findOne: jest.fn(),
+  };
+  const mockPersonRepo = {
+    exists: jest.fn(),
+  };
+  const mockNotifications = {
+    notifyUser: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommentsService,
+        { provide: getRepositoryToken(Comment), useValue: mockCommentRepo },
+        { provide: getRepositoryToken(ProposedEdit), useValue: mockEditRepo },
+        { provide: getRepositoryToken(Person), useValue: mockPersonRepo },
+        { provide: NotificationsService, useValue: mockNotifications },
+      ],
+    }).compile();
+
+    service = module.get<CommentsService>(CommentsService);
+    jest.clearAllMocks();
+    mockEditRepo.findOne.mockResolvedValue(edit);
+  });
+
+  describe('findThreads', () => {
+    it('should nest replies under their parents', async () => {
+      mockCommentRepo.find.mockResolvedValue([
+        comment(1, null),
+        comment(2, 1),
+        comment(3, null),
+        comment(4, 2),
+      ]);
+
+      const threads = await service.findThreads(target);
+
+      expect(threads.map((t) => t.id)).toEqual([1, 3]);
+      expect(threads[0].replies[0].id).toBe(2);
+      expect(threads[0].replies[0].replies[0].id).toBe(4);
+      expect(threads[0].author).toEqual({ id: 7, username: 'user7' });
+    });
+
+    it('should throw when the person does not exist', async () => {
+      mockPersonRepo.exists.mockResolvedValue(false);
+      await expect(
+        service.findThreads({ personId: 'missing' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('add', () => {
+    it('should notify the edit author of a new comment', async () => {
+      await service.add(target, 7, { body: 'Any sources?' });
+
+      expect(mockCommentRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ ...target, userId: 7, parentId: null }),
+      );
+      expect(mockNotifications.notifyUser).toHaveBeenCalledTimes(1);
+      expect(mockNotifications.notifyUser).toHaveBeenCalledWith(
+        5,
+        expect.objectContaining({ type: NotificationType.COMMENT_ADDED }),
+      );
+    });
+
+    it('should notify the parent author of a reply, but not the replier', async () => {
+      mockCommentRepo.findOne.mockResolvedValue(comment(1, null, 8));
+
+      await service.add(target, 5, { body: 'Added one', parentId: 1 });
+
+      expect(mockNotifications.notifyUser).toHaveBeenCalledTimes(1);
+      expect(mockNotifications.notifyUser).toHaveBeenCalledWith(
+        8,
+        expect.objectContaining({ title: 'New reply to your comment' }),
+      );
+    });
+
+    it('should reject a parent from another discussion', async () => {
+      mockCommentRepo.findOne.mockResolvedValue(null);
+      await expect(
+        service.add(target, 7, { body: 'Reply', parentId: 99 }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockCommentRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    beforeEach(() => {
+      mockCommentRepo.findOne.mockResolvedValue(comment(1, null, 7));
+    });
+
+    it('should let the author delete their comment', async () => {
+      await service.remove(target, 1, { userId: 7, permissions: [] });
+      expect(mockCommentRepo.remove).toHaveBeenCalled();
+    });
+
+    it('should let a reviewer delete any comment', async () => {
+      await service.remove(target, 1, {
+        userId: 2,
+        permissions: [Permission.EDITS_REVIEW],
+      });
+      expect(mockCommentRepo.remove).toHaveBeenCalled();
+    });
+
+    it("should forbid deleting someone else's comment", async () => {
+      await expect(
+        service.remove(target, 1, { userId: 2, permissions: [] }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockCommentRepo.remove).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Comment } from '../entities/comment.entity';
+import { ProposedEdit } from '../entities/proposed-edit.entity';
+import { Person } from '../entities/person.entity';
+import { Permission } from '../auth/permissions';
+import { NotificationType } from '../entities/notification.entity';
+import { CreateCommentDto } from '../dtos/comment.dto';
+import { NotificationsService } from './notifications.service';
+
+/** What a thread is attached to. */
+export type CommentTarget = { proposedEditId: string } | { personId: string };
+
+export interface CommentNode {
+  id: number;
+  parentId: number | null;
+  body: string;
+  author: { id: number; username: string };
+  createdAt: Date;
+  updatedAt: Date;
+  replies: CommentNode[];
+}
+
+@Injectable()
+export class CommentsService {
+  constructor(
+    @InjectRepository(Comment)
+    private commentRepository: Repository<Comment>,
+    @InjectRepository(ProposedEdit)
+    private proposedEditRepository: Repository<ProposedEdit>,
+    @InjectRepository(Person)
+    private personRepository: Repository<Person>,
+    private readonly notifications: NotificationsService,
+  ) {}
+
+  /** All comments on the target as threads, oldest first. */
+  async findThreads(target: CommentTarget): Promise<CommentNode[]> {
+    await this.assertTargetExists(target);
+    const comments = await this.commentRepository.find({
+      where: target,
+      relations: ['user'],
+      order: { id: 'ASC' },
+    });
+
+    const nodes = new Map<number, CommentNode>();
+    const threads: CommentNode[] = [];
+    for (const comment of comments) {
+      const node: CommentNode = {
+        id: comment.id,
+        parentId: comment.parentId,
+        body: comment.body,
+        author: { id: comment.user.id, username: comment.user.username },
+        createdAt: comment.createdAt,
+        updatedAt: comment.updatedAt,
+        replies: [],
+      };
+      nodes.set(comment.id, node);
+      const parent = comment.parentId ? nodes.get(comment.parentId) : null;
+      (parent ? parent.replies : threads).push(node);
+    }
+    return threads;
+  }
+
+  /**
+   * Post a comment. The author of a commented proposed edit and the
+   * author of the comment replied to are notified.
+   */
+  async add(
+    target: CommentTarget,
+    userId: number,
+    dto: CreateCommentDto,
+  ): Promise<Comment> {
+    const edit = await this.assertTargetExists(target);
+    let parent: Comment | null = null;
+    if (dto.parentId != null) {
+      parent = await this.commentRepository.findOne({
+        where: { id: dto.parentId, ...target },
+      });
+      if (!parent) {
+        throw new BadRequestException(
+          `Comment ${dto.parentId} is not part of this discussion`,
+        );
+      }
+    }
+
+    const saved = await this.commentRepository.save(
+      this.commentRepository.create({
+        ...target,
+        userId,
+        parentId: parent?.id ?? null,
+        body: dto.body,
+      }),
+    );
+
+    const recipients = new Set(
+      [edit?.userId, parent?.userId].filter(
+        (id) => id != null && id !== userId,
+      ),
+    );
+    for (const recipient of recipients) {
+      await this.notifications.notifyUser(recipient, {
+        type: NotificationType.COMMENT_ADDED,
+        title:
+          recipient === parent?.userId
+            ? 'New reply to your comment'
+            : 'New comment on your proposed edit',
+        body: dto.body,
+        data: { ...target, commentId: saved.id },
+      });
+    }
+    return saved;
+  }
+
+  /** Authors can delete their comments, reviewers any comment. */
+  async remove(
+    target: CommentTarget,
+    id: number,
+    user: { userId: number; permissions: Permission[] },
+  ): Promise<void> {
+    const comment = await this.commentRepository.findOne({
+      where: { id, ...target },
+    });
+    if (!comment) {
+      throw new NotFoundException(`Comment with id ${id} not found`);
+    }
+    const isReviewer = user.permissions.includes(Permission.EDITS_REVIEW);
+    if (comment.userId !== user.userId && !isReviewer) {
+      throw new ForbiddenException('You can only delete your own comments');
+    }
+    await this.commentRepository.remove(comment);
+  }
+
+  /** Returns the proposed edit when the target is one. */
+  private async assertTargetExists(
+    target: CommentTarget,
+  ): Promise<ProposedEdit | null> {
+    if ('proposedEditId' in target) {
+      const edit = await this.proposedEditRepository.findOne({
+        where: { id: target.proposedEditId },
+      });
+      if (!edit) {
+        throw new NotFoundException(
+          `Proposed edit with id ${target.proposedEditId} not found`,
+        );
+      }
+      return edit;
+    }
+    const exists = await this.personRepository.exists({
+      where: { id: target.personId },
+    });
+    if (!exists) {
+      throw new NotFoundException(
+        `Person with id ${target.personId} not found`,
+      );
+    }
+    return null;
+  }
+}
@@ -115,6 +115,7 @@ export class EntityResolutionService {
       const results = await this.personRepository.query(
         `SELECT id, similarity(lower(name), $1) AS sim FROM person
          WHERE lower(name) % $1
+           AND "deletedAt" IS NULL
          ORDER BY sim DESC
          LIMIT 1`,
         [normalized],
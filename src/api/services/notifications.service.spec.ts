@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { SyncEventsService } from './sync-events.service';
+import { RolesService } from './roles.service';
+import { Permission } from '../auth/permissions';
+import {
+  Notification,
+  NotificationType,
+} from '../entities/notification.entity';
+import { User } from '../entities/user.entity';
+import { NotificationChannel } from '../notifications/notification-channel';
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+  let syncEvents: SyncEventsService;
+  const mockNotificationRepo = {
+    findOne: jest.fn(),
+    save: jest.fn(async (n) => n),
+    count: jest.fn(),
+    update: jest.fn(),
+  };
+  const mockUserRepo = {
+    find: jest.fn(),
+  };
+  const mockChannel = {
+    name: 'test',
+    deliver: jest.fn(),
+  };
+  const mockRolesService = {
+    rolesWith: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        SyncEventsService,
+        {
+          provide: getRepositoryToken(Notification),
+          useValue: mockNotificationRepo,
+        },
+        { provide: getRepositoryToken(User), useValue: mockUserRepo },
+        { provide: NotificationChannel, useValue: mockChannel },
+        { provide: RolesService, useValue: mockRolesService },
+      ],
+    }).compile();
+
+    service = module.get<NotificationsService>(NotificationsService);
+    syncEvents = module.get<SyncEventsService>(SyncEventsService);
+    service.onModuleInit();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => service.onModuleDestroy());
+
+  it('should deliver to the recipient through the channel', async () => {
+    const user = { id: 5, email: 'a@example.com' };
+    mockUserRepo.find.mockResolvedValue([user]);
+    const message = {
+      type: NotificationType.EDIT_APPROVED,
+      title: 'Your proposal was approved',
+    };
+
+    await service.notifyUser(5, message);
+    expect(mockUserRepo.find).toHaveBeenCalledWith({ where: { id: 5 } });
+    expect(mockChannel.deliver).toHaveBeenCalledWith([user], message);
+  });
+
+  it('should swallow delivery errors', async () => {
+    mockUserRepo.find.mockResolvedValue([{ id: 5 }]);
+    mockChannel.deliver.mockRejectedValueOnce(new Error('boom'));
+    await expect(
+      service.notifyUser(5, {
+        type: NotificationType.EDIT_REJECTED,
+        title: 'Rejected',
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should deliver to every role with the permission', async () => {
+    mockRolesService.rolesWith.mockResolvedValue(['admin', 'curator']);
+    mockUserRepo.find.mockResolvedValue([]);
+
+    await service.notifyPermission(
+      Permission.EDITS_REVIEW,
+      { type: NotificationType.EDIT_PENDING, title: 'New proposal' },
+      5,
+    );
+    expect(mockRolesService.rolesWith).toHaveBeenCalledWith(
+      Permission.EDITS_REVIEW,
+    );
+    expect(mockUserRepo.find).toHaveBeenCalledWith({
+      where: { role: expect.anything(), id: expect.anything() },
+    });
+  });
+
+  it('should tell sync runners about a fatal sync error', async () => {
+    const admin = { id: 1, email: 'admin@example.com' };
+    mockRolesService.rolesWith.mockResolvedValue(['admin']);
+    mockUserRepo.find.mockResolvedValue([admin]);
+
+    syncEvents.emit('error', {
+      jobId: 7,
+      data: { message: 'Wikipedia unavailable', fatal: true },
+    });
+    syncEvents.emit('error', { jobId: 7, data: { message: 'one category' } });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(mockRolesService.rolesWith).toHaveBeenCalledWith(
+      Permission.SYNC_RUN,
+    );
+    expect(mockChannel.deliver).toHaveBeenCalledTimes(1);
+    expect(mockChannel.deliver).toHaveBeenCalledWith([admin], {
+      type: NotificationType.SYNC_FAILED,
+      title: 'Wikipedia sync #7 failed',
+      body: 'Wikipedia unavailable',
+      data: { jobId: 7 },
+    });
+  });
+
+  describe('markRead', () => {
+    it('should only find notifications of the user', async () => {
+      mockNotificationRepo.findOne.mockResolvedValue(null);
+      await expect(service.markRead(5, 3)).rejects.toThrow(NotFoundException);
+      expect(mockNotificationRepo.findOne).toHaveBeenCalledWith({
+        where: { id: 3, userId: 5 },
+      });
+    });
+
+    it('should set readAt once', async () => {
+      mockNotificationRepo.findOne.mockResolvedValue({ id: 3, readAt: null });
+      const result = await service.markRead(5, 3);
+      expect(result.readAt).toBeInstanceOf(Date);
+      expect(mockNotificationRepo.save).toHaveBeenCalledTimes(1);
+    });
+  });
+});
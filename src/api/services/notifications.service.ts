@@ -0,0 +1,164 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindManyOptions, In, IsNull, Not, Repository } from 'typeorm';
+import { Subscription } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import {
+  Notification,
+  NotificationType,
+} from '../entities/notification.entity';
+import { User } from '../entities/user.entity';
+import { Permission } from '../auth/permissions';
+import {
+  NotificationChannel,
+  NotificationMessage,
+} from '../notifications/notification-channel';
+import { CursorPageQueryDto } from '../dtos/pagination.dto';
+import { CursorPage } from '../pagination/cursor';
+import { paginate } from '../pagination/paginate';
+import { SyncEventsService } from './sync-events.service';
+import { RolesService } from './roles.service';
+
+export interface NotificationPage extends CursorPage<Notification> {
+  unread: number;
+}
+
+@Injectable()
+export class NotificationsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(NotificationsService.name);
+  private syncSubscription: Subscription | null = null;
+
+  constructor(
+    @InjectRepository(Notification)
+    private notificationRepository: Repository<Notification>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private readonly channel: NotificationChannel,
+    private readonly syncEvents: SyncEventsService,
+    private readonly rolesService: RolesService,
+  ) {}
+
+  /** Tell whoever runs syncs when a sync job fails for good. */
+  onModuleInit() {
+    this.syncSubscription = this.syncEvents
+      .asObservable()
+      .pipe(filter((event) => event.type === 'error' && !!event.data?.fatal))
+      .subscribe((event) => {
+        void this.notifyPermission(Permission.SYNC_RUN, {
+          type: NotificationType.SYNC_FAILED,
+          title: `Wikipedia sync #${event.jobId} failed`,
+          body: String(event.data?.message ?? ''),
+          data: { jobId: event.jobId },
+        });
+      });
+  }
+
+  onModuleDestroy() {
+    this.syncSubscription?.unsubscribe();
+  }
+
+  /**
+   * Deliver a notification to one user. Never throws: a notification
+   * that cannot be sent must not fail the action that caused it.
+   */
+  async notifyUser(userId: number, message: NotificationMessage) {
+    await this.notify({ where: { id: userId } }, message);
+  }
+
+  /** Deliver to every user with one of `roles`, except `exceptUserId`. */
+  async notifyRoles(
+    roles: string[],
+    message: NotificationMessage,
+    exceptUserId?: number,
+  ) {
+    await this.notify(
+      {
+        where: {
+          role: In(roles),
+          ...(exceptUserId != null ? { id: Not(exceptUserId) } : {}),
+        },
+      },
+      message,
+    );
+  }
+
+  /** Deliver to every user whose role grants `permission`. */
+  async notifyPermission(
+    permission: Permission,
+    message: NotificationMessage,
+    exceptUserId?: number,
+  ) {
+    let roles: string[];
+    try {
+      roles = await this.rolesService.rolesWith(permission);
+    } catch (error: any) {
+      this.logger.error(
+        `Could not send ${message.type} notification: ${error.message}`,
+      );
+      return;
+    }
+    await this.notifyRoles(roles, message, exceptUserId);
+  }
+
+  /** Newest first, with the total number of unread notifications. */
+  async findForUser(
+    userId: number,
+    page: CursorPageQueryDto = {},
+    unreadOnly = false,
+  ): Promise<NotificationPage> {
+    const result = await paginate(this.notificationRepository, page, {
+      sortColumn: 'id',
+      sortType: 'int',
+      where: unreadOnly ? { userId, readAt: IsNull() } : { userId },
+    });
+    return { ...result, unread: await this.countUnread(userId) };
+  }
+
+  async countUnread(userId: number): Promise<number> {
+    return this.notificationRepository.count({
+      where: { userId, readAt: IsNull() },
+    });
+  }
+
+  async markRead(userId: number, id: number): Promise<Notification> {
+    const notification = await this.notificationRepository.findOne({
+      where: { id, userId },
+    });
+    if (!notification) {
+      throw new NotFoundException(`Notification with id ${id} not found`);
+    }
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await this.notificationRepository.save(notification);
+    }
+    return notification;
+  }
+
+  async markAllRead(userId: number): Promise<{ updated: number }> {
+    const result = await this.notificationRepository.update(
+      { userId, readAt: IsNull() },
+      { readAt: new Date() },
+    );
+    return { updated: result.affected ?? 0 };
+  }
+
+  private async notify(
+    query: FindManyOptions<User>,
+    message: NotificationMessage,
+  ) {
+    try {
+      const recipients = await this.userRepository.find(query);
+      await this.channel.deliver(recipients, message);
+    } catch (error: any) {
+      this.logger.error(
+        `Could not send ${message.type} notification: ${error.message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { PersonQueryService } from './person-query.service';
+import { SearchService } from './search.service';
+import { Person } from '../entities/person.entity';
+import { encodeCursor } from '../pagination/cursor';
+import { PersonQuerySort } from '../dtos/search.dto';
+
+const facetsRow = {
+  total: 3,
+  categories: [{ value: 'writer', count: 3 }],
+  occupations: [{ value: 'поет', count: 2 }],
+  decades: [{ value: 1810, count: 1 }],
+};
+
+const rows = [
+  { id: 'a', name: 'A', rating: 9, sort_value: 9 },
+  { id: 'b', name: 'B', rating: 8, sort_value: 8 },
+  { id: 'c', name: 'C', rating: 7, sort_value: 7 },
+];
+
+const CURSOR_ID = '6f1c2a52-3b7e-4c8d-9a0f-1e2d3c4b5a69';
+
+describe('PersonQueryService', () => {
+  let service: PersonQueryService;
+  const mockRepo = {
+    query: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PersonQueryService,
+        SearchService,
+        { provide: getRepositoryToken(Person), useValue: mockRepo },
+      ],
+    }).compile();
+
+    service = module.get<PersonQueryService>(PersonQueryService);
+    jest.clearAllMocks();
+  });
+
+  it('should return a page, a next cursor, the total and facets', async () => {
+    mockRepo.query
+      .mockResolvedValueOnce([facetsRow])
+      .mockResolvedValueOnce(rows);
+
+    const result = await service.query({ categories: ['writer'], limit: 2 });
+    expect(result.items.map((p) => p.id)).toEqual(['a', 'b']);
+    expect(result.total).toBe(3);
+    expect(result.facets.occupations).toEqual([{ value: 'поет', count: 2 }]);
+    expect(result.nextCursor).toBe(
+      encodeCursor({ sort: 'rating', value: 8, id: 'b' }),
+    );
+
+    const [sql, params] = mockRepo.query.mock.calls[1];
+    expect(sql).toContain('p.category = ANY($1)');
+    expect(sql).toContain('ORDER BY sort_value DESC, p.id DESC');
+    expect(params).toEqual([['writer'], 3]);
+  });
+
+  it('should continue after the cursor position', async () => {
+    mockRepo.query
+      .mockResolvedValueOnce([facetsRow])
+      .mockResolvedValueOnce(rows.slice(2));
+    const cursor = encodeCursor({ sort: 'rating', value: 8, id: CURSOR_ID });
+
+    const result = await service.query({ cursor, limit: 2 });
+    expect(result.nextCursor).toBeNull();
+    const [sql, params] = mockRepo.query.mock.calls[1];
+    expect(sql).toContain('(p.rating, p.id) < ($1::float8, $2::uuid)');
+    expect(params).toEqual([8, CURSOR_ID, 3]);
+  });
+
+  it('should put the text query first and sort by relevance', async () => {
+    mockRepo.query.mockResolvedValue([]);
+
+    await service.query({ q: 'Шевченко', minRating: 5, isManual: false });
+    const [sql, params] = mockRepo.query.mock.calls[1];
+    expect(sql).toContain('similarity(p.name, $1)::float8 AS sort_value');
+    expect(sql).toContain('p.rating >= $2');
+    expect(sql).toContain('p."isManual" = $3');
+    expect(params).toEqual(['Шевченко', 5, false, 21]);
+  });
+
+  it('should filter by geometry on the death location', async () => {
+    mockRepo.query.mockResolvedValue([]);
+    const polygon = { type: 'Polygon', coordinates: [] };
+
+    await service.query({ geometry: polygon, geometryTarget: 'death' });
+    const [sql, params] = mockRepo.query.mock.calls[0];
+    expect(sql).toContain('ST_Intersects(p."deathLocation"');
+    expect(params).toEqual([JSON.stringify(polygon)]);
+  });
+
+  it('should only compare death years stored as numbers', async () => {
+    mockRepo.query.mockResolvedValue([]);
+
+    await service.query({ deathYearFrom: 1850, deathYearTo: 1900 });
+    const [sql, params] = mockRepo.query.mock.calls[0];
+    expect(sql).toContain(
+      "CASE WHEN jsonb_typeof(p.meta_data->'deathYear') = 'number'",
+    );
+    expect(sql).not.toContain("(p.meta_data->>'deathYear')::int");
+    expect(params).toEqual([1850, 1900]);
+  });
+
+  it('should reject a cursor from a different sort', async () => {
+    const cursor = encodeCursor({ sort: 'name', value: 'B', id: 'b' });
+
+    await expect(service.query({ cursor })).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(mockRepo.query).not.toHaveBeenCalled();
+  });
+
+  it('should reject a malformed cursor', async () => {
+    await expect(service.query({ cursor: 'not-a-cursor' })).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it.each([
+    { sort: 'rating', value: 'abc', id: CURSOR_ID },
+    { sort: 'birthYear', value: 1814.5, id: CURSOR_ID },
+    { sort: 'name', value: 42, id: CURSOR_ID },
+    { sort: 'rating', value: 8, id: "b'; --" },
+  ])('should reject a cursor with values of the wrong type: %j', async (c) => {
+    const cursor = encodeCursor(c);
+
+    await expect(
+      service.query({ cursor, sort: c.sort as PersonQuerySort }),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockRepo.query).not.toHaveBeenCalled();
+  });
+
+  it('should require q for relevance sort', async () => {
+    await expect(service.query({ sort: 'relevance' })).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(mockRepo.query).not.toHaveBeenCalled();
+  });
+});
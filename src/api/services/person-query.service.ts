@@ -0,0 +1,250 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Person } from '../entities/person.entity';
+import { PersonQueryDto, PersonQuerySort } from '../dtos/search.dto';
+import {
+  CursorPage,
+  CursorValueType,
+  assertCursorValues,
+  decodeCursor,
+  encodeCursor,
+} from '../pagination/cursor';
+import { NOT_DELETED, SearchService } from './search.service';
+
+export interface FacetCount<T = string> {
+  value: T;
+  count: number;
+}
+
+export interface PersonFacets {
+  categories: FacetCount[];
+  occupations: FacetCount[];
+  decades: FacetCount<number>[];
+}
+
+export interface PersonQueryResult extends CursorPage<Person> {
+  total: number;
+  facets: PersonFacets;
+}
+
+interface SortSpec {
+  /** SQL expression; `q` is the placeholder of the text query, if any. */
+  expr: (q: string | null) => string;
+  /** Cast for the cursor value so the row comparison is typed. */
+  cast: CursorValueType;
+  direction: 'ASC' | 'DESC';
+}
+
+interface PersonCursor extends Record<string, unknown> {
+  sort: PersonQuerySort;
+  value: string | number;
+  id: string;
+}
+
+/**
+ * meta_data is free-form, so deathYear may be a string or anything else;
+ * only JSON numbers are compared, and other values never match.
+ */
+const DEATH_YEAR = `(CASE WHEN jsonb_typeof(p.meta_data->'deathYear') = 'number'
+  THEN (p.meta_data->>'deathYear')::numeric END)`;
+
+const SORTS: Record<PersonQuerySort, SortSpec> = {
+  relevance: {
+    expr: (q) => `similarity(p.name, ${q})::float8`,
+    cast: 'float8',
+    direction: 'DESC',
+  },
+  rating: { expr: () => 'p.rating', cast: 'float8', direction: 'DESC' },
+  name: { expr: () => 'p.name', cast: 'text', direction: 'ASC' },
+  // Persons without a birth year go last
+  birthYear: {
+    expr: () => `COALESCE(p."birthYear", 2147483647)`,
+    cast: 'int',
+    direction: 'ASC',
+  },
+};
+
+@Injectable()
+export class PersonQueryService {
+  private readonly DEFAULT_LIMIT = 20;
+  private readonly OCCUPATION_FACET_LIMIT = 30;
+
+  constructor(
+    @InjectRepository(Person)
+    private personRepository: Repository<Person>,
+    private readonly searchService: SearchService,
+  ) {}
+
+  /**
+   * Combined search over text, attributes and geometry with keyset
+   * pagination. Facet counts and the total describe the whole filtered
+   * result set, not just the current page.
+   */
+  async query(dto: PersonQueryDto): Promise<PersonQueryResult> {
+    const q = dto.q?.trim() || null;
+    const sort: PersonQuerySort = dto.sort ?? (q ? 'relevance' : 'rating');
+    if (sort === 'relevance' && !q) {
+      throw new BadRequestException('Sorting by relevance requires q');
+    }
+    const limit = dto.limit ?? this.DEFAULT_LIMIT;
+    const cursor = dto.cursor ? decodeCursor<PersonCursor>(dto.cursor) : null;
+    if (cursor && cursor.sort !== sort) {
+      throw new BadRequestException('Cursor does not match the sort');
+    }
+    if (cursor) {
+      assertCursorValues([
+        [cursor.value, SORTS[sort].cast],
+        [cursor.id, 'uuid'],
+      ]);
+    }
+
+    const params: unknown[] = [];
+    const where = [
+      NOT_DELETED,
+      ...this.buildConditions({ ...dto, q }, params),
+    ].join(' AND ');
+    const spec = SORTS[sort];
+    const sortExpr = spec.expr(q ? '$1' : null);
+
+    const facets = await this.loadFacets(where, params);
+
+    const pageParams = [...params];
+    let keyset = '';
+    if (cursor) {
+      pageParams.push(cursor.value, cursor.id);
+      const op = spec.direction === 'DESC' ? '<' : '>';
+      keyset = ` AND (${sortExpr}, p.id) ${op} ($${pageParams.length - 1}::${spec.cast}, $${pageParams.length}::uuid)`;
+    }
+    pageParams.push(limit + 1);
+
+    const rows = await this.personRepository.query(
+      `SELECT p.*, ${sortExpr} AS sort_value
+       FROM person p
+       WHERE ${where}${keyset}
+       ORDER BY sort_value ${spec.direction}, p.id ${spec.direction}
+       LIMIT $${pageParams.length}`,
+      pageParams,
+    );
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      rows.length > limit
+        ? encodeCursor({ sort, value: last.sort_value, id: last.id })
+        : null;
+
+    return {
+      items: page.map((row: any) => this.searchService.mapRowToPerson(row)),
+      nextCursor,
+      total: facets.total,
+      facets: {
+        categories: facets.categories,
+        occupations: facets.occupations,
+        decades: facets.decades,
+      },
+    };
+  }
+
+  /**
+   * SQL conditions on alias `p`. The text query, when present, is always
+   * parameter $1 so the relevance sort can reference it.
+   */
+  private buildConditions(dto: PersonQueryDto, params: unknown[]): string[] {
+    const conditions: string[] = [];
+    const add = (sql: (placeholder: string) => string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql(`$${params.length}`));
+    };
+
+    if (dto.q) {
+      add(
+        (ph) =>
+          `(p.name % ${ph} OR to_tsvector('simple', coalesce(p.name, '') || ' ' || coalesce(p.summary, '')) @@ plainto_tsquery('simple', ${ph}))`,
+        dto.q,
+      );
+    }
+    if (dto.categories?.length) {
+      add((ph) => `p.category = ANY(${ph})`, dto.categories);
+    }
+    if (dto.occupations?.length) {
+      add(
+        (ph) => `p.meta_data->'occupation' ?| ${ph}::text[]`,
+        dto.occupations,
+      );
+    }
+    if (dto.birthYearFrom != null) {
+      add((ph) => `p."birthYear" >= ${ph}`, dto.birthYearFrom);
+    }
+    if (dto.birthYearTo != null) {
+      add((ph) => `p."birthYear" <= ${ph}`, dto.birthYearTo);
+    }
+    if (dto.deathYearFrom != null) {
+      add((ph) => `${DEATH_YEAR} >= ${ph}`, dto.deathYearFrom);
+    }
+    if (dto.deathYearTo != null) {
+      add((ph) => `${DEATH_YEAR} <= ${ph}`, dto.deathYearTo);
+    }
+    if (dto.geometry) {
+      const column =
+        dto.geometryTarget === 'death'
+          ? 'p."deathLocation"'
+          : 'p."birthLocation"';
+      add(
+        (ph) =>
+          `ST_Intersects(${column}, ST_SetSRID(ST_GeomFromGeoJSON(${ph}), 4326))`,
+        JSON.stringify(dto.geometry),
+      );
+    }
+    if (dto.minRating != null) {
+      add((ph) => `p.rating >= ${ph}`, dto.minRating);
+    }
+    if (dto.isManual != null) {
+      add((ph) => `p."isManual" = ${ph}`, dto.isManual);
+    }
+    return conditions;
+  }
+
+  private async loadFacets(
+    where: string,
+    params: unknown[],
+  ): Promise<PersonFacets & { total: number }> {
+    const [row] = await this.personRepository.query(
+      `WITH matched AS (
+         SELECT p.category, p."birthYear", p.meta_data
+         FROM person p
+         WHERE ${where}
+       )
+       SELECT
+         (SELECT COUNT(*)::int FROM matched) AS total,
+         (SELECT COALESCE(json_agg(c ORDER BY c.count DESC), '[]')
+          FROM (SELECT category AS value, COUNT(*)::int AS count
+                FROM matched
+                WHERE category IS NOT NULL AND category != ''
+                GROUP BY category) c) AS categories,
+         (SELECT COALESCE(json_agg(o ORDER BY o.count DESC), '[]')
+          FROM (SELECT occ AS value, COUNT(*)::int AS count
+                FROM matched,
+                     jsonb_array_elements_text(
+                       CASE WHEN jsonb_typeof(meta_data->'occupation') = 'array'
+                            THEN meta_data->'occupation' ELSE '[]'::jsonb END
+                     ) AS occ
+                GROUP BY occ
+                ORDER BY count DESC
+                LIMIT ${this.OCCUPATION_FACET_LIMIT}) o) AS occupations,
+         (SELECT COALESCE(json_agg(d ORDER BY d.value), '[]')
+          FROM (SELECT (FLOOR("birthYear" / 10) * 10)::int AS value,
+                       COUNT(*)::int AS count
+                FROM matched
+                WHERE "birthYear" IS NOT NULL
+                GROUP BY 1) d) AS decades`,
+      params,
+    );
+    return {
+      total: row?.total ?? 0,
+      categories: row?.categories ?? [],
+      occupations: row?.occupations ?? [],
+      decades: row?.decades ?? [],
+    };
+  }
+}
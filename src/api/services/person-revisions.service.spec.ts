@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { PersonRevisionsService } from './person-revisions.service';
+import {
+  PersonRevision,
+  RevisionSource,
+} from '../entities/person-revision.entity';
+import { Person } from '../entities/person.entity';
+
+const person: Partial<Person> & { id: string } = {
+  id: 'test-uuid-1',
+  name: 'Taras Shevchenko',
+  birthYear: 1814,
+  birthPlace: 'Моринці',
+  meta_data: { occupation: ['поет'] },
+  views: 1000,
+  rating: 9.5,
+  isManual: false,
+};
+
+describe('PersonRevisionsService', () => {
+  let service: PersonRevisionsService;
+  const mockRepo = {
+    create: jest.fn((r) => r),
+    save: jest.fn(async (r) => r),
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PersonRevisionsService,
+        { provide: getRepositoryToken(PersonRevision), useValue: mockRepo },
+      ],
+    }).compile();
+
+    service = module.get<PersonRevisionsService>(PersonRevisionsService);
+    jest.clearAllMocks();
+  });
+
+  describe('record', () => {
+    it('should store the snapshot and the changed fields', async () => {
+      const after = { ...person, name: 'Тарас Шевченко', views: 2000 };
+
+      const revision = await service.record(person, after, {
+        source: RevisionSource.MANUAL,
+        actorId: 7,
+      });
+
+      expect(revision).toMatchObject({
+        personId: 'test-uuid-1',
+        source: RevisionSource.MANUAL,
+        actorId: 7,
+        proposedEditId: null,
+        changes: { name: { old: 'Taras Shevchenko', new: 'Тарас Шевченко' } },
+      });
+      expect(revision!.snapshot.name).toBe('Тарас Шевченко');
+      expect(revision!.snapshot).not.toHaveProperty('views');
+    });
+
+    it('should record every set field for a new person', async () => {
+      const revision = await service.record(null, person, {
+        source: RevisionSource.WIKIPEDIA_SYNC,
+      });
+      expect(revision!.changes.birthPlace).toEqual({
+        old: null,
+        new: 'Моринці',
+      });
+      expect(revision!.actorId).toBeNull();
+    });
+
+    it('should skip writes that changed no tracked field', async () => {
+      const after = {
+        ...person,
+        meta_data: { occupation: ['поет'], deathPlace: undefined },
+        rating: 3,
+      };
+      const revision = await service.record(person, after, {
+        source: RevisionSource.WIKIPEDIA_SYNC,
+      });
+      expect(revision).toBeNull();
+      expect(mockRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('diff', () => {
+    it('should compare the snapshots of two revisions', async () => {
+      mockRepo.findOne
+        .mockResolvedValueOnce({ id: 1, snapshot: { name: 'A', lat: 50 } })
+        .mockResolvedValueOnce({ id: 4, snapshot: { name: 'B', lat: 50 } });
+
+      const result = await service.diff('test-uuid-1', 1, 4);
+      expect(result).toEqual({
+        from: 1,
+        to: 4,
+        changes: { name: { old: 'A', new: 'B' } },
+      });
+    });
+
+    it('should throw NotFoundException for a revision of another person', async () => {
+      mockRepo.findOne.mockResolvedValue(null);
+      await expect(service.diff('test-uuid-1', 1, 4)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
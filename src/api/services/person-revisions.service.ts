@@ -0,0 +1,180 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { isDeepStrictEqual } from 'util';
+import {
+  FieldChanges,
+  PersonRevision,
+  RevisionSource,
+} from '../entities/person-revision.entity';
+import { Person } from '../entities/person.entity';
+import { CursorPageQueryDto } from '../dtos/pagination.dto';
+import { CursorPage } from '../pagination/cursor';
+import { paginate } from '../pagination/paginate';
+
+/**
+ * Person fields kept in revisions and restored by a rollback. Views and
+ * rating are traffic metrics recomputed on every sync, and the PostGIS
+ * columns are derived from lat/lng, so none of them are tracked.
+ */
+export const REVISION_FIELDS: (keyof Person)[] = [
+  'name',
+  'slug',
+  'wikiPageId',
+  'summary',
+  'birthYear',
+  'birthDate',
+  'birthPlace',
+  'birthOblast',
+  'birthCountryModern',
+  'lat',
+  'lng',
+  'deathLat',
+  'deathLng',
+  'deathOblast',
+  'deathCountryModern',
+  'meta_data',
+  'imageUrl',
+  'category',
+  'isManual',
+];
+
+export type PersonSnapshot = Record<string, any>;
+
+export interface RevisionContext {
+  source: RevisionSource;
+  actorId?: number | null;
+  proposedEditId?: string | null;
+  restoredFromId?: number | null;
+}
+
+export interface RevisionEntry {
+  /** State before the write; null for a newly created person. */
+  before: Partial<Person> | null;
+  after: Partial<Person> & { id: string };
+}
+
+export interface RevisionDiff {
+  from: number;
+  to: number;
+  changes: FieldChanges;
+}
+
+@Injectable()
+export class PersonRevisionsService {
+  constructor(
+    @InjectRepository(PersonRevision)
+    private revisionRepository: Repository<PersonRevision>,
+  ) {}
+
+  /**
+   * Tracked fields of a person. Values go through JSON so that jsonb
+   * round-trips (undefined keys, key order) do not show up as changes.
+   */
+  snapshot(person: Partial<Person>): PersonSnapshot {
+    const snapshot: PersonSnapshot = {};
+    for (const field of REVISION_FIELDS) {
+      const value = person[field];
+      snapshot[field] =
+        value == null ? null : JSON.parse(JSON.stringify(value));
+    }
+    return snapshot;
+  }
+
+  diffSnapshots(
+    before: PersonSnapshot | null,
+    after: PersonSnapshot,
+  ): FieldChanges {
+    const changes: FieldChanges = {};
+    for (const field of REVISION_FIELDS) {
+      const old = before?.[field] ?? null;
+      const value = after[field] ?? null;
+      if (!isDeepStrictEqual(old, value)) {
+        changes[field] = { old, new: value };
+      }
+    }
+    return changes;
+  }
+
+  /** Names of the tracked fields that differ between two states. */
+  changedFields(before: Partial<Person> | null, after: Partial<Person>) {
+    return Object.keys(
+      this.diffSnapshots(
+        before ? this.snapshot(before) : null,
+        this.snapshot(after),
+      ),
+    );
+  }
+
+  /** Store a revision for one write; writes that changed nothing are skipped. */
+  async record(
+    before: Partial<Person> | null,
+    after: Partial<Person> & { id: string },
+    context: RevisionContext,
+  ): Promise<PersonRevision | null> {
+    const [revision] = await this.recordMany([{ before, after }], context);
+    return revision ?? null;
+  }
+
+  async recordMany(
+    entries: RevisionEntry[],
+    context: RevisionContext,
+  ): Promise<PersonRevision[]> {
+    const revisions = entries
+      .map(({ before, after }) => {
+        const snapshot = this.snapshot(after);
+        const changes = this.diffSnapshots(
+          before ? this.snapshot(before) : null,
+          snapshot,
+        );
+        if (Object.keys(changes).length === 0) return null;
+        return this.revisionRepository.create({
+          personId: after.id,
+          source: context.source,
+          actorId: context.actorId ?? null,
+          proposedEditId: context.proposedEditId ?? null,
+          restoredFromId: context.restoredFromId ?? null,
+          snapshot,
+          changes,
+        });
+      })
+      .filter((r): r is PersonRevision => r !== null);
+    if (revisions.length === 0) return [];
+    return this.revisionRepository.save(revisions);
+  }
+
+  /** A person's revisions, newest first. */
+  async findByPerson(
+    personId: string,
+    page: CursorPageQueryDto = {},
+  ): Promise<CursorPage<PersonRevision>> {
+    return paginate(this.revisionRepository, page, {
+      sortColumn: 'id',
+      sortType: 'int',
+      where: { personId },
+    });
+  }
+
+  async findOne(personId: string, id: number): Promise<PersonRevision> {
+    const revision = await this.revisionRepository.findOne({
+      where: { id, personId },
+    });
+    if (!revision) {
+      throw new NotFoundException(`Revision with id ${id} not found`);
+    }
+    return revision;
+  }
+
+  /** Field-level difference between the states after two revisions. */
+  async diff(
+    personId: string,
+    from: number,
+    to: number,
+  ): Promise<RevisionDiff> {
+    const [a, b] = await Promise.all([
+      this.findOne(personId, from),
+      this.findOne(personId, to),
+    ]);
+    return { from, to, changes: this.diffSnapshots(a.snapshot, b.snapshot) };
+  }
+}
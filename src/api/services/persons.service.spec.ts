@@ -1,8 +1,12 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { NotFoundException } from '@nestjs/common';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PersonsService } from './persons.service';
 import { Person } from '../entities/person.entity';
+import { PlaceNormalizationService } from '../geocoding/place-normalization.service';
+import { PersonRevisionsService } from './person-revisions.service';
+import { RevisionSource } from '../entities/person-revision.entity';
 
 const mockPerson: Partial<Person> = {
   id: 'test-uuid-1',
@@ -24,7 +28,26 @@ describe('PersonsService', () => {
     save: jest.fn(),
     findOne: jest.fn(),
     remove: jest.fn(),
+    softRemove: jest.fn(),
+    restore: jest.fn(),
     query: jest.fn(),
+    createQueryBuilder: jest.fn(),
+    manager: {
+      transaction: jest.fn(async (work) =>
+        work({ getRepository: () => mockRepo }),
+      ),
+    },
+  };
+  const mockConfig = {
+    get: jest.fn(),
+  };
+  const mockPlaceNormalization = {
+    normalize: jest.fn(),
+  };
+  const mockRevisions = {
+    record: jest.fn(),
+    findOne: jest.fn(),
+    changedFields: jest.fn().mockReturnValue([]),
   };
 
   beforeEach(async () => {
@@ -32,6 +55,12 @@ describe('PersonsService', () => {
       providers: [
         PersonsService,
         { provide: getRepositoryToken(Person), useValue: mockRepo },
+        {
+          provide: PlaceNormalizationService,
+          useValue: mockPlaceNormalization,
+        },
+        { provide: PersonRevisionsService, useValue: mockRevisions },
+        { provide: ConfigService, useValue: mockConfig },
       ],
     }).compile();
 
@@ -88,6 +117,28 @@ describe('PersonsService', () => {
       await service.create(dto);
       expect(mockRepo.query).not.toHaveBeenCalled();
     });
+
+    it('should derive the modern oblast and country from birthPlace', async () => {
+      const dto = { name: 'Historic Person', birthPlace: 'Єлисаветград' };
+      mockPlaceNormalization.normalize.mockResolvedValue({
+        settlement: 'Кропивницький',
+        oblast: 'Кіровоградська область',
+        countryModern: 'Україна',
+      });
+      mockRepo.create.mockImplementation((p) => p);
+      mockRepo.save.mockImplementation(async (p) => ({
+        ...p,
+        id: 'test-uuid-5',
+      }));
+
+      await service.create(dto);
+      expect(mockRepo.create).toHaveBeenCalledWith({
+        ...dto,
+        birthOblast: 'Кіровоградська область',
+        birthCountryModern: 'Україна',
+        isManual: true,
+      });
+    });
   });
 
   describe('update', () => {
@@ -101,6 +152,68 @@ describe('PersonsService', () => {
       expect(result.name).toBe('Updated Name');
     });
 
+    it('should record a manual revision with the previous state', async () => {
+      mockRepo.findOne.mockResolvedValue({ ...mockPerson });
+      mockRepo.save.mockImplementation(async (p) => p);
+
+      await service.update('test-uuid-1', { name: 'Updated Name' }, 7);
+      expect(mockRevisions.record).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Taras Shevchenko' }),
+        expect.objectContaining({ name: 'Updated Name' }),
+        { source: RevisionSource.MANUAL, actorId: 7 },
+      );
+    });
+
+    it('should lock the changed fields against sync', async () => {
+      mockRepo.findOne.mockResolvedValue({ ...mockPerson });
+      mockRepo.save.mockImplementation(async (p) => p);
+      mockRevisions.changedFields.mockReturnValueOnce(['name']);
+
+      const result = await service.update('test-uuid-1', { name: 'Тарас' }, 7);
+      expect(result.provenance.name).toMatchObject({
+        source: RevisionSource.MANUAL,
+        actorId: 7,
+        locked: true,
+      });
+      expect(result.provenance).not.toHaveProperty('birthPlace');
+    });
+
+    it('should re-derive regions and both PostGIS points', async () => {
+      mockRepo.findOne.mockResolvedValue({ ...mockPerson });
+      mockRepo.save.mockImplementation(async (p) => p);
+      mockPlaceNormalization.normalize.mockResolvedValue({
+        oblast: 'Київська',
+        countryModern: 'Україна',
+      });
+
+      const result = await service.update('test-uuid-1', {
+        birthPlace: 'Київ',
+        deathLat: 0,
+        deathLng: 30.5,
+      });
+      expect(result.birthOblast).toBe('Київська');
+      expect(mockRepo.query).toHaveBeenCalledWith(
+        expect.stringContaining('"deathLocation"'),
+        ['test-uuid-1'],
+      );
+    });
+
+    it('should attribute changes from a proposal to it', async () => {
+      mockRepo.findOne.mockResolvedValue({ ...mockPerson });
+      mockRepo.save.mockImplementation(async (p) => p);
+
+      await service.update('test-uuid-1', { name: 'Тарас' }, 7, 'edit-1');
+      expect(mockRevisions.record).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        {
+          source: RevisionSource.PROPOSED_EDIT,
+          actorId: 7,
+          proposedEditId: 'edit-1',
+        },
+      );
+    });
+
     it('should throw NotFoundException when updating non-existent person', async () => {
       mockRepo.findOne.mockResolvedValue(null);
       await expect(service.update('test-uuid-999', { name: 'X' })).rejects.toThrow(
@@ -109,13 +222,82 @@ describe('PersonsService', () => {
     });
   });
 
+  describe('rollback', () => {
+    it('should restore the revision snapshot and record a rollback', async () => {
+      mockRepo.findOne.mockResolvedValue({ ...mockPerson, name: 'Vandalized' });
+      mockRepo.save.mockImplementation(async (p) => p);
+      mockRevisions.findOne.mockResolvedValue({
+        id: 3,
+        snapshot: { name: 'Taras Shevchenko', lat: 49.08, lng: 30.45 },
+      });
+
+      mockRevisions.changedFields.mockReturnValueOnce(['name']);
+
+      const result = await service.rollback('test-uuid-1', 3, 7);
+      expect(result.name).toBe('Taras Shevchenko');
+      expect(result.provenance.name).toMatchObject({
+        source: RevisionSource.ROLLBACK,
+        locked: true,
+      });
+      expect(mockRevisions.findOne).toHaveBeenCalledWith('test-uuid-1', 3);
+      expect(mockRepo.query).toHaveBeenCalledWith(
+        expect.stringContaining('"birthLocation"'),
+        ['test-uuid-1'],
+      );
+      expect(mockRevisions.record).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Vandalized' }),
+        result,
+        { source: RevisionSource.ROLLBACK, actorId: 7, restoredFromId: 3 },
+      );
+    });
+
+    it('should throw NotFoundException for an unknown revision', async () => {
+      mockRepo.findOne.mockResolvedValue({ ...mockPerson });
+      mockRevisions.findOne.mockRejectedValue(new NotFoundException());
+      await expect(service.rollback('test-uuid-1', 99, 7)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setLocks', () => {
+    it('should unlock fields while keeping their source', async () => {
+      mockRepo.findOne.mockResolvedValue({
+        ...mockPerson,
+        provenance: {
+          summary: {
+            source: RevisionSource.MANUAL,
+            setAt: '2026-01-01T00:00:00.000Z',
+            actorId: 7,
+            locked: true,
+          },
+        },
+      });
+      mockRepo.save.mockImplementation(async (p) => p);
+
+      const result = await service.setLocks('test-uuid-1', {
+        fields: ['summary', 'imageUrl'],
+        locked: false,
+      });
+      expect(result.summary).toMatchObject({ actorId: 7, locked: false });
+      expect(result.imageUrl).toEqual({
+        source: null,
+        setAt: null,
+        actorId: null,
+        locked: false,
+      });
+    });
+  });
+
   describe('remove', () => {
-    it('should remove the person', async () => {
+    it('should move the person to the trash', async () => {
       mockRepo.findOne.mockResolvedValue(mockPerson);
-      mockRepo.remove.mockResolvedValue(undefined);
+      mockRepo.softRemove.mockResolvedValue(undefined);
 
       await service.remove('test-uuid-1');
-      expect(mockRepo.remove).toHaveBeenCalledWith(mockPerson);
+      expect(mockRepo.softRemove).toHaveBeenCalledWith(mockPerson);
+      expect(mockRepo.remove).not.toHaveBeenCalled();
     });
 
     it('should throw NotFoundException when removing non-existent person', async () => {
@@ -123,4 +305,133 @@ describe('PersonsService', () => {
       await expect(service.remove('test-uuid-999')).rejects.toThrow(NotFoundException);
     });
   });
+
+  describe('excludeAndRemove', () => {
+    it('should keep the trashed person out of future syncs', async () => {
+      mockRepo.findOne.mockResolvedValue({ ...mockPerson });
+
+      await service.excludeAndRemove('test-uuid-1');
+      expect(mockRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ excludedFromSync: true }),
+      );
+      expect(mockRepo.softRemove).toHaveBeenCalled();
+    });
+  });
+
+  describe('merge', () => {
+    const ctx = { source: RevisionSource.PROPOSED_EDIT, actorId: 1 };
+
+    it('should fill missing fields from the duplicate and trash it', async () => {
+      const duplicate = {
+        id: 'test-uuid-2',
+        name: 'Шевченко Тарас Григорович',
+        wikiPageId: 42,
+        summary: 'Poet',
+        birthPlace: 'Kyiv',
+        birthOblast: 'Київська',
+        meta_data: { occupation: ['poet'] },
+      };
+      mockRepo.findOne
+        .mockResolvedValueOnce({ ...mockPerson, meta_data: {} })
+        .mockResolvedValueOnce(duplicate);
+      mockRepo.save.mockImplementation(async (p) => p);
+
+      const result = await service.merge('test-uuid-1', 'test-uuid-2', ctx);
+      expect(result).toMatchObject({
+        summary: 'Poet',
+        // The target's own birth place is kept, with no foreign oblast
+        birthPlace: 'Moryntsi',
+        wikiPageId: 42,
+        meta_data: {
+          occupation: ['poet'],
+          alternativeNames: ['Шевченко Тарас Григорович'],
+        },
+      });
+      expect(result.birthOblast).toBeUndefined();
+      expect(duplicate).toMatchObject({
+        mergedIntoId: 'test-uuid-1',
+        excludedFromSync: true,
+        wikiPageId: null,
+      });
+      expect(mockRepo.softRemove).toHaveBeenCalledWith(duplicate);
+      expect(mockRepo.manager.transaction).toHaveBeenCalledTimes(1);
+      expect(mockRevisions.record).toHaveBeenCalledWith(
+        expect.anything(),
+        result,
+        ctx,
+      );
+    });
+
+    it('should record nothing when the merge fails midway', async () => {
+      mockRepo.findOne
+        .mockResolvedValueOnce({ ...mockPerson, meta_data: {} })
+        .mockResolvedValueOnce({ id: 'test-uuid-2', name: 'Duplicate' });
+      mockRepo.save.mockImplementation(async (p) => p);
+      mockRepo.softRemove.mockRejectedValueOnce(new Error('db down'));
+
+      await expect(
+        service.merge('test-uuid-1', 'test-uuid-2', ctx),
+      ).rejects.toThrow('db down');
+      expect(mockRepo.query).not.toHaveBeenCalled();
+      expect(mockRevisions.record).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to merge a person into itself', async () => {
+      await expect(
+        service.merge('test-uuid-1', 'test-uuid-1', ctx),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('restore', () => {
+    it('should take a trashed person out of the trash', async () => {
+      mockRepo.findOne
+        .mockResolvedValueOnce({ ...mockPerson, deletedAt: new Date() })
+        .mockResolvedValueOnce(mockPerson);
+
+      const result = await service.restore('test-uuid-1');
+      expect(mockRepo.restore).toHaveBeenCalledWith('test-uuid-1');
+      expect(result).toEqual(mockPerson);
+    });
+
+    it('should throw NotFoundException when the person is not in the trash', async () => {
+      mockRepo.findOne.mockResolvedValue(null);
+      await expect(service.restore('test-uuid-1')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockRepo.restore).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeExpired', () => {
+    const qb = {
+      delete: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      execute: jest.fn(),
+    };
+
+    beforeEach(() => {
+      mockRepo.createQueryBuilder.mockReturnValue(qb);
+      qb.execute.mockResolvedValue({ affected: 4 });
+    });
+
+    it('should hard-delete persons past the retention period', async () => {
+      mockConfig.get.mockReturnValue('7');
+      const result = await service.purgeExpired();
+      expect(result).toEqual({ purged: 4 });
+      expect(qb.where).toHaveBeenCalledWith(expect.any(String), { days: 7 });
+    });
+
+    it('should keep persons excluded from sync', async () => {
+      await service.purgeExpired();
+      expect(qb.andWhere).toHaveBeenCalledWith(`"excludedFromSync" = false`);
+    });
+
+    it('should default to 30 days of retention', async () => {
+      mockConfig.get.mockReturnValue(undefined);
+      await service.purgeExpired();
+      expect(qb.where).toHaveBeenCalledWith(expect.any(String), { days: 30 });
+    });
+  });
 });
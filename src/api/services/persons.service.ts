@@ -1,22 +1,81 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Person } from '../entities/person.entity';
-import { CreatePersonDto, UpdatePersonDto } from '../dtos/person.dto';
+import { IsNull, Not, Repository } from 'typeorm';
+import { FieldProvenance, Person } from '../entities/person.entity';
+import {
+  CreatePersonDto,
+  ListPersonsQueryDto,
+  LockFieldsDto,
+  UpdatePersonDto,
+} from '../dtos/person.dto';
+import { PlaceNormalizationService } from '../geocoding/place-normalization.service';
+import { CursorPageQueryDto } from '../dtos/pagination.dto';
+import { CursorPage } from '../pagination/cursor';
+import { paginate } from '../pagination/paginate';
+import { RevisionSource } from '../entities/person-revision.entity';
+import {
+  PersonRevisionsService,
+  RevisionContext,
+} from './person-revisions.service';
+import { setFieldLocks, stampProvenance } from '../provenance/field-provenance';
 
 @Injectable()
 export class PersonsService {
+  private readonly logger = new Logger(PersonsService.name);
+  private readonly DEFAULT_TRASH_RETENTION_DAYS = 30;
+  /**
+   * Fields a merge copies from the duplicate together, and only when the
+   * target has none of them, so a place never ends up with the
+   * coordinates or oblast of another one.
+   */
+  private readonly MERGE_FIELD_GROUPS: (keyof Person)[][] = [
+    ['summary'],
+    ['birthDate', 'birthYear'],
+    ['birthPlace', 'birthOblast', 'birthCountryModern'],
+    ['lat', 'lng'],
+    ['deathLat', 'deathLng', 'deathOblast', 'deathCountryModern'],
+    ['imageUrl'],
+    ['category'],
+  ];
+
   constructor(
     @InjectRepository(Person)
     private personRepository: Repository<Person>,
+    private readonly placeNormalization: PlaceNormalizationService,
+    private readonly revisions: PersonRevisionsService,
+    private readonly configService: ConfigService,
   ) {}
 
-  async create(dto: CreatePersonDto): Promise<Person> {
+  /** With `proposedEditId`, the person comes from an approved proposal. */
+  async create(
+    dto: CreatePersonDto,
+    actorId?: number,
+    proposedEditId?: string,
+  ): Promise<Person> {
+    const source = proposedEditId
+      ? RevisionSource.PROPOSED_EDIT
+      : RevisionSource.MANUAL;
     const person = this.personRepository.create({
       ...dto,
+      ...(await this.resolveRegions(dto)),
       isManual: true,
     });
-    const saved = await this.personRepository.save(person);
+    const saved = await this.personRepository.save({
+      ...person,
+      provenance: stampProvenance(
+        person.provenance,
+        this.revisions.changedFields(null, person),
+        source,
+        actorId,
+      ),
+    });
 
     // Update PostGIS geometry if coordinates provided
     if (dto.lat && dto.lng) {
@@ -25,10 +84,33 @@ export class PersonsService {
         [dto.lng, dto.lat, saved.id],
       );
     }
+    if (dto.deathLat && dto.deathLng) {
+      await this.personRepository.query(
+        `UPDATE person SET "deathLocation" = ST_SetSRID(ST_MakePoint($1, $2), 4326) WHERE id = $3`,
+        [dto.deathLng, dto.deathLat, saved.id],
+      );
+    }
 
+    await this.revisions.record(null, saved, {
+      source,
+      actorId,
+      proposedEditId,
+    });
     return saved;
   }
 
+  async findAll(query: ListPersonsQueryDto): Promise<CursorPage<Person>> {
+    return paginate(this.personRepository, query, {
+      sortColumn: 'rating',
+      sortType: 'float8',
+      where: {
+        ...(query.category ? { category: query.category } : {}),
+        ...(query.oblast ? { birthOblast: query.oblast } : {}),
+        ...(query.country ? { birthCountryModern: query.country } : {}),
+      },
+    });
+  }
+
   async findOne(id: string): Promise<Person> {
     const person = await this.personRepository.findOne({ where: { id } });
     if (!person) {
@@ -37,26 +119,266 @@ export class PersonsService {
     return person;
   }
 
-  async update(id: string, dto: UpdatePersonDto): Promise<Person> {
+  /** With `proposedEditId`, the changes come from an approved proposal. */
+  async update(
+    id: string,
+    dto: UpdatePersonDto,
+    actorId?: number,
+    proposedEditId?: string,
+  ): Promise<Person> {
+    const source = proposedEditId
+      ? RevisionSource.PROPOSED_EDIT
+      : RevisionSource.MANUAL;
     const person = await this.findOne(id);
-    Object.assign(person, dto);
+    const before = { ...person };
+    Object.assign(person, dto, await this.resolveRegions(dto));
+    person.provenance = stampProvenance(
+      person.provenance,
+      this.revisions.changedFields(before, person),
+      source,
+      actorId,
+    );
     const saved = await this.personRepository.save(person);
 
-    // Update PostGIS geometry if coordinates changed
-    const lat = dto.lat ?? person.lat;
-    const lng = dto.lng ?? person.lng;
-    if (lat && lng) {
-      await this.personRepository.query(
-        `UPDATE person SET "birthLocation" = ST_SetSRID(ST_MakePoint($1, $2), 4326) WHERE id = $3`,
-        [lng, lat, saved.id],
-      );
-    }
+    await this.syncGeometry(saved.id);
 
+    await this.revisions.record(before, saved, {
+      source,
+      actorId,
+      proposedEditId,
+    });
     return saved;
   }
 
+  /**
+   * Restore the tracked fields saved in a revision. The restored state is
+   * itself recorded as a new revision, so a rollback can be undone too.
+   * Restored fields are locked so the next sync does not reapply the
+   * data that was rolled back.
+   */
+  async rollback(
+    id: string,
+    revisionId: number,
+    actorId: number,
+  ): Promise<Person> {
+    const person = await this.findOne(id);
+    const revision = await this.revisions.findOne(id, revisionId);
+    const before = { ...person };
+    Object.assign(person, revision.snapshot);
+    person.provenance = stampProvenance(
+      person.provenance,
+      this.revisions.changedFields(before, person),
+      RevisionSource.ROLLBACK,
+      actorId,
+    );
+    const saved = await this.personRepository.save(person);
+
+    await this.syncGeometry(saved.id);
+
+    await this.revisions.record(before, saved, {
+      source: RevisionSource.ROLLBACK,
+      actorId,
+      restoredFromId: revision.id,
+    });
+    return saved;
+  }
+
+  /** Lock fields against sync, or unlock them so sync refreshes them. */
+  async setLocks(
+    id: string,
+    dto: LockFieldsDto,
+  ): Promise<Record<string, FieldProvenance>> {
+    const person = await this.findOne(id);
+    person.provenance = setFieldLocks(
+      person.provenance,
+      dto.fields,
+      dto.locked,
+    );
+    await this.personRepository.save(person);
+    return person.provenance;
+  }
+
+  /**
+   * Move a person to the trash. Revisions stay in place until the person
+   * is purged; proposed edits are kept after that too.
+   */
   async remove(id: string): Promise<void> {
     const person = await this.findOne(id);
-    await this.personRepository.remove(person);
+    await this.personRepository.softRemove(person);
+  }
+
+  /**
+   * Trash a person that should not be on the map at all, e.g. a page
+   * that is not about a person. Unlike remove(), the Wikipedia sync will
+   * not restore or re-import it.
+   */
+  async excludeAndRemove(id: string): Promise<void> {
+    const person = await this.findOne(id);
+    person.excludedFromSync = true;
+    await this.personRepository.manager.transaction(async (manager) => {
+      const persons = manager.getRepository(Person);
+      await persons.save(person);
+      await persons.softRemove(person);
+    });
+  }
+
+  /**
+   * Merge a duplicate into `targetId`. Fields the target lacks are taken
+   * from the duplicate and its name is kept as an alternative name. The
+   * duplicate is trashed and excluded from sync, and keeps a pointer to
+   * the person it was merged into. Both records are written in one
+   * transaction, so a failure leaves neither half-merged.
+   */
+  async merge(
+    targetId: string,
+    duplicateId: string,
+    ctx: RevisionContext,
+  ): Promise<Person> {
+    if (targetId === duplicateId) {
+      throw new BadRequestException('Cannot merge a person into itself');
+    }
+    const target = await this.findOne(targetId);
+    const duplicate = await this.findOne(duplicateId);
+    const before = { ...target };
+
+    const isEmpty = (value: unknown) => value == null || value === '';
+    for (const group of this.MERGE_FIELD_GROUPS) {
+      const fill =
+        group.every((field) => isEmpty(target[field])) &&
+        group.some((field) => !isEmpty(duplicate[field]));
+      if (fill) {
+        for (const field of group) {
+          (target as any)[field] = duplicate[field];
+        }
+      }
+    }
+
+    const alternativeNames = new Set([
+      ...(target.meta_data?.alternativeNames ?? []),
+      ...(duplicate.meta_data?.alternativeNames ?? []),
+    ]);
+    if (duplicate.name !== target.name) alternativeNames.add(duplicate.name);
+    alternativeNames.delete(target.name);
+    target.meta_data = {
+      ...duplicate.meta_data,
+      ...target.meta_data,
+      ...(alternativeNames.size > 0
+        ? { alternativeNames: [...alternativeNames] }
+        : {}),
+    };
+
+    // The Wikipedia page follows the surviving record
+    if (!target.wikiPageId && duplicate.wikiPageId) {
+      target.wikiPageId = duplicate.wikiPageId;
+      duplicate.wikiPageId = null;
+    }
+
+    target.provenance = stampProvenance(
+      target.provenance,
+      this.revisions.changedFields(before, target),
+      ctx.source,
+      ctx.actorId,
+    );
+    duplicate.mergedIntoId = target.id;
+    duplicate.excludedFromSync = true;
+    const saved = await this.personRepository.manager.transaction(
+      async (manager) => {
+        const persons = manager.getRepository(Person);
+        await persons.save(duplicate);
+        await persons.softRemove(duplicate);
+        return persons.save(target);
+      },
+    );
+
+    await this.syncGeometry(saved.id);
+
+    await this.revisions.record(before, saved, ctx);
+    return saved;
+  }
+
+  /** Trashed persons, most recently deleted first. */
+  async findTrash(page: CursorPageQueryDto): Promise<CursorPage<Person>> {
+    return paginate(this.personRepository, page, {
+      sortColumn: 'deletedAt',
+      sortType: 'timestamp',
+      where: { deletedAt: Not(IsNull()) },
+      withDeleted: true,
+    });
+  }
+
+  async restore(id: string): Promise<Person> {
+    const person = await this.personRepository.findOne({
+      where: { id, deletedAt: Not(IsNull()) },
+      withDeleted: true,
+    });
+    if (!person) {
+      throw new NotFoundException(`Person with id ${id} not found in trash`);
+    }
+    await this.personRepository.restore(id);
+    return this.findOne(id);
+  }
+
+  /**
+   * Permanently delete persons that have been in the trash longer than
+   * TRASH_RETENTION_DAYS (default 30). Their revisions go with them;
+   * proposed edits are kept, without the person, as contributor history.
+   * Rows excluded from sync are kept: they are what stops
+   * the next sync from importing the page again.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purgeExpired(): Promise<{ purged: number }> {
+    const days =
+      parseInt(this.configService.get<string>('TRASH_RETENTION_DAYS'), 10) ||
+      this.DEFAULT_TRASH_RETENTION_DAYS;
+    const result = await this.personRepository
+      .createQueryBuilder()
+      .delete()
+      .where(`"deletedAt" < now() - make_interval(days => :days)`, { days })
+      .andWhere(`"excludedFromSync" = false`)
+      .execute();
+
+    const purged = result.affected ?? 0;
+    if (purged > 0) {
+      this.logger.log(`Purged ${purged} persons trashed over ${days} days ago`);
+    }
+    return { purged };
+  }
+
+  /** Recompute both PostGIS points from the stored coordinates. */
+  private async syncGeometry(id: string) {
+    await this.personRepository.query(
+      `UPDATE person SET
+         "birthLocation" = CASE WHEN lat IS NOT NULL AND lng IS NOT NULL
+           THEN ST_SetSRID(ST_MakePoint(lng, lat), 4326) END,
+         "deathLocation" = CASE WHEN "deathLat" IS NOT NULL AND "deathLng" IS NOT NULL
+           THEN ST_SetSRID(ST_MakePoint("deathLng", "deathLat"), 4326) END
+       WHERE id = $1`,
+      [id],
+    );
+  }
+
+  /**
+   * Derive the modern oblast / country of a changed birthPlace or
+   * meta_data.deathPlace, unless the caller set them explicitly.
+   */
+  private async resolveRegions(
+    dto: CreatePersonDto | UpdatePersonDto,
+  ): Promise<Partial<Person>> {
+    const regions: Partial<Person> = {};
+    if (dto.birthPlace) {
+      const place = await this.placeNormalization.normalize(dto.birthPlace);
+      regions.birthOblast = dto.birthOblast ?? place.oblast;
+      regions.birthCountryModern =
+        dto.birthCountryModern ?? place.countryModern;
+    }
+    if (dto.meta_data?.deathPlace) {
+      const place = await this.placeNormalization.normalize(
+        dto.meta_data.deathPlace,
+      );
+      regions.deathOblast = dto.deathOblast ?? place.oblast;
+      regions.deathCountryModern =
+        dto.deathCountryModern ?? place.countryModern;
+    }
+    return regions;
   }
 }
@@ -0,0 +1,215 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { PlacesService } from './places.service';
+import { Place } from '../entities/place.entity';
+import { Person } from '../entities/person.entity';
+import { RevisionSource } from '../entities/person-revision.entity';
+import { GeocoderService } from '../geocoding/geocoder.service';
+import { PersonRevisionsService } from './person-revisions.service';
+
+const mockPlace: Partial<Place> = {
+  id: 1,
+  normalizedName: 'моринці',
+  name: 'Моринці',
+  lat: 49.1,
+  lng: 31.0,
+  source: 'nominatim',
+  confidence: 0.6,
+  isOverride: false,
+  lastResolvedAt: new Date(),
+};
+
+describe('PlacesService', () => {
+  let service: PlacesService;
+  const mockRepo = {
+    findOne: jest.fn(),
+    find: jest.fn(),
+    save: jest.fn(),
+    query: jest.fn(),
+  };
+  const mockPersonRepo = {
+    find: jest.fn(),
+    save: jest.fn(async (p) => p),
+    query: jest.fn(),
+  };
+  const mockRevisions = {
+    record: jest.fn(),
+    changedFields: jest.fn().mockReturnValue(['lat', 'lng']),
+  };
+  const mockGeocoder = {
+    name: 'chain(gazetteer,nominatim)',
+    geocode: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PlacesService,
+        { provide: getRepositoryToken(Place), useValue: mockRepo },
+        { provide: getRepositoryToken(Person), useValue: mockPersonRepo },
+        { provide: GeocoderService, useValue: mockGeocoder },
+        { provide: PersonRevisionsService, useValue: mockRevisions },
+      ],
+    }).compile();
+
+    service = module.get<PlacesService>(PlacesService);
+    jest.clearAllMocks();
+    mockRepo.save.mockImplementation(async (p) => ({ id: 2, ...p }));
+  });
+
+  describe('resolve', () => {
+    it('should return cached coordinates without calling the geocoder', async () => {
+      mockRepo.findOne.mockResolvedValue(mockPlace);
+
+      const result = await service.resolve('  Моринці ');
+      expect(result).toEqual({
+        coords: { lat: 49.1, lng: 31.0 },
+        cached: true,
+      });
+      expect(mockRepo.findOne).toHaveBeenCalledWith({
+        where: { normalizedName: 'моринці' },
+      });
+      expect(mockGeocoder.geocode).not.toHaveBeenCalled();
+    });
+
+    it('should geocode and store a new place', async () => {
+      mockRepo.findOne.mockResolvedValue(null);
+      mockGeocoder.geocode.mockResolvedValue({
+        lat: 50.45,
+        lng: 30.52,
+        source: 'gazetteer',
+        confidence: 1,
+      });
+
+      const result = await service.resolve('Київ');
+      expect(result).toEqual({
+        coords: { lat: 50.45, lng: 30.52 },
+        cached: false,
+      });
+      expect(mockRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          normalizedName: 'київ',
+          source: 'gazetteer',
+          confidence: 1,
+        }),
+      );
+    });
+
+    it('should record failed lookups and not retry them right away', async () => {
+      mockRepo.findOne.mockResolvedValue(null);
+      mockGeocoder.geocode.mockResolvedValue(null);
+
+      const first = await service.resolve('Невідоме село');
+      expect(first).toEqual({ coords: null, cached: false });
+      expect(mockRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ lat: null, lng: null }),
+      );
+
+      mockRepo.findOne.mockResolvedValue({
+        ...mockPlace,
+        lat: null,
+        lng: null,
+        lastResolvedAt: new Date(),
+      });
+      const second = await service.resolve('Невідоме село');
+      expect(second).toEqual({ coords: null, cached: true });
+      expect(mockGeocoder.geocode).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not store a place the geocoder could not look up', async () => {
+      mockRepo.findOne.mockResolvedValue(null);
+      mockGeocoder.geocode.mockRejectedValue(new Error('Nominatim error: 429'));
+
+      const result = await service.resolve('Невідоме село');
+      expect(result).toEqual({ coords: null, cached: false });
+      expect(mockRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should retry failed lookups once they are stale', async () => {
+      mockRepo.findOne.mockResolvedValue({
+        ...mockPlace,
+        lat: null,
+        lng: null,
+        lastResolvedAt: new Date('2000-01-01'),
+      });
+      mockGeocoder.geocode.mockResolvedValue(null);
+
+      await service.resolve('Моринці');
+      expect(mockGeocoder.geocode).toHaveBeenCalledWith('Моринці');
+    });
+  });
+
+  describe('override', () => {
+    it('should pin coordinates as a manual override', async () => {
+      mockRepo.findOne.mockResolvedValue({ ...mockPlace });
+
+      const place = await service.override(1, 49.2, 31.1);
+      expect(place).toEqual(
+        expect.objectContaining({
+          lat: 49.2,
+          lng: 31.1,
+          source: 'manual',
+          isOverride: true,
+          confidence: 1,
+        }),
+      );
+    });
+
+    it('should throw NotFoundException for unknown place', async () => {
+      mockRepo.findOne.mockResolvedValue(null);
+      await expect(service.override(99, 1, 1)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('applyToPersons', () => {
+    it('should update persons born at the place and record revisions', async () => {
+      mockRepo.findOne.mockResolvedValue(mockPlace);
+      mockPersonRepo.find.mockResolvedValue([
+        { id: 'p-1', lat: 49, lng: 30, provenance: {} },
+      ]);
+
+      expect(await service.applyToPersons(1, 3)).toBe(1);
+      const saved = mockPersonRepo.save.mock.calls[0][0];
+      expect(saved).toEqual(expect.objectContaining({ lat: 49.1, lng: 31.0 }));
+      expect(saved.provenance.lat).toEqual(
+        expect.objectContaining({ source: RevisionSource.MANUAL, actorId: 3 }),
+      );
+      expect(mockRevisions.record).toHaveBeenCalledWith(
+        expect.objectContaining({ lat: 49 }),
+        saved,
+        { source: RevisionSource.MANUAL, actorId: 3 },
+      );
+      expect(mockPersonRepo.query).toHaveBeenCalledWith(
+        expect.stringContaining('"birthLocation"'),
+        [['p-1']],
+      );
+    });
+
+    it('should skip persons whose coordinates are locked', async () => {
+      mockRepo.findOne.mockResolvedValue(mockPlace);
+      mockPersonRepo.find.mockResolvedValue([
+        {
+          id: 'p-1',
+          lat: 49,
+          lng: 30,
+          provenance: {
+            lat: { source: 'manual', setAt: null, actorId: 1, locked: true },
+          },
+        },
+      ]);
+
+      expect(await service.applyToPersons(1, 3)).toBe(0);
+      expect(mockPersonRepo.save).not.toHaveBeenCalled();
+      expect(mockPersonRepo.query).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing for unresolved places', async () => {
+      mockRepo.findOne.mockResolvedValue({ ...mockPlace, lat: null });
+      expect(await service.applyToPersons(1, 3)).toBe(0);
+      expect(mockPersonRepo.find).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Not, Raw, Repository } from 'typeorm';
+import {
+  Place,
+  PLACE_SOURCE_MANUAL,
+  PLACE_SOURCE_PERSON,
+} from '../entities/place.entity';
+import { Person } from '../entities/person.entity';
+import { RevisionSource } from '../entities/person-revision.entity';
+import { GeocodeResult, GeocoderService } from '../geocoding/geocoder.service';
+import { isFieldLocked, stampProvenance } from '../provenance/field-provenance';
+import { PersonRevisionsService } from './person-revisions.service';
+
+export type PlaceStatus = 'resolved' | 'failed' | 'all';
+
+@Injectable()
+export class PlacesService {
+  private readonly logger = new Logger(PlacesService.name);
+  /** Failed lookups are retried once they are older than this. */
+  private readonly RETRY_FAILED_AFTER_DAYS = 30;
+
+  constructor(
+    @InjectRepository(Place)
+    private placeRepository: Repository<Place>,
+    @InjectRepository(Person)
+    private personRepository: Repository<Person>,
+    private readonly geocoder: GeocoderService,
+    private readonly revisions: PersonRevisionsService,
+  ) {}
+
+  normalizeKey(name: string): string {
+    return name.toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Resolve a place name through the Place table, falling back to the
+   * geocoder on a miss. `query` is what the geocoder is asked for when it
+   * differs from the stored name (e.g. the present-day name of a renamed
+   * town). `cached` tells the caller whether a geocoder call was needed.
+   * When the geocoder could not answer, nothing is stored so the place
+   * is looked up again next time.
+   */
+  async resolve(
+    name: string,
+    query = name,
+  ): Promise<{ coords: { lat: number; lng: number } | null; cached: boolean }> {
+    const normalizedName = this.normalizeKey(name);
+    if (!normalizedName) return { coords: null, cached: true };
+
+    const place = await this.placeRepository.findOne({
+      where: { normalizedName },
+    });
+    if (place && (place.lat != null || !this.shouldRetry(place))) {
+      return { coords: this.toCoords(place), cached: true };
+    }
+
+    let result: GeocodeResult | null;
+    try {
+      result = await this.geocoder.geocode(query);
+    } catch (error: any) {
+      this.logger.warn(`Could not geocode "${query}": ${error.message}`);
+      return { coords: place ? this.toCoords(place) : null, cached: false };
+    }
+    const saved = await this.placeRepository.save({
+      ...(place || {}),
+      normalizedName,
+      name,
+      lat: result?.lat ?? null,
+      lng: result?.lng ?? null,
+      source: result?.source ?? this.geocoder.name,
+      confidence: result?.confidence ?? 0,
+      lastResolvedAt: new Date(),
+    });
+    return { coords: this.toCoords(saved), cached: false };
+  }
+
+  /**
+   * Seed the table from persons that already have coordinates, so places
+   * geocoded before the table existed are not looked up again.
+   */
+  async seedFromPersons(): Promise<number> {
+    const result = await this.placeRepository.query(
+      `INSERT INTO place ("normalizedName", name, lat, lng, source, confidence, "lastResolvedAt")
+       SELECT DISTINCT ON (key) key, "birthPlace", lat, lng, $1, 0.5, now()
+       FROM (
+         SELECT lower(regexp_replace(trim("birthPlace"), '\\s+', ' ', 'g')) AS key,
+                "birthPlace", lat, lng
+         FROM person
+         WHERE "birthPlace" IS NOT NULL AND "birthPlace" != ''
+           AND lat IS NOT NULL AND lng IS NOT NULL
+       ) p
+       ORDER BY key
+       ON CONFLICT ("normalizedName") DO NOTHING
+       RETURNING id`,
+      [PLACE_SOURCE_PERSON],
+    );
+    const inserted = result.length;
+    if (inserted > 0) {
+      this.logger.log(`Seeded ${inserted} places from existing persons`);
+    }
+    return inserted;
+  }
+
+  async findAll(status: PlaceStatus = 'all', limit = 100): Promise<Place[]> {
+    const where =
+      status === 'failed'
+        ? { lat: IsNull() }
+        : status === 'resolved'
+          ? { lat: Not(IsNull()) }
+          : {};
+    return this.placeRepository.find({
+      where,
+      order: { updatedAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  async findOne(id: number): Promise<Place> {
+    const place = await this.placeRepository.findOne({ where: { id } });
+    if (!place) {
+      throw new NotFoundException(`Place with id ${id} not found`);
+    }
+    return place;
+  }
+
+  /**
+   * Pin a place to hand-checked coordinates. Overrides are never
+   * re-geocoded, so later syncs pick up the fixed point.
+   */
+  async override(id: number, lat: number, lng: number): Promise<Place> {
+    const place = await this.findOne(id);
+    place.lat = lat;
+    place.lng = lng;
+    place.source = PLACE_SOURCE_MANUAL;
+    place.confidence = 1;
+    place.isOverride = true;
+    place.lastResolvedAt = new Date();
+    return this.placeRepository.save(place);
+  }
+
+  /**
+   * Copy a place's coordinates onto every person born there, except
+   * trashed persons and those whose coordinates a curator locked. Each
+   * write is recorded as a manual revision by `actorId`.
+   * Returns the number of persons updated.
+   */
+  async applyToPersons(id: number, actorId: number): Promise<number> {
+    const place = await this.findOne(id);
+    if (place.lat == null || place.lng == null) return 0;
+
+    const persons = await this.personRepository.find({
+      where: {
+        birthPlace: Raw(
+          (alias) =>
+            `lower(regexp_replace(trim(${alias}), '\\s+', ' ', 'g')) = :name`,
+          { name: place.normalizedName },
+        ),
+      },
+    });
+    const updated: string[] = [];
+    for (const person of persons) {
+      if (isFieldLocked(person, 'lat') || isFieldLocked(person, 'lng')) {
+        continue;
+      }
+      if (person.lat === place.lat && person.lng === place.lng) continue;
+      const before = { ...person };
+      person.lat = place.lat;
+      person.lng = place.lng;
+      person.provenance = stampProvenance(
+        person.provenance,
+        this.revisions.changedFields(before, person),
+        RevisionSource.MANUAL,
+        actorId,
+      );
+      const saved = await this.personRepository.save(person);
+      await this.revisions.record(before, saved, {
+        source: RevisionSource.MANUAL,
+        actorId,
+      });
+      updated.push(saved.id);
+    }
+
+    if (updated.length > 0) {
+      await this.personRepository.query(
+        `UPDATE person
+         SET "birthLocation" = ST_SetSRID(ST_MakePoint(lng, lat), 4326)
+         WHERE id = ANY($1)`,
+        [updated],
+      );
+    }
+    this.logger.log(
+      `Applied coordinates of place "${place.name}" to ${updated.length} persons`,
+    );
+    return updated.length;
+  }
+
+  private shouldRetry(place: Place): boolean {
+    if (place.isOverride) return false;
+    if (!place.lastResolvedAt) return true;
+    const ageMs = Date.now() - new Date(place.lastResolvedAt).getTime();
+    return ageMs > this.RETRY_FAILED_AFTER_DAYS * 24 * 60 * 60 * 1000;
+  }
+
+  private toCoords(place: Place): { lat: number; lng: number } | null {
+    return place.lat != null && place.lng != null
+      ? { lat: place.lat, lng: place.lng }
+      : null;
+  }
+}
@@ -0,0 +1,564 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ProposedEditsService } from './proposed-edits.service';
+import { PersonsService } from './persons.service';
+import { AutoApprovalRulesService } from './auto-approval-rules.service';
+import { NotificationsService } from './notifications.service';
+import { NotificationType } from '../entities/notification.entity';
+import { Permission } from '../auth/permissions';
+import {
+  ProposalType,
+  ProposedEdit,
+  ProposedEditStatus,
+} from '../entities/proposed-edit.entity';
+import { Person } from '../entities/person.entity';
+
+const person = {
+  id: 'person-1',
+  name: 'Taras Shevchenko',
+  birthYear: 1814,
+  lat: null,
+  lng: null,
+  provenance: {},
+};
+
+describe('ProposedEditsService', () => {
+  let service: ProposedEditsService;
+  const mockEditRepo = {
+    create: jest.fn((e) => e),
+    save: jest.fn(async (e) => e),
+    findOne: jest.fn(),
+    find: jest.fn(),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+  const mockPersonRepo = {
+    findOne: jest.fn(),
+    save: jest.fn(async (p) => p),
+    query: jest.fn(),
+  };
+  const mockPersonsService = {
+    create: jest.fn(),
+    update: jest.fn(),
+    merge: jest.fn(),
+    excludeAndRemove: jest.fn(),
+  };
+  const mockAutoApprovalRules = {
+    findMatchingRule: jest.fn(),
+  };
+  const mockNotifications = {
+    notifyUser: jest.fn(),
+    notifyPermission: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProposedEditsService,
+        { provide: getRepositoryToken(ProposedEdit), useValue: mockEditRepo },
+        { provide: getRepositoryToken(Person), useValue: mockPersonRepo },
+        { provide: PersonsService, useValue: mockPersonsService },
+        {
+          provide: AutoApprovalRulesService,
+          useValue: mockAutoApprovalRules,
+        },
+        { provide: NotificationsService, useValue: mockNotifications },
+      ],
+    }).compile();
+
+    service = module.get<ProposedEditsService>(ProposedEditsService);
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store a valid proposal as pending', async () => {
+      mockPersonRepo.findOne.mockResolvedValue({ ...person });
+      const changes = { birthYear: { old: 1814, new: 1815 } };
+
+      const result = await service.create({ personId: 'person-1', changes }, 5);
+      expect(result).toMatchObject({
+        personId: 'person-1',
+        userId: 5,
+        changes,
+        status: ProposedEditStatus.PENDING,
+      });
+      expect(mockNotifications.notifyPermission).toHaveBeenCalledWith(
+        Permission.EDITS_REVIEW,
+        expect.objectContaining({ type: NotificationType.EDIT_PENDING }),
+        5,
+      );
+    });
+
+    it('should reject fields that are not editable', async () => {
+      mockPersonRepo.findOne.mockResolvedValue({ ...person });
+      await expect(
+        service.create(
+          { personId: 'person-1', changes: { rating: { old: 0, new: 10 } } },
+          5,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockEditRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should apply an update matching an auto-approval rule', async () => {
+      mockPersonRepo.findOne.mockResolvedValue({ ...person });
+      mockEditRepo.find.mockResolvedValue([]);
+      mockAutoApprovalRules.findMatchingRule.mockResolvedValue({
+        id: 3,
+        name: 'Trusted',
+      });
+      const changes = { summary: { old: undefined, new: 'Poet' } };
+
+      const result = await service.create({ personId: 'person-1', changes }, 5);
+      expect(mockPersonsService.update).toHaveBeenCalledWith(
+        'person-1',
+        { summary: 'Poet' },
+        5,
+        result.id,
+      );
+      expect(result).toMatchObject({
+        status: ProposedEditStatus.APPROVED,
+        autoApproved: true,
+        autoApprovalRuleId: 3,
+        approvedFields: ['summary'],
+      });
+    });
+
+    it('should leave a conflicting update for review', async () => {
+      mockPersonRepo.findOne.mockResolvedValue({ ...person });
+      mockEditRepo.find.mockResolvedValue([
+        { id: 'edit-2', changes: { birthYear: { old: 1814, new: 1816 } } },
+      ]);
+      mockAutoApprovalRules.findMatchingRule.mockResolvedValue({
+        id: 3,
+        name: 'Trusted',
+      });
+      const changes = { birthYear: { old: 1814, new: 1815 } };
+
+      const result = await service.create({ personId: 'person-1', changes }, 5);
+      expect(result.status).toBe(ProposedEditStatus.PENDING);
+      expect(mockPersonsService.update).not.toHaveBeenCalled();
+    });
+
+    it('should store a new-person proposal without a person', async () => {
+      const changes = { name: { old: null, new: 'Леся Українка' } };
+      const result = await service.create(
+        { type: ProposalType.CREATE, changes },
+        5,
+      );
+      expect(result).toMatchObject({
+        type: ProposalType.CREATE,
+        personId: null,
+        changes,
+      });
+    });
+
+    it('should require a name for a new person', async () => {
+      await expect(
+        service.create(
+          {
+            type: ProposalType.CREATE,
+            changes: { birthYear: { old: null, new: 1871 } },
+          },
+          5,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should refuse to merge a person into itself', async () => {
+      await expect(
+        service.create(
+          {
+            type: ProposalType.MERGE,
+            personId: 'person-1',
+            targetPersonId: 'person-1',
+          },
+          5,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should check that both persons of a merge exist', async () => {
+      mockPersonRepo.findOne
+        .mockResolvedValueOnce({ ...person })
+        .mockResolvedValueOnce(null);
+      await expect(
+        service.create(
+          {
+            type: ProposalType.MERGE,
+            personId: 'person-1',
+            targetPersonId: 'person-2',
+          },
+          5,
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('approve', () => {
+    it('should apply the new values', async () => {
+      mockEditRepo.findOne.mockResolvedValue({
+        id: 'edit-1',
+        type: ProposalType.UPDATE,
+        personId: 'person-1',
+        status: ProposedEditStatus.PENDING,
+        changes: { name: { old: 'Taras Shevchenko', new: 'Тарас Шевченко' } },
+      });
+      mockPersonRepo.findOne.mockResolvedValue({ ...person });
+
+      const result = await service.approve('edit-1', 1);
+      expect(mockPersonsService.update).toHaveBeenCalledWith(
+        'person-1',
+        { name: 'Тарас Шевченко' },
+        1,
+        'edit-1',
+      );
+      expect(result.status).toBe(ProposedEditStatus.APPROVED);
+    });
+
+    it('should notify the author of the outcome', async () => {
+      mockEditRepo.findOne.mockResolvedValue({
+        id: 'edit-1',
+        type: ProposalType.UPDATE,
+        personId: 'person-1',
+        person: { name: 'Taras Shevchenko' },
+        userId: 5,
+        status: ProposedEditStatus.PENDING,
+        changes: { birthYear: { old: 1814, new: 1815 } },
+      });
+
+      await service.reject('edit-1', 1, 'No source given');
+      expect(mockNotifications.notifyUser).toHaveBeenCalledWith(5, {
+        type: NotificationType.EDIT_REJECTED,
+        title: 'Your proposal for Taras Shevchenko was rejected',
+        body: 'No source given',
+        data: { proposedEditId: 'edit-1', personId: 'person-1' },
+      });
+    });
+
+    it('should refuse a proposal whose old values are stale', async () => {
+      mockEditRepo.findOne.mockResolvedValue({
+        id: 'edit-1',
+        type: ProposalType.UPDATE,
+        personId: 'person-1',
+        status: ProposedEditStatus.PENDING,
+        changes: { name: { old: 'T. Shevchenko', new: 'Тарас Шевченко' } },
+      });
+      mockPersonRepo.findOne.mockResolvedValue({ ...person });
+
+      await expect(service.approve('edit-1', 1)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockPersonsService.update).not.toHaveBeenCalled();
+      expect(mockEditRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should apply only the selected fields and record them', async () => {
+      mockEditRepo.findOne.mockResolvedValue({
+        id: 'edit-1',
+        type: ProposalType.UPDATE,
+        personId: 'person-1',
+        status: ProposedEditStatus.PENDING,
+        changes: {
+          name: { old: 'Taras Shevchenko', new: 'Тарас Шевченко' },
+          birthYear: { old: 1814, new: 1815 },
+        },
+      });
+      mockPersonRepo.findOne.mockResolvedValue({ ...person });
+
+      const result = await service.approve('edit-1', 1, undefined, [
+        'birthYear',
+      ]);
+      expect(mockPersonsService.update).toHaveBeenCalledWith(
+        'person-1',
+        { birthYear: 1815 },
+        1,
+        'edit-1',
+      );
+      expect(result.status).toBe(ProposedEditStatus.PARTIALLY_APPROVED);
+      expect(result.approvedFields).toEqual(['birthYear']);
+    });
+
+    it('should refuse fields the proposal does not change', async () => {
+      mockEditRepo.findOne.mockResolvedValue({
+        id: 'edit-1',
+        type: ProposalType.UPDATE,
+        personId: 'person-1',
+        status: ProposedEditStatus.PENDING,
+        changes: { birthYear: { old: 1814, new: 1815 } },
+      });
+
+      await expect(
+        service.approve('edit-1', 1, undefined, ['name']),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not let reviewers approve their own edit', async () => {
+      mockEditRepo.findOne.mockResolvedValue({
+        id: 'edit-1',
+        type: ProposalType.UPDATE,
+        personId: 'person-1',
+        userId: 1,
+        status: ProposedEditStatus.PENDING,
+        changes: { birthYear: { old: 1814, new: 1815 } },
+      });
+
+      await expect(service.approve('edit-1', 1)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should refuse an edit that was already reviewed', async () => {
+      mockEditRepo.findOne.mockResolvedValue({
+        id: 'edit-1',
+        personId: 'person-1',
+        status: ProposedEditStatus.REJECTED,
+        changes: { birthYear: { old: 1814, new: 1815 } },
+      });
+
+      await expect(service.approve('edit-1', 1)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPersonsService.update).not.toHaveBeenCalled();
+    });
+
+    it('should apply an edit only once when two reviewers approve it', async () => {
+      const pending = {
+        id: 'edit-1',
+        type: ProposalType.CREATE,
+        userId: 5,
+        status: ProposedEditStatus.PENDING,
+        changes: { name: { old: null, new: 'Леся Українка' } },
+      };
+      mockEditRepo.findOne.mockImplementation(async () => ({ ...pending }));
+      mockEditRepo.update
+        .mockResolvedValueOnce({ affected: 1 })
+        .mockResolvedValueOnce({ affected: 0 });
+      mockPersonsService.create.mockResolvedValue({ id: 'person-2' });
+
+      const results = await Promise.allSettled([
+        service.approve('edit-1', 1),
+        service.approve('edit-1', 2),
+      ]);
+      expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected']);
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(
+        ConflictException,
+      );
+      expect(mockPersonsService.create).toHaveBeenCalledTimes(1);
+      expect(mockEditRepo.update).toHaveBeenCalledWith(
+        { id: 'edit-1', status: ProposedEditStatus.PENDING },
+        { status: ProposedEditStatus.APPROVED, reviewedBy: 1 },
+      );
+    });
+
+    it('should put the edit back in the queue when applying fails', async () => {
+      mockEditRepo.findOne.mockResolvedValue({
+        id: 'edit-1',
+        type: ProposalType.MERGE,
+        personId: 'person-2',
+        targetPersonId: 'person-1',
+        status: ProposedEditStatus.PENDING,
+        changes: {},
+      });
+      mockPersonsService.merge.mockRejectedValueOnce(new Error('db down'));
+
+      await expect(service.approve('edit-1', 1)).rejects.toThrow('db down');
+      expect(mockEditRepo.update).toHaveBeenLastCalledWith('edit-1', {
+        status: ProposedEditStatus.PENDING,
+        reviewedBy: null,
+      });
+      expect(mockEditRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should create the proposed person and link it', async () => {
+      mockEditRepo.findOne.mockResolvedValue({
+        id: 'edit-1',
+        type: ProposalType.CREATE,
+        personId: null,
+        status: ProposedEditStatus.PENDING,
+        changes: {
+          name: { old: null, new: 'Леся Українка' },
+          birthYear: { old: null, new: 1871 },
+        },
+      });
+      mockPersonsService.create.mockResolvedValue({ id: 'person-9' });
+
+      const result = await service.approve('edit-1', 1);
+      expect(mockPersonsService.create).toHaveBeenCalledWith(
+        { name: 'Леся Українка', birthYear: 1871 },
+        1,
+        'edit-1',
+      );
+      expect(result.personId).toBe('person-9');
+      expect(result.status).toBe(ProposedEditStatus.APPROVED);
+    });
+
+    it('should merge the duplicate into the target', async () => {
+      mockEditRepo.findOne.mockResolvedValue({
+        id: 'edit-1',
+        type: ProposalType.MERGE,
+        personId: 'person-2',
+        targetPersonId: 'person-1',
+        status: ProposedEditStatus.PENDING,
+        changes: {},
+      });
+
+      const result = await service.approve('edit-1', 1);
+      expect(mockPersonsService.merge).toHaveBeenCalledWith(
+        'person-1',
+        'person-2',
+        expect.objectContaining({ actorId: 1, proposedEditId: 'edit-1' }),
+      );
+      expect(result.status).toBe(ProposedEditStatus.APPROVED);
+    });
+
+    it('should remove the person and keep it out of sync', async () => {
+      mockEditRepo.findOne.mockResolvedValue({
+        id: 'edit-1',
+        type: ProposalType.DELETE,
+        personId: 'person-1',
+        status: ProposedEditStatus.PENDING,
+        changes: {},
+      });
+
+      await service.approve('edit-1', 1);
+      expect(mockPersonsService.excludeAndRemove).toHaveBeenCalledWith(
+        'person-1',
+      );
+    });
+
+    it('should not partially approve other proposal types', async () => {
+      mockEditRepo.findOne.mockResolvedValue({
+        id: 'edit-1',
+        type: ProposalType.DELETE,
+        personId: 'person-1',
+        status: ProposedEditStatus.PENDING,
+        changes: {},
+      });
+
+      await expect(
+        service.approve('edit-1', 1, undefined, ['name']),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPersonsService.excludeAndRemove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestChanges', () => {
+    it('should send the edit back and notify the author', async () => {
+      mockEditRepo.findOne.mockResolvedValue({
+        id: 'edit-1',
+        userId: 5,
+        type: ProposalType.UPDATE,
+        personId: 'person-1',
+        status: ProposedEditStatus.PENDING,
+        changes: {},
+      });
+
+      const result = await service.requestChanges('edit-1', 1, 'Source?');
+      expect(result.status).toBe(ProposedEditStatus.CHANGES_REQUESTED);
+      expect(result.reviewComment).toBe('Source?');
+      expect(mockNotifications.notifyUser).toHaveBeenCalledWith(
+        5,
+        expect.objectContaining({
+          type: NotificationType.EDIT_CHANGES_REQUESTED,
+        }),
+      );
+    });
+  });
+
+  describe('resubmit', () => {
+    const sentBack = () => ({
+      id: 'edit-1',
+      userId: 5,
+      type: ProposalType.UPDATE,
+      personId: 'person-1',
+      status: ProposedEditStatus.CHANGES_REQUESTED,
+      revision: 1,
+      changes: { birthYear: { old: 1814, new: 1815 } },
+    });
+
+    it('should put the revised edit back in the review queue', async () => {
+      mockEditRepo.findOne.mockResolvedValue(sentBack());
+      mockPersonRepo.findOne.mockResolvedValue(person);
+      const changes = { birthYear: { old: 1814, new: 1816 } };
+
+      const result = await service.resubmit('edit-1', 5, {
+        changes,
+        comment: 'Per the 1816 parish register',
+      });
+      expect(result.status).toBe(ProposedEditStatus.PENDING);
+      expect(result.revision).toBe(2);
+      expect(result.changes).toEqual(changes);
+      expect(mockNotifications.notifyPermission).toHaveBeenCalledWith(
+        Permission.EDITS_REVIEW,
+        expect.objectContaining({ type: NotificationType.EDIT_PENDING }),
+        5,
+      );
+    });
+
+    it('should only let the author resubmit', async () => {
+      mockEditRepo.findOne.mockResolvedValue(sentBack());
+      await expect(service.resubmit('edit-1', 6, {})).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockEditRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an already reviewed edit', async () => {
+      mockEditRepo.findOne.mockResolvedValue({
+        ...sentBack(),
+        status: ProposedEditStatus.REJECTED,
+      });
+      await expect(service.resubmit('edit-1', 5, {})).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('findConflicts', () => {
+    it('should list pending edits setting a shared field differently', async () => {
+      const edit = {
+        id: 'edit-1',
+        type: ProposalType.UPDATE,
+        personId: 'person-1',
+        status: ProposedEditStatus.PENDING,
+        changes: {
+          name: { old: 'Taras Shevchenko', new: 'Тарас Шевченко' },
+          birthYear: { old: 1814, new: 1815 },
+        },
+      } as unknown as ProposedEdit;
+      mockEditRepo.find.mockResolvedValue([
+        {
+          id: 'edit-2',
+          userId: 7,
+          createdAt: new Date('2024-01-01'),
+          changes: {
+            birthYear: { old: 1814, new: 1816 },
+            summary: { old: null, new: 'Poet' },
+          },
+        },
+        {
+          id: 'edit-3',
+          userId: 8,
+          createdAt: new Date('2024-01-02'),
+          changes: { name: { old: 'Taras Shevchenko', new: 'Тарас Шевченко' } },
+        },
+      ]);
+
+      const conflicts = await service.findConflicts(edit);
+      expect(conflicts).toEqual([
+        {
+          editId: 'edit-2',
+          userId: 7,
+          createdAt: new Date('2024-01-01'),
+          changes: { birthYear: { old: 1814, new: 1816 } },
+        },
+      ]);
+    });
+  });
+});
@@ -1,9 +1,57 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { ProposedEdit, ProposedEditStatus } from '../entities/proposed-edit.entity';
+import { Not, Repository } from 'typeorm';
+import {
+  ProposalType,
+  ProposedEdit,
+  ProposedEditStatus,
+} from '../entities/proposed-edit.entity';
 import { Person } from '../entities/person.entity';
-import { CreateProposedEditDto } from '../dtos/proposed-edit.dto';
+import {
+  CreateProposedEditDto,
+  ResubmitProposedEditDto,
+} from '../dtos/proposed-edit.dto';
+import { CreatePersonDto, UpdatePersonDto } from '../dtos/person.dto';
+import { CursorPageQueryDto } from '../dtos/pagination.dto';
+import { CursorPage } from '../pagination/cursor';
+import { paginate } from '../pagination/paginate';
+import { RevisionSource } from '../entities/person-revision.entity';
+import { PersonsService } from './persons.service';
+import { AutoApprovalRulesService } from './auto-approval-rules.service';
+import { AutoApprovalRule } from '../entities/auto-approval-rule.entity';
+import { NotificationsService } from './notifications.service';
+import { NotificationType } from '../entities/notification.entity';
+import { Permission } from '../auth/permissions';
+import {
+  PersonChanges,
+  findStaleFields,
+  isConflictingChange,
+  validatePersonChanges,
+} from '../validation/person-changes';
+
+/** Another pending edit of the same person that sets a field differently. */
+export interface EditConflict {
+  editId: string;
+  userId: number;
+  createdAt: Date;
+  /** The other edit's changes to the contested fields. */
+  changes: PersonChanges;
+}
+
+export interface ProposedEditWithConflicts extends ProposedEdit {
+  conflicts: EditConflict[];
+}
+
+export interface ProposedEditFilters {
+  status?: ProposedEditStatus;
+  type?: ProposalType;
+}
 
 @Injectable()
 export class ProposedEditsService {
@@ -12,39 +60,142 @@ export class ProposedEditsService {
     private proposedEditRepository: Repository<ProposedEdit>,
     @InjectRepository(Person)
     private personRepository: Repository<Person>,
+    private readonly personsService: PersonsService,
+    private readonly autoApprovalRules: AutoApprovalRulesService,
+    private readonly notifications: NotificationsService,
   ) {}
 
-  async create(dto: CreateProposedEditDto, userId: number): Promise<ProposedEdit> {
-    const person = await this.personRepository.findOne({ where: { id: dto.personId } });
-    if (!person) {
-      throw new NotFoundException(`Person with id ${dto.personId} not found`);
+  /**
+   * Check a proposal against the current data and store it as pending.
+   * Each type is checked again when it is approved. Updates that match an
+   * auto-approval rule and conflict with no other pending edit are
+   * applied right away.
+   */
+  async create(
+    dto: CreateProposedEditDto,
+    userId: number,
+  ): Promise<ProposedEdit> {
+    const type = dto.type ?? ProposalType.UPDATE;
+    switch (type) {
+      case ProposalType.UPDATE:
+        this.assertApplicable(await this.findPerson(dto.personId), dto.changes);
+        break;
+      case ProposalType.CREATE:
+        this.assertCreatable(dto.changes);
+        break;
+      case ProposalType.MERGE:
+        if (dto.personId === dto.targetPersonId) {
+          throw new BadRequestException('Cannot merge a person into itself');
+        }
+        await this.findPerson(dto.personId);
+        await this.findPerson(dto.targetPersonId);
+        break;
+      case ProposalType.DELETE:
+        await this.findPerson(dto.personId);
+        break;
     }
 
     const edit = this.proposedEditRepository.create({
-      personId: dto.personId,
+      type,
+      personId: type === ProposalType.CREATE ? null : dto.personId,
+      targetPersonId: type === ProposalType.MERGE ? dto.targetPersonId : null,
       userId,
-      changes: dto.changes,
+      changes:
+        type === ProposalType.UPDATE || type === ProposalType.CREATE
+          ? dto.changes
+          : {},
       comment: dto.comment,
       status: ProposedEditStatus.PENDING,
     });
+    const saved = await this.proposedEditRepository.save(edit);
 
-    return this.proposedEditRepository.save(edit);
+    if (type === ProposalType.UPDATE) {
+      const rule = await this.autoApprovalRules.findMatchingRule(
+        userId,
+        saved.changes,
+      );
+      if (rule && (await this.findConflicts(saved)).length === 0) {
+        return this.autoApprove(saved, rule);
+      }
+    }
+    await this.notifyReviewers(
+      saved,
+      `New ${type} proposal for ${this.subject(saved)} awaits review`,
+    );
+    return saved;
   }
 
-  async findAll(status?: ProposedEditStatus): Promise<ProposedEdit[]> {
-    const where = status ? { status } : {};
-    return this.proposedEditRepository.find({
-      where,
-      relations: ['person', 'user'],
-      order: { createdAt: 'DESC' },
-      take: 100,
+  /**
+   * Let the author revise a proposal that was sent back (or is still
+   * pending) and put it back in the review queue as the next revision.
+   */
+  async resubmit(
+    id: string,
+    userId: number,
+    dto: ResubmitProposedEditDto,
+  ): Promise<ProposedEdit> {
+    const edit = await this.findOne(id);
+    if (edit.userId !== userId) {
+      throw new ForbiddenException(
+        'Only the author can revise a proposed edit',
+      );
+    }
+    if (
+      edit.status !== ProposedEditStatus.CHANGES_REQUESTED &&
+      edit.status !== ProposedEditStatus.PENDING
+    ) {
+      throw new BadRequestException(
+        `Proposed edit with id ${id} has already been reviewed`,
+      );
+    }
+
+    if (dto.changes) {
+      if (edit.type === ProposalType.UPDATE) {
+        this.assertApplicable(
+          await this.findPerson(edit.personId),
+          dto.changes,
+        );
+      } else if (edit.type === ProposalType.CREATE) {
+        this.assertCreatable(dto.changes);
+      } else {
+        throw new BadRequestException(
+          `A ${edit.type} proposal has no changes to revise`,
+        );
+      }
+      edit.changes = dto.changes;
+    }
+    if (dto.comment !== undefined) edit.comment = dto.comment;
+    edit.status = ProposedEditStatus.PENDING;
+    edit.revision += 1;
+    const saved = await this.proposedEditRepository.save(edit);
+
+    await this.notifyReviewers(
+      saved,
+      `Revised proposal for ${this.subject(saved)} awaits review`,
+    );
+    return saved;
+  }
+
+  async findAll(
+    filters: ProposedEditFilters = {},
+    page: CursorPageQueryDto = {},
+  ): Promise<CursorPage<ProposedEdit>> {
+    const where = {
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.type ? { type: filters.type } : {}),
+    };
+    return paginate(this.proposedEditRepository, page, {
+      sortColumn: 'createdAt',
+      sortType: 'timestamp',
+      where: Object.keys(where).length > 0 ? where : undefined,
+      relations: ['person', 'targetPerson', 'user'],
     });
   }
 
   async findOne(id: string): Promise<ProposedEdit> {
     const edit = await this.proposedEditRepository.findOne({
       where: { id },
-      relations: ['person', 'user'],
+      relations: ['person', 'targetPerson', 'user'],
     });
     if (!edit) {
       throw new NotFoundException(`Proposed edit with id ${id} not found`);
@@ -52,49 +203,328 @@ export class ProposedEditsService {
     return edit;
   }
 
+  async findOneWithConflicts(id: string): Promise<ProposedEditWithConflicts> {
+    const edit = await this.findOne(id);
+    return Object.assign(edit, { conflicts: await this.findConflicts(edit) });
+  }
+
+  /**
+   * Pending edits of the same person that propose a different value for
+   * any field this edit changes. Approving one of them makes the other
+   * stale for those fields.
+   */
+  async findConflicts(edit: ProposedEdit): Promise<EditConflict[]> {
+    if (
+      edit.type !== ProposalType.UPDATE ||
+      edit.status !== ProposedEditStatus.PENDING
+    ) {
+      return [];
+    }
+    const others = await this.proposedEditRepository.find({
+      where: {
+        type: ProposalType.UPDATE,
+        personId: edit.personId,
+        status: ProposedEditStatus.PENDING,
+        id: Not(edit.id),
+      },
+      order: { createdAt: 'ASC' },
+    });
+
+    const conflicts: EditConflict[] = [];
+    for (const other of others) {
+      const changes: PersonChanges = {};
+      for (const [field, change] of Object.entries(edit.changes)) {
+        const theirs = other.changes[field];
+        if (theirs && isConflictingChange(change, theirs)) {
+          changes[field] = theirs;
+        }
+      }
+      if (Object.keys(changes).length > 0) {
+        conflicts.push({
+          editId: other.id,
+          userId: other.userId,
+          createdAt: other.createdAt,
+          changes,
+        });
+      }
+    }
+    return conflicts;
+  }
+
   async findByUser(userId: number): Promise<ProposedEdit[]> {
     return this.proposedEditRepository.find({
       where: { userId },
-      relations: ['person'],
+      relations: ['person', 'targetPerson'],
       order: { createdAt: 'DESC' },
     });
   }
 
-  async approve(id: string, reviewedBy: number, reviewComment?: string): Promise<ProposedEdit> {
+  /**
+   * Apply a proposal. Only update proposals can be approved in part:
+   * with `fields`, just that subset is applied and the edit is marked
+   * partially approved. The edit is claimed before anything is applied,
+   * so a concurrent review of it fails instead of applying it twice.
+   */
+  async approve(
+    id: string,
+    reviewedBy: number,
+    reviewComment?: string,
+    fields?: string[],
+  ): Promise<ProposedEdit> {
     const edit = await this.findOne(id);
+    this.assertReviewable(edit, reviewedBy);
+    if (fields && edit.type !== ProposalType.UPDATE) {
+      throw new BadRequestException(
+        'Only update proposals can be partially approved',
+      );
+    }
 
-    // Apply changes to the person
-    const person = await this.personRepository.findOne({ where: { id: edit.personId } });
-    if (person) {
-      for (const [field, value] of Object.entries(edit.changes)) {
-        (person as any)[field] = value.new;
-      }
-      // Mark as manual so automated syncs won't overwrite approved edits
-      person.isManual = true;
-      await this.personRepository.save(person);
-
-      // Update PostGIS if lat/lng changed
-      const lat = edit.changes.lat?.new ?? person.lat;
-      const lng = edit.changes.lng?.new ?? person.lng;
-      if (lat && lng) {
-        await this.personRepository.query(
-          `UPDATE person SET "birthLocation" = ST_SetSRID(ST_MakePoint($1, $2), 4326) WHERE id = $3`,
-          [lng, lat, person.id],
-        );
+    await this.claim(edit, ProposedEditStatus.APPROVED, reviewedBy);
+    let approvedFields: string[] | null = null;
+    try {
+      switch (edit.type) {
+        case ProposalType.UPDATE:
+          approvedFields = await this.applyUpdate(edit, reviewedBy, fields);
+          break;
+        case ProposalType.CREATE: {
+          this.assertCreatable(edit.changes);
+          const values = Object.fromEntries(
+            Object.entries(edit.changes).map(([field, c]) => [field, c.new]),
+          );
+          const person = await this.personsService.create(
+            values as CreatePersonDto,
+            reviewedBy,
+            edit.id,
+          );
+          edit.personId = person.id;
+          approvedFields = Object.keys(edit.changes);
+          break;
+        }
+        case ProposalType.MERGE:
+          await this.personsService.merge(edit.targetPersonId, edit.personId, {
+            source: RevisionSource.PROPOSED_EDIT,
+            actorId: reviewedBy,
+            proposedEditId: edit.id,
+          });
+          break;
+        case ProposalType.DELETE:
+          await this.personsService.excludeAndRemove(edit.personId);
+          break;
       }
+    } catch (error) {
+      // Nothing was applied; put the edit back in the review queue
+      await this.proposedEditRepository.update(edit.id, {
+        status: ProposedEditStatus.PENDING,
+        reviewedBy: null,
+      });
+      throw error;
     }
 
-    edit.status = ProposedEditStatus.APPROVED;
+    edit.status =
+      approvedFields && approvedFields.length < Object.keys(edit.changes).length
+        ? ProposedEditStatus.PARTIALLY_APPROVED
+        : ProposedEditStatus.APPROVED;
+    edit.approvedFields = approvedFields;
     edit.reviewedBy = reviewedBy;
     edit.reviewComment = reviewComment || null;
-    return this.proposedEditRepository.save(edit);
+    const saved = await this.proposedEditRepository.save(edit);
+    await this.notifyAuthor(saved);
+    return saved;
   }
 
   async reject(id: string, reviewedBy: number, reviewComment?: string): Promise<ProposedEdit> {
     const edit = await this.findOne(id);
+    this.assertReviewable(edit, reviewedBy);
+    await this.claim(edit, ProposedEditStatus.REJECTED, reviewedBy);
     edit.status = ProposedEditStatus.REJECTED;
     edit.reviewedBy = reviewedBy;
     edit.reviewComment = reviewComment || null;
+    const saved = await this.proposedEditRepository.save(edit);
+    await this.notifyAuthor(saved);
+    return saved;
+  }
+
+  /** Send a proposal back to its author, e.g. to ask for sources. */
+  async requestChanges(
+    id: string,
+    reviewedBy: number,
+    reviewComment?: string,
+  ): Promise<ProposedEdit> {
+    const edit = await this.findOne(id);
+    this.assertReviewable(edit, reviewedBy);
+    await this.claim(edit, ProposedEditStatus.CHANGES_REQUESTED, reviewedBy);
+    edit.status = ProposedEditStatus.CHANGES_REQUESTED;
+    edit.reviewedBy = reviewedBy;
+    edit.reviewComment = reviewComment || null;
+    const saved = await this.proposedEditRepository.save(edit);
+    await this.notifyAuthor(saved);
+    return saved;
+  }
+
+  /**
+   * Apply the selected fields of an update as `actorId`; returns the
+   * applied fields.
+   */
+  private async applyUpdate(
+    edit: ProposedEdit,
+    actorId: number,
+    fields?: string[],
+  ): Promise<string[]> {
+    const approvedFields = fields
+      ? [...new Set(fields)]
+      : Object.keys(edit.changes);
+    const unknown = approvedFields.filter((f) => !(f in edit.changes));
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Proposed edit does not change: ${unknown.join(', ')}`,
+      );
+    }
+    const changes: PersonChanges = {};
+    for (const field of approvedFields) changes[field] = edit.changes[field];
+
+    const person = await this.findPerson(edit.personId);
+    this.assertApplicable(person, changes);
+    const values = Object.fromEntries(
+      Object.entries(changes).map(([field, value]) => [field, value.new]),
+    );
+    // Same path as a curator's edit: regions and PostGIS points are
+    // re-derived, and the fields are locked against sync.
+    await this.personsService.update(
+      person.id,
+      values as UpdatePersonDto,
+      actorId,
+      edit.id,
+    );
+    return approvedFields;
+  }
+
+  private async findPerson(id: string): Promise<Person> {
+    const person = await this.personRepository.findOne({ where: { id } });
+    if (!person) {
+      throw new NotFoundException(`Person with id ${id} not found`);
+    }
+    return person;
+  }
+
+  private async notifyReviewers(edit: ProposedEdit, title: string) {
+    await this.notifications.notifyPermission(
+      Permission.EDITS_REVIEW,
+      {
+        type: NotificationType.EDIT_PENDING,
+        title,
+        body: edit.comment ?? undefined,
+        data: { proposedEditId: edit.id, personId: edit.personId },
+      },
+      edit.userId,
+    );
+  }
+
+  /** Tell the author how their proposal was reviewed. */
+  private async notifyAuthor(edit: ProposedEdit) {
+    const outcomes = {
+      [ProposedEditStatus.APPROVED]: [
+        'approved',
+        NotificationType.EDIT_APPROVED,
+      ],
+      [ProposedEditStatus.PARTIALLY_APPROVED]: [
+        'partially approved',
+        NotificationType.EDIT_PARTIALLY_APPROVED,
+      ],
+      [ProposedEditStatus.REJECTED]: [
+        'rejected',
+        NotificationType.EDIT_REJECTED,
+      ],
+      [ProposedEditStatus.CHANGES_REQUESTED]: [
+        'sent back for changes',
+        NotificationType.EDIT_CHANGES_REQUESTED,
+      ],
+    } as const;
+    const outcome = outcomes[edit.status];
+    if (!outcome) return;
+    const [verb, type] = outcome;
+    await this.notifications.notifyUser(edit.userId, {
+      type,
+      title: `Your proposal for ${this.subject(edit)} was ${verb}`,
+      body: edit.reviewComment ?? undefined,
+      data: { proposedEditId: edit.id, personId: edit.personId },
+    });
+  }
+
+  /** The person a proposal is about, for notification titles. */
+  private subject(edit: ProposedEdit): string {
+    return edit.person?.name ?? edit.changes?.name?.new ?? 'a person';
+  }
+
+  /** Apply an update on behalf of its author, without a reviewer. */
+  private async autoApprove(
+    edit: ProposedEdit,
+    rule: AutoApprovalRule,
+  ): Promise<ProposedEdit> {
+    edit.approvedFields = await this.applyUpdate(edit, edit.userId);
+    edit.status = ProposedEditStatus.APPROVED;
+    edit.autoApproved = true;
+    edit.autoApprovalRuleId = rule.id;
+    edit.reviewComment = `Auto-approved by rule "${rule.name}"`;
     return this.proposedEditRepository.save(edit);
   }
+
+  private assertReviewable(edit: ProposedEdit, reviewedBy: number) {
+    if (edit.status !== ProposedEditStatus.PENDING) {
+      throw new BadRequestException(
+        `Proposed edit with id ${edit.id} is not awaiting review`,
+      );
+    }
+    if (edit.userId === reviewedBy) {
+      throw new ForbiddenException('You cannot review your own proposed edit');
+    }
+  }
+
+  /**
+   * Move a pending edit to `status` in a single conditional update, so
+   * that of two reviews racing on the same edit only one goes through.
+   */
+  private async claim(
+    edit: ProposedEdit,
+    status: ProposedEditStatus,
+    reviewedBy: number,
+  ) {
+    const { affected } = await this.proposedEditRepository.update(
+      { id: edit.id, status: ProposedEditStatus.PENDING },
+      { status, reviewedBy },
+    );
+    if (affected !== 1) {
+      throw new ConflictException(
+        `Proposed edit with id ${edit.id} has already been reviewed`,
+      );
+    }
+  }
+
+  /**
+   * Only whitelisted fields with valid new values can be proposed, and
+   * every `old` value must still match the person so a stale proposal
+   * cannot overwrite newer data.
+   */
+  private assertApplicable(person: Person, changes: PersonChanges) {
+    const errors = validatePersonChanges(changes);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+    const stale = findStaleFields(person, changes);
+    if (stale.length > 0) {
+      throw new ConflictException(
+        `Proposed edit is out of date; these fields have changed since: ${stale.join(', ')}`,
+      );
+    }
+  }
+
+  /** A new person needs valid values and at least a name. */
+  private assertCreatable(changes: PersonChanges) {
+    const errors = validatePersonChanges(changes);
+    if (!changes.name?.new) {
+      errors.push('A new person needs a name');
+    }
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+  }
 }
@@ -0,0 +1,62 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ReputationService, trustScore } from './reputation.service';
+import {
+  ProposedEdit,
+  ProposedEditStatus,
+} from '../entities/proposed-edit.entity';
+
+describe('trustScore', () => {
+  it('should be 0 without reviewed edits', () => {
+    expect(trustScore(0, 0)).toBe(0);
+  });
+
+  it('should trust a long record more than a short one', () => {
+    expect(trustScore(30, 0)).toBeGreaterThan(trustScore(3, 0));
+    expect(trustScore(30, 0)).toBeLessThan(1);
+  });
+
+  it('should drop with rejections', () => {
+    expect(trustScore(20, 10)).toBeLessThan(trustScore(20, 1));
+  });
+});
+
+describe('ReputationService', () => {
+  let service: ReputationService;
+  const mockEditRepo = {
+    query: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReputationService,
+        { provide: getRepositoryToken(ProposedEdit), useValue: mockEditRepo },
+      ],
+    }).compile();
+
+    service = module.get<ReputationService>(ReputationService);
+    jest.clearAllMocks();
+  });
+
+  it('should count reviewed edits and leave out auto-approved ones', async () => {
+    mockEditRepo.query.mockResolvedValue([
+      { status: ProposedEditStatus.APPROVED, auto: false, count: 15 },
+      { status: ProposedEditStatus.PARTIALLY_APPROVED, auto: false, count: 3 },
+      { status: ProposedEditStatus.REJECTED, auto: false, count: 2 },
+      { status: ProposedEditStatus.PENDING, auto: false, count: 1 },
+      { status: ProposedEditStatus.APPROVED, auto: true, count: 40 },
+    ]);
+
+    const result = await service.getReputation(5);
+    expect(result).toMatchObject({
+      userId: 5,
+      approved: 18,
+      rejected: 2,
+      pending: 1,
+      autoApproved: 40,
+      rejectionRate: 0.1,
+    });
+    expect(result.trustScore).toBe(trustScore(18, 2));
+  });
+});
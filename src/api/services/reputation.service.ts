@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  ProposedEdit,
+  ProposedEditStatus,
+} from '../entities/proposed-edit.entity';
+
+export interface Reputation {
+  userId: number;
+  /** Reviewed edits accepted in full or in part. */
+  approved: number;
+  rejected: number;
+  pending: number;
+  /** Not part of the record, so trust cannot feed on itself. */
+  autoApproved: number;
+  /** Share of reviewed edits that were rejected; 0 without reviews. */
+  rejectionRate: number;
+  trustScore: number;
+}
+
+/** z for a 95% confidence interval. */
+const Z = 1.96;
+
+/**
+ * Lower bound of the Wilson score interval of the approval rate, from 0
+ * to 1. A short record earns less trust than a long one with the same
+ * rate, e.g. 3/3 approved scores about 0.44 and 30/30 about 0.89.
+ */
+export function trustScore(approved: number, rejected: number): number {
+  const n = approved + rejected;
+  if (n === 0) return 0;
+  const p = approved / n;
+  const z2 = Z * Z;
+  const score =
+    (p + z2 / (2 * n) - Z * Math.sqrt((p * (1 - p) + z2 / (4 * n)) / n)) /
+    (1 + z2 / n);
+  return Math.round(score * 1000) / 1000;
+}
+
+@Injectable()
+export class ReputationService {
+  constructor(
+    @InjectRepository(ProposedEdit)
+    private proposedEditRepository: Repository<ProposedEdit>,
+  ) {}
+
+  /** A contributor's record, counted from their proposed edits. */
+  async getReputation(userId: number): Promise<Reputation> {
+    const rows: { status: ProposedEditStatus; auto: boolean; count: number }[] =
+      await this.proposedEditRepository.query(
+        `SELECT status, "autoApproved" AS auto, COUNT(*)::int AS count
+         FROM proposed_edit
+         WHERE "userId" = $1
+         GROUP BY 1, 2`,
+        [userId],
+      );
+
+    let approved = 0;
+    let rejected = 0;
+    let pending = 0;
+    let autoApproved = 0;
+    for (const row of rows) {
+      if (row.auto) {
+        autoApproved += row.count;
+      } else if (
+        row.status === ProposedEditStatus.APPROVED ||
+        row.status === ProposedEditStatus.PARTIALLY_APPROVED
+      ) {
+        approved += row.count;
+      } else if (row.status === ProposedEditStatus.REJECTED) {
+        rejected += row.count;
+      } else {
+        pending += row.count;
+      }
+    }
+
+    const reviewed = approved + rejected;
+    return {
+      userId,
+      approved,
+      rejected,
+      pending,
+      autoApproved,
+      rejectionRate: reviewed > 0 ? rejected / reviewed : 0,
+      trustScore: trustScore(approved, rejected),
+    };
+  }
+}
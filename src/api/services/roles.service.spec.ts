@@ -0,0 +1,212 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { RolesService } from './roles.service';
+import { Role } from '../entities/role.entity';
+import { User } from '../entities/user.entity';
+import { ALL_PERMISSIONS, Permission } from '../auth/permissions';
+
+describe('RolesService', () => {
+  let service: RolesService;
+  const mockRoleRepo = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((r) => r),
+    save: jest.fn(async (r) => ({ id: 4, ...r })),
+    remove: jest.fn(),
+  };
+  const mockUserRepo = {
+    count: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const curator = {
+    id: 4,
+    name: 'curator',
+    permissions: [Permission.PERSONS_WRITE],
+    builtIn: false,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RolesService,
+        { provide: getRepositoryToken(Role), useValue: mockRoleRepo },
+        { provide: getRepositoryToken(User), useValue: mockUserRepo },
+      ],
+    }).compile();
+
+    service = module.get<RolesService>(RolesService);
+    jest.clearAllMocks();
+  });
+
+  describe('permissionsFor', () => {
+    it("should return the role's permissions", async () => {
+      mockRoleRepo.findOne.mockResolvedValue(curator);
+      await expect(service.permissionsFor('curator')).resolves.toEqual([
+        Permission.PERSONS_WRITE,
+      ]);
+    });
+
+    it('should grant nothing for an unknown role', async () => {
+      mockRoleRepo.findOne.mockResolvedValue(null);
+      await expect(service.permissionsFor('gone')).resolves.toEqual([]);
+    });
+  });
+
+  describe('findAssignable', () => {
+    const admin = { id: 1, name: 'admin', permissions: ALL_PERMISSIONS };
+
+    it('should let a user manager assign roles within their permissions', async () => {
+      mockRoleRepo.findOne.mockResolvedValue(curator);
+      await expect(
+        service.findAssignable('curator', [
+          Permission.USERS_MANAGE,
+          Permission.PERSONS_WRITE,
+        ]),
+      ).resolves.toBe(curator);
+    });
+
+    it('should not let a user manager hand out admin', async () => {
+      mockRoleRepo.findOne.mockResolvedValue(admin);
+      await expect(
+        service.findAssignable('admin', [Permission.USERS_MANAGE]),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should let a role manager assign any role', async () => {
+      mockRoleRepo.findOne.mockResolvedValue(admin);
+      await expect(
+        service.findAssignable('admin', [
+          Permission.USERS_MANAGE,
+          Permission.ROLES_MANAGE,
+        ]),
+      ).resolves.toBe(admin);
+    });
+
+    it('should reject an unknown role', async () => {
+      mockRoleRepo.findOne.mockResolvedValue(null);
+      await expect(
+        service.findAssignable('gone', ALL_PERMISSIONS),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('assertCanManageUser', () => {
+    const admin = { id: 1, name: 'admin', permissions: ALL_PERMISSIONS };
+
+    it('should let a user manager manage users within their permissions', async () => {
+      mockUserRepo.findOne.mockResolvedValue({ id: 7, role: 'curator' });
+      mockRoleRepo.findOne.mockResolvedValue(curator);
+      await expect(
+        service.assertCanManageUser(7, [
+          Permission.USERS_MANAGE,
+          Permission.PERSONS_WRITE,
+        ]),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should not let a user manager demote or sign out an admin', async () => {
+      mockUserRepo.findOne.mockResolvedValue({ id: 1, role: 'admin' });
+      mockRoleRepo.findOne.mockResolvedValue(admin);
+      await expect(
+        service.assertCanManageUser(1, [Permission.USERS_MANAGE]),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should let a role manager manage anyone', async () => {
+      mockUserRepo.findOne.mockResolvedValue({ id: 1, role: 'admin' });
+      mockRoleRepo.findOne.mockResolvedValue(admin);
+      await expect(
+        service.assertCanManageUser(1, [
+          Permission.USERS_MANAGE,
+          Permission.ROLES_MANAGE,
+        ]),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject an unknown user', async () => {
+      mockUserRepo.findOne.mockResolvedValue(null);
+      await expect(
+        service.assertCanManageUser(99, ALL_PERMISSIONS),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('create', () => {
+    it('should store the permissions once each', async () => {
+      mockRoleRepo.findOne.mockResolvedValue(null);
+      await service.create({
+        name: 'curator',
+        permissions: [Permission.PERSONS_WRITE, Permission.PERSONS_WRITE],
+      });
+      expect(mockRoleRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ permissions: [Permission.PERSONS_WRITE] }),
+      );
+    });
+
+    it('should reject a duplicate name', async () => {
+      mockRoleRepo.findOne.mockResolvedValue(curator);
+      await expect(
+        service.create({ name: 'curator', permissions: [] }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('update', () => {
+    it('should not let the admin role lose permissions', async () => {
+      mockRoleRepo.findOne.mockResolvedValue({
+        id: 1,
+        name: 'admin',
+        permissions: ALL_PERMISSIONS,
+        builtIn: true,
+      });
+      await expect(service.update(1, { permissions: [] })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockRoleRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should let built-in roles other than admin be edited', async () => {
+      mockRoleRepo.findOne.mockResolvedValue({
+        id: 2,
+        name: 'moderator',
+        permissions: [Permission.EDITS_REVIEW],
+        builtIn: true,
+      });
+      const result = await service.update(2, {
+        permissions: [Permission.EDITS_REVIEW, Permission.PERSONS_WRITE],
+      });
+      expect(result.permissions).toEqual([
+        Permission.EDITS_REVIEW,
+        Permission.PERSONS_WRITE,
+      ]);
+    });
+  });
+
+  describe('remove', () => {
+    it('should refuse built-in roles', async () => {
+      mockRoleRepo.findOne.mockResolvedValue({ ...curator, builtIn: true });
+      await expect(service.remove(4)).rejects.toThrow(BadRequestException);
+    });
+
+    it('should refuse a role still assigned to users', async () => {
+      mockRoleRepo.findOne.mockResolvedValue(curator);
+      mockUserRepo.count.mockResolvedValue(2);
+      await expect(service.remove(4)).rejects.toThrow(ConflictException);
+      expect(mockRoleRepo.remove).not.toHaveBeenCalled();
+    });
+
+    it('should delete an unused custom role', async () => {
+      mockRoleRepo.findOne.mockResolvedValue(curator);
+      mockUserRepo.count.mockResolvedValue(0);
+      await service.remove(4);
+      expect(mockRoleRepo.remove).toHaveBeenCalledWith(curator);
+    });
+  });
+});
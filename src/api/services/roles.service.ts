@@ -0,0 +1,175 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ArrayContains, Repository } from 'typeorm';
+import { Role } from '../entities/role.entity';
+import { User, UserRole } from '../entities/user.entity';
+import { BUILT_IN_ROLES, Permission } from '../auth/permissions';
+import { CreateRoleDto, UpdateRoleDto } from '../dtos/role.dto';
+
+@Injectable()
+export class RolesService implements OnModuleInit {
+  constructor(
+    @InjectRepository(Role)
+    private roleRepository: Repository<Role>,
+    @InjectRepository(User)
+    private usersRepository: Repository<User>,
+  ) {}
+
+  /**
+   * Make sure the built-in roles exist and that admin holds every
+   * permission, including ones added since the role was created.
+   */
+  async onModuleInit() {
+    await this.roleRepository
+      .createQueryBuilder()
+      .insert()
+      .values(
+        Object.entries(BUILT_IN_ROLES).map(([name, permissions]) => ({
+          name,
+          permissions,
+          builtIn: true,
+        })),
+      )
+      .orIgnore()
+      .execute();
+    await this.roleRepository.update(
+      { name: UserRole.ADMIN },
+      { permissions: BUILT_IN_ROLES[UserRole.ADMIN] },
+    );
+  }
+
+  async findAll(): Promise<Role[]> {
+    return this.roleRepository.find({ order: { id: 'ASC' } });
+  }
+
+  async findOne(id: number): Promise<Role> {
+    const role = await this.roleRepository.findOne({ where: { id } });
+    if (!role) {
+      throw new NotFoundException(`Role with id ${id} not found`);
+    }
+    return role;
+  }
+
+  async findByName(name: string): Promise<Role | null> {
+    return this.roleRepository.findOne({ where: { name } });
+  }
+
+  /** Permissions of the named role; none for an unknown role. */
+  async permissionsFor(name: string): Promise<Permission[]> {
+    return (await this.findByName(name))?.permissions ?? [];
+  }
+
+  /**
+   * The role named `name`, if a user holding `granted` may assign it.
+   * Without roles:manage, only roles within the assigner's own
+   * permissions can be handed out.
+   */
+  async findAssignable(name: string, granted: Permission[]): Promise<Role> {
+    const role = name ? await this.findByName(name) : null;
+    if (!role) {
+      throw new BadRequestException(`Role "${name}" does not exist`);
+    }
+    const missing = this.missingFrom(role.permissions, granted);
+    if (missing.length) {
+      throw new ForbiddenException(
+        `You cannot assign a role with permissions you do not have: ${missing.join(', ')}`,
+      );
+    }
+    return role;
+  }
+
+  /**
+   * Check that a user holding `granted` may change, sign out or unlock
+   * user `userId`. Without roles:manage, only users whose current
+   * permissions are all within the manager's own can be managed.
+   */
+  async assertCanManageUser(
+    userId: number,
+    granted: Permission[],
+  ): Promise<void> {
+    const user = await this.usersRepository.findOne({
+      select: ['id', 'role'],
+      where: { id: userId },
+    });
+    if (!user) {
+      throw new NotFoundException(`User with id ${userId} not found`);
+    }
+    const missing = this.missingFrom(
+      await this.permissionsFor(user.role),
+      granted,
+    );
+    if (missing.length) {
+      throw new ForbiddenException(
+        `You cannot manage a user with permissions you do not have: ${missing.join(', ')}`,
+      );
+    }
+  }
+
+  /** Permissions in `required` that `granted` lacks; none with roles:manage. */
+  private missingFrom(
+    required: Permission[],
+    granted: Permission[],
+  ): Permission[] {
+    if (granted.includes(Permission.ROLES_MANAGE)) return [];
+    return required.filter((permission) => !granted.includes(permission));
+  }
+
+  /** Names of the roles that grant `permission`. */
+  async rolesWith(permission: Permission): Promise<string[]> {
+    const roles = await this.roleRepository.find({
+      select: ['name'],
+      where: { permissions: ArrayContains([permission]) },
+    });
+    return roles.map((role) => role.name);
+  }
+
+  async create(dto: CreateRoleDto): Promise<Role> {
+    if (await this.findByName(dto.name)) {
+      throw new ConflictException(`Role "${dto.name}" already exists`);
+    }
+    return this.roleRepository.save(
+      this.roleRepository.create({
+        ...dto,
+        permissions: [...new Set(dto.permissions)],
+      }),
+    );
+  }
+
+  async update(id: number, dto: UpdateRoleDto): Promise<Role> {
+    const role = await this.findOne(id);
+    if (role.name === UserRole.ADMIN && dto.permissions) {
+      throw new BadRequestException(
+        'The admin role always has every permission',
+      );
+    }
+    if (dto.description !== undefined) role.description = dto.description;
+    if (dto.permissions) role.permissions = [...new Set(dto.permissions)];
+    return this.roleRepository.save(role);
+  }
+
+  /** Built-in roles and roles still assigned to someone cannot be deleted. */
+  async remove(id: number): Promise<void> {
+    const role = await this.findOne(id);
+    if (role.builtIn) {
+      throw new BadRequestException(
+        `Built-in role "${role.name}" cannot be deleted`,
+      );
+    }
+    const assigned = await this.usersRepository.count({
+      where: { role: role.name },
+    });
+    if (assigned > 0) {
+      throw new ConflictException(
+        `Role "${role.name}" is still assigned to ${assigned} user(s)`,
+      );
+    }
+    await this.roleRepository.remove(role);
+  }
+}
@@ -0,0 +1,110 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { SearchService } from './search.service';
+import { Person } from '../entities/person.entity';
+
+const row = {
+  id: 'p1',
+  name: 'Taras Shevchenko',
+  birthyear: 1814,
+  birthplace: 'Моринці',
+  lat: 49.08,
+  lng: 30.45,
+  rating: 9.8,
+  category: 'writer',
+};
+
+describe('SearchService', () => {
+  let service: SearchService;
+  const mockRepo = {
+    query: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchService,
+        { provide: getRepositoryToken(Person), useValue: mockRepo },
+      ],
+    }).compile();
+
+    service = module.get<SearchService>(SearchService);
+    jest.clearAllMocks();
+  });
+
+  describe('buildFilterConditions', () => {
+    it('should continue the caller placeholder numbering', () => {
+      const params: unknown[] = ['a', 'b'];
+      const conditions = service.buildFilterConditions(
+        { category: 'writer', yearFrom: 1800, yearTo: 1900 },
+        params,
+      );
+      expect(conditions).toEqual([
+        'p.category = $3',
+        'p."birthYear" >= $4',
+        'p."birthYear" <= $5',
+      ]);
+      expect(params).toEqual(['a', 'b', 'writer', 1800, 1900]);
+    });
+
+    it('should match occupations with JSONB containment', () => {
+      const params: unknown[] = [];
+      const conditions = service.buildFilterConditions(
+        { occupation: 'поет' },
+        params,
+      );
+      expect(conditions).toEqual([`p.meta_data->'occupation' @> $1::jsonb`]);
+      expect(params).toEqual(['["поет"]']);
+    });
+  });
+
+  describe('searchByBbox', () => {
+    const bbox = { minLat: 44, minLng: 22, maxLat: 53, maxLng: 41 };
+
+    it('should query the envelope with filters and paging', async () => {
+      mockRepo.query.mockResolvedValue([row]);
+
+      const result = await service.searchByBbox({
+        ...bbox,
+        category: 'writer',
+        limit: 10,
+        offset: 20,
+      });
+      expect(result[0].birthYear).toBe(1814);
+      const [sql, params] = mockRepo.query.mock.calls[0];
+      expect(sql).toContain('ST_MakeEnvelope($1, $2, $3, $4, 4326)');
+      expect(sql).toContain('LIMIT $6 OFFSET $7');
+      expect(params).toEqual([22, 44, 41, 53, 'writer', 10, 20]);
+    });
+
+    it('should leave out trashed persons', async () => {
+      mockRepo.query.mockResolvedValue([]);
+      await service.searchByBbox(bbox);
+      expect(mockRepo.query.mock.calls[0][0]).toContain(
+        'p."deletedAt" IS NULL',
+      );
+    });
+
+    it('should reject an inverted bbox', async () => {
+      await expect(
+        service.searchByBbox({ ...bbox, minLng: 50 }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockRepo.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('searchNearest', () => {
+    it('should order by the KNN operator and report km', async () => {
+      mockRepo.query.mockResolvedValue([{ ...row, distance_km: '12.5' }]);
+
+      const result = await service.searchNearest({ lat: 49, lng: 30 });
+      expect(result).toEqual([
+        { person: expect.any(Person), distanceKm: 12.5 },
+      ]);
+      const [sql, params] = mockRepo.query.mock.calls[0];
+      expect(sql).toContain('<->');
+      expect(params).toEqual([30, 49, 20, 0]);
+    });
+  });
+});
@@ -1,15 +1,46 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Person } from '../entities/person.entity';
+import {
+  BboxDto,
+  BboxQueryDto,
+  NearestQueryDto,
+  PersonFilterDto,
+} from '../dtos/search.dto';
 
 export interface SearchResult {
   person: Person;
   similarity?: number;
   levenshtein?: number;
   rank?: number;
+  distanceKm?: number;
 }
 
+/** Geometry column a geo-search runs against. */
+export type LocationKind = 'birth' | 'death';
+
+export type MigrationLevel = 'oblast' | 'country';
+
+export interface MigrationFlow {
+  from: string;
+  to: string;
+  count: number;
+  /** Mean birth / death coordinates of the group, for drawing arcs. */
+  fromLat: number | null;
+  fromLng: number | null;
+  toLat: number | null;
+  toLng: number | null;
+}
+
+/** Condition on alias `p` leaving out persons in the trash. */
+export const NOT_DELETED = 'p."deletedAt" IS NULL';
+
+const LOCATION_COLUMNS: Record<LocationKind, string> = {
+  birth: '"birthLocation"',
+  death: '"deathLocation"',
+};
+
 @Injectable()
 export class SearchService {
   constructor(
@@ -41,6 +72,7 @@ export class SearchService {
          SELECT p.*, similarity(p.name, $1) AS sim
          FROM person p, _cfg
          WHERE p.name % $1
+           AND p."deletedAt" IS NULL
          ORDER BY sim DESC
          LIMIT $2
        )
@@ -73,6 +105,7 @@ export class SearchService {
        FROM person p
        WHERE to_tsvector('simple', coalesce(p.name, '') || ' ' || coalesce(p.summary, ''))
              @@ plainto_tsquery('simple', $1)
+         AND p."deletedAt" IS NULL
        ORDER BY rank DESC
        LIMIT $2`,
       [query, limit],
@@ -118,27 +151,84 @@ export class SearchService {
     radiusKm: number,
     limit = 100,
   ): Promise<Person[]> {
-    const radiusMeters = radiusKm * 1000;
+    return this.withinRadius('birth', lat, lng, radiusKm, limit);
+  }
+
+  /**
+   * Geo-search: persons born inside a map viewport, highest rated first.
+   * The && operator lets PostgreSQL use idx_person_birth_location_gist.
+   */
+  async searchByBbox(query: BboxQueryDto): Promise<Person[]> {
+    this.assertValidBbox(query);
+    const params: unknown[] = [
+      query.minLng,
+      query.minLat,
+      query.maxLng,
+      query.maxLat,
+    ];
+    const conditions = [
+      NOT_DELETED,
+      'p."birthLocation" IS NOT NULL',
+      'p."birthLocation" && ST_MakeEnvelope($1, $2, $3, $4, 4326)',
+      ...this.buildFilterConditions(query, params),
+    ];
+    params.push(query.limit ?? 100, query.offset ?? 0);
+
     const results = await this.personRepository.query(
       `SELECT p.*
        FROM person p
-       WHERE p."birthLocation" IS NOT NULL
-         AND ST_DWithin(
-           p."birthLocation"::geography,
-           ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography,
-           $3
-         )
-       ORDER BY ST_Distance(
-         p."birthLocation"::geography,
-         ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography
-       )
-       LIMIT $4`,
-      [lng, lat, radiusMeters, limit],
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY p.rating DESC, p.id
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params,
     );
-
     return results.map((row: any) => this.mapRowToPerson(row));
   }
 
+  /**
+   * KNN search: the persons born nearest to a point, closest first.
+   * Ordering uses the index-assisted <-> operator; the reported distance
+   * is the geodesic one in km.
+   */
+  async searchNearest(query: NearestQueryDto): Promise<SearchResult[]> {
+    const params: unknown[] = [query.lng, query.lat];
+    const conditions = [
+      NOT_DELETED,
+      'p."birthLocation" IS NOT NULL',
+      ...this.buildFilterConditions(query, params),
+    ];
+    params.push(query.limit ?? 20, query.offset ?? 0);
+
+    const results = await this.personRepository.query(
+      `SELECT p.*,
+              ST_Distance(
+                p."birthLocation"::geography,
+                ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography
+              ) / 1000 AS distance_km
+       FROM person p
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY p."birthLocation" <-> ST_SetSRID(ST_MakePoint($1, $2), 4326)
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params,
+    );
+    return results.map((row: any) => ({
+      person: this.mapRowToPerson(row),
+      distanceKm: parseFloat(row.distance_km),
+    }));
+  }
+
+  /**
+   * Geo-search: find persons who died within a radius (km).
+   */
+  async searchByDeathRadius(
+    lat: number,
+    lng: number,
+    radiusKm: number,
+    limit = 100,
+  ): Promise<Person[]> {
+    return this.withinRadius('death', lat, lng, radiusKm, limit);
+  }
+
   /**
    * Geo-search: find persons within a GeoJSON polygon using PostGIS ST_Within.
    */
@@ -146,20 +236,53 @@ export class SearchService {
     polygonGeoJson: object,
     limit = 100,
   ): Promise<Person[]> {
+    return this.withinPolygon('birth', polygonGeoJson, limit);
+  }
+
+  /**
+   * Geo-search: find persons who died within a GeoJSON polygon.
+   */
+  async searchByDeathPolygon(
+    polygonGeoJson: object,
+    limit = 100,
+  ): Promise<Person[]> {
+    return this.withinPolygon('death', polygonGeoJson, limit);
+  }
+
+  /**
+   * Birth-region → death-region pairs with their counts, for drawing
+   * emigration and relocation arcs. Regions are present-day oblasts
+   * (falling back to the country abroad) or countries. Persons who died
+   * in their birth region are left out.
+   */
+  async getMigrationFlows(
+    level: MigrationLevel = 'oblast',
+    minCount = 1,
+    limit = 200,
+  ): Promise<MigrationFlow[]> {
+    const [from, to] =
+      level === 'country'
+        ? ['"birthCountryModern"', '"deathCountryModern"']
+        : [
+            'COALESCE("birthOblast", "birthCountryModern")',
+            'COALESCE("deathOblast", "deathCountryModern")',
+          ];
     const results = await this.personRepository.query(
-      `SELECT p.*
-       FROM person p
-       WHERE p."birthLocation" IS NOT NULL
-         AND ST_Within(
-           p."birthLocation",
-           ST_SetSRID(ST_GeomFromGeoJSON($1), 4326)
-         )
-       ORDER BY p.rating DESC
+      `SELECT ${from} AS "from", ${to} AS "to", COUNT(*)::int AS count,
+              AVG(lat)::float AS "fromLat", AVG(lng)::float AS "fromLng",
+              AVG("deathLat")::float AS "toLat", AVG("deathLng")::float AS "toLng"
+       FROM person
+       WHERE "deletedAt" IS NULL
+         AND ${from} IS NOT NULL
+         AND ${to} IS NOT NULL
+         AND ${from} <> ${to}
+       GROUP BY 1, 2
+       HAVING COUNT(*) >= $1
+       ORDER BY count DESC
        LIMIT $2`,
-      [JSON.stringify(polygonGeoJson), limit],
+      [minCount, limit],
     );
-
-    return results.map((row: any) => this.mapRowToPerson(row));
+    return results;
   }
 
   /**
@@ -171,6 +294,7 @@ export class SearchService {
       `SELECT p.*
        FROM person p
        WHERE p.meta_data->'occupation' @> $1::jsonb
+         AND p."deletedAt" IS NULL
        ORDER BY p.rating DESC
        LIMIT $2`,
       [JSON.stringify([occupation]), limit],
@@ -192,6 +316,7 @@ export class SearchService {
       `SELECT p.*
        FROM person p
        WHERE p.meta_data @> $1::jsonb
+         AND p."deletedAt" IS NULL
        ORDER BY p.rating DESC
        LIMIT $2`,
       [JSON.stringify(filter), limit],
@@ -199,7 +324,100 @@ export class SearchService {
     return results.map((row: any) => this.mapRowToPerson(row));
   }
 
-  private mapRowToPerson(row: any): Person {
+  /**
+   * Translate attribute filters into SQL conditions on the `p` alias.
+   * Values are appended to `params`, so placeholders continue the
+   * caller's numbering.
+   */
+  buildFilterConditions(filter: PersonFilterDto, params: unknown[]): string[] {
+    const conditions: string[] = [];
+    const add = (sql: (placeholder: string) => string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql(`$${params.length}`));
+    };
+
+    if (filter.category) add((ph) => `p.category = ${ph}`, filter.category);
+    if (filter.yearFrom != null) {
+      add((ph) => `p."birthYear" >= ${ph}`, filter.yearFrom);
+    }
+    if (filter.yearTo != null) {
+      add((ph) => `p."birthYear" <= ${ph}`, filter.yearTo);
+    }
+    if (filter.occupation) {
+      add(
+        (ph) => `p.meta_data->'occupation' @> ${ph}::jsonb`,
+        JSON.stringify([filter.occupation]),
+      );
+    }
+    if (filter.oblast) add((ph) => `p."birthOblast" = ${ph}`, filter.oblast);
+    if (filter.country) {
+      add((ph) => `p."birthCountryModern" = ${ph}`, filter.country);
+    }
+    return conditions;
+  }
+
+  assertValidBbox(bbox: BboxDto) {
+    if (bbox.minLat > bbox.maxLat || bbox.minLng > bbox.maxLng) {
+      throw new BadRequestException(
+        'Bounding box min coordinates must not exceed max coordinates',
+      );
+    }
+  }
+
+  private async withinRadius(
+    kind: LocationKind,
+    lat: number,
+    lng: number,
+    radiusKm: number,
+    limit: number,
+  ): Promise<Person[]> {
+    const column = `p.${LOCATION_COLUMNS[kind]}`;
+    const radiusMeters = radiusKm * 1000;
+    const results = await this.personRepository.query(
+      `SELECT p.*
+       FROM person p
+       WHERE ${column} IS NOT NULL
+         AND p."deletedAt" IS NULL
+         AND ST_DWithin(
+           ${column}::geography,
+           ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography,
+           $3
+         )
+       ORDER BY ST_Distance(
+         ${column}::geography,
+         ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography
+       )
+       LIMIT $4`,
+      [lng, lat, radiusMeters, limit],
+    );
+
+    return results.map((row: any) => this.mapRowToPerson(row));
+  }
+
+  private async withinPolygon(
+    kind: LocationKind,
+    polygonGeoJson: object,
+    limit: number,
+  ): Promise<Person[]> {
+    const column = `p.${LOCATION_COLUMNS[kind]}`;
+    const results = await this.personRepository.query(
+      `SELECT p.*
+       FROM person p
+       WHERE ${column} IS NOT NULL
+         AND p."deletedAt" IS NULL
+         AND ST_Within(
+           ${column},
+           ST_SetSRID(ST_GeomFromGeoJSON($1), 4326)
+         )
+       ORDER BY p.rating DESC
+       LIMIT $2`,
+      [JSON.stringify(polygonGeoJson), limit],
+    );
+
+    return results.map((row: any) => this.mapRowToPerson(row));
+  }
+
+  mapRowToPerson(row: any): Person {
     const person = new Person();
     person.id = row.id;
     person.name = row.name;
@@ -209,8 +427,16 @@ export class SearchService {
     person.birthYear = row.birthYear ?? row.birthyear;
     person.birthDate = row.birthDate ?? row.birthdate;
     person.birthPlace = row.birthPlace ?? row.birthplace;
+    person.birthOblast = row.birthOblast ?? row.birthoblast;
+    person.birthCountryModern =
+      row.birthCountryModern ?? row.birthcountrymodern;
     person.lat = row.lat;
     person.lng = row.lng;
+    person.deathLat = row.deathLat ?? row.deathlat;
+    person.deathLng = row.deathLng ?? row.deathlng;
+    person.deathOblast = row.deathOblast ?? row.deathoblast;
+    person.deathCountryModern =
+      row.deathCountryModern ?? row.deathcountrymodern;
     person.meta_data = row.meta_data;
     person.views = row.views;
     person.rating = row.rating;
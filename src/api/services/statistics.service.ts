@@ -19,7 +19,8 @@ export class StatisticsService {
     const results = await this.personRepository.query(
       `SELECT (FLOOR("birthYear" / 10) * 10)::int AS decade, COUNT(*)::int AS count
        FROM person
-       WHERE "birthYear" IS NOT NULL
+       WHERE "deletedAt" IS NULL
+         AND "birthYear" IS NOT NULL
        GROUP BY decade
        ORDER BY decade`,
     );
@@ -35,7 +36,8 @@ export class StatisticsService {
     const results = await this.personRepository.query(
       `SELECT "birthPlace", COUNT(*)::int AS count
        FROM person
-       WHERE "birthPlace" IS NOT NULL AND "birthPlace" != ''
+       WHERE "deletedAt" IS NULL
+         AND "birthPlace" IS NOT NULL AND "birthPlace" != ''
        GROUP BY "birthPlace"
        ORDER BY count DESC
        LIMIT $1`,
@@ -47,6 +49,38 @@ export class StatisticsService {
     }));
   }
 
+  /**
+   * Distribution of persons by present-day birth oblast.
+   */
+  async getOblastDistribution(): Promise<{ oblast: string; count: number }[]> {
+    const results = await this.personRepository.query(
+      `SELECT "birthOblast" AS oblast, COUNT(*)::int AS count
+       FROM person
+       WHERE "deletedAt" IS NULL
+         AND "birthOblast" IS NOT NULL
+       GROUP BY "birthOblast"
+       ORDER BY count DESC`,
+    );
+    return results;
+  }
+
+  /**
+   * Distribution of persons by present-day birth country.
+   */
+  async getCountryDistribution(): Promise<
+    { country: string; count: number }[]
+  > {
+    const results = await this.personRepository.query(
+      `SELECT "birthCountryModern" AS country, COUNT(*)::int AS count
+       FROM person
+       WHERE "deletedAt" IS NULL
+         AND "birthCountryModern" IS NOT NULL
+       GROUP BY "birthCountryModern"
+       ORDER BY count DESC`,
+    );
+    return results;
+  }
+
   /**
    * Distribution of persons by category.
    */
@@ -56,7 +90,8 @@ export class StatisticsService {
     const results = await this.personRepository.query(
       `SELECT category, COUNT(*)::int AS count
        FROM person
-       WHERE category IS NOT NULL AND category != ''
+       WHERE "deletedAt" IS NULL
+         AND category IS NOT NULL AND category != ''
        GROUP BY category
        ORDER BY count DESC`,
     );
@@ -74,7 +109,8 @@ export class StatisticsService {
     const results = await this.personRepository.query(
       `SELECT meta_data->>'deathPlace' AS "deathPlace", COUNT(*)::int AS count
        FROM person
-       WHERE meta_data ? 'deathPlace'
+       WHERE "deletedAt" IS NULL
+         AND meta_data ? 'deathPlace'
          AND meta_data->>'deathPlace' != ''
        GROUP BY meta_data->>'deathPlace'
        ORDER BY count DESC
@@ -99,7 +135,8 @@ export class StatisticsService {
       `SELECT occ AS occupation, COUNT(*)::int AS count
        FROM person,
             jsonb_array_elements_text(meta_data->'occupation') AS occ
-       WHERE meta_data ? 'occupation'
+       WHERE "deletedAt" IS NULL
+         AND meta_data ? 'occupation'
        GROUP BY occ
        ORDER BY count DESC
        LIMIT $1`,
@@ -130,7 +167,8 @@ export class StatisticsService {
          MIN("birthYear")::int AS "minBirthYear",
          MAX("birthYear")::int AS "maxBirthYear",
          ROUND(AVG(rating)::numeric, 2)::float AS "avgRating"
-       FROM person`,
+       FROM person
+       WHERE "deletedAt" IS NULL`,
     );
     return result[0];
   }
@@ -0,0 +1,55 @@
+import { SyncEventsService, SyncEvent } from './sync-events.service';
+import { MessageEvent } from '@nestjs/common';
+
+describe('SyncEventsService', () => {
+  let service: SyncEventsService;
+
+  beforeEach(() => {
+    service = new SyncEventsService();
+  });
+
+  it('should deliver emitted events to subscribers', () => {
+    const received: SyncEvent[] = [];
+    const sub = service.asObservable().subscribe((e) => received.push(e));
+
+    service.emit('category_started', {
+      jobId: 7,
+      category: 'Категорія:Українські поети',
+    });
+    sub.unsubscribe();
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toEqual(
+      expect.objectContaining({
+        type: 'category_started',
+        jobId: 7,
+        category: 'Категорія:Українські поети',
+      }),
+    );
+    expect(received[0].timestamp).toBeDefined();
+  });
+
+  it('should not replay events emitted before subscribing', () => {
+    service.emit('job_started', { jobId: 1 });
+    const received: SyncEvent[] = [];
+    const sub = service.asObservable().subscribe((e) => received.push(e));
+    sub.unsubscribe();
+    expect(received).toHaveLength(0);
+  });
+
+  it('should map events to SSE messages with shared ids', () => {
+    const a: MessageEvent[] = [];
+    const b: MessageEvent[] = [];
+    const subA = service.stream().subscribe((e) => a.push(e));
+    const subB = service.stream().subscribe((e) => b.push(e));
+
+    service.emit('stage', { stage: 'geocoding', data: { status: 'started' } });
+    service.emit('ratings', { data: { status: 'finished' } });
+    subA.unsubscribe();
+    subB.unsubscribe();
+
+    expect(a.map((e) => e.type)).toEqual(['stage', 'ratings']);
+    expect(a.map((e) => e.id)).toEqual(['1', '2']);
+    expect(b.map((e) => e.id)).toEqual(a.map((e) => e.id));
+  });
+});
@@ -0,0 +1,66 @@
+import { Injectable, MessageEvent } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import { map } from 'rxjs/operators';
+
+export type SyncEventType =
+  | 'job_started'
+  | 'job_finished'
+  | 'category_started'
+  | 'category_finished'
+  | 'stage'
+  | 'batch_saved'
+  | 'ratings'
+  | 'error';
+
+export type SyncStage = 'views' | 'humans' | 'details' | 'geocoding';
+
+export interface SyncEvent {
+  id: number;
+  type: SyncEventType;
+  jobId?: number;
+  category?: string;
+  stage?: SyncStage;
+  data?: Record<string, unknown>;
+  timestamp: string;
+}
+
+/**
+ * In-process event bus for sync progress. The pipeline publishes
+ * structured events; SSE subscribers receive everything emitted after
+ * they connect.
+ */
+@Injectable()
+export class SyncEventsService {
+  private readonly events$ = new Subject<SyncEvent>();
+  private sequence = 0;
+
+  emit(
+    type: SyncEventType,
+    event: Omit<SyncEvent, 'id' | 'type' | 'timestamp'> = {},
+  ) {
+    this.events$.next({
+      id: ++this.sequence,
+      type,
+      ...event,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  asObservable(): Observable<SyncEvent> {
+    return this.events$.asObservable();
+  }
+
+  /**
+   * Events shaped for @Sse(): the event type becomes the SSE `event:`
+   * field so EventSource clients can addEventListener per type.
+   */
+  stream(): Observable<MessageEvent> {
+    return this.events$.pipe(
+      map((event) => ({
+        id: String(event.id),
+        type: event.type,
+        data: event,
+      })),
+    );
+  }
+}
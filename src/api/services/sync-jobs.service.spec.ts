@@ -0,0 +1,158 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { QueryFailedError } from 'typeorm';
+import { SyncJobsService } from './sync-jobs.service';
+import {
+  SyncJob,
+  SyncJobStatus,
+  SyncJobTrigger,
+} from '../entities/sync-job.entity';
+
+const makeJob = (overrides: Partial<SyncJob> = {}): SyncJob =>
+  ({
+    id: 1,
+    status: SyncJobStatus.RUNNING,
+    trigger: SyncJobTrigger.MANUAL,
+    forceRefresh: false,
+    categories: ['Категорія:A', 'Категорія:B', 'Категорія:C', 'Категорія:D'],
+    completedCategories: 0,
+    currentCategory: null,
+    categoryStats: {},
+    totalSaved: 0,
+    totalErrors: 0,
+    abortRequested: false,
+    resumeCount: 0,
+    error: null,
+    startedAt: new Date('2026-01-01T00:00:00Z'),
+    finishedAt: null,
+    ...overrides,
+  }) as SyncJob;
+
+describe('SyncJobsService', () => {
+  let service: SyncJobsService;
+  const mockRepo = {
+    create: jest.fn(),
+    save: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SyncJobsService,
+        { provide: getRepositoryToken(SyncJob), useValue: mockRepo },
+      ],
+    }).compile();
+
+    service = module.get<SyncJobsService>(SyncJobsService);
+    jest.clearAllMocks();
+    mockRepo.save.mockImplementation(async (job) => job);
+  });
+
+  describe('create', () => {
+    it('should create a running job with an empty cursor', async () => {
+      mockRepo.create.mockImplementation((data) => data);
+
+      const job = await service.create(true, SyncJobTrigger.CRON);
+      expect(job).toEqual(
+        expect.objectContaining({
+          status: SyncJobStatus.RUNNING,
+          trigger: SyncJobTrigger.CRON,
+          forceRefresh: true,
+          completedCategories: 0,
+        }),
+      );
+    });
+
+    it('should return null when another job is already running', async () => {
+      mockRepo.create.mockImplementation((data) => data);
+      mockRepo.save.mockRejectedValueOnce(
+        new QueryFailedError(
+          'INSERT INTO "sync_job"',
+          [],
+          Object.assign(new Error('duplicate key'), { code: '23505' }),
+        ),
+      );
+
+      await expect(service.create()).resolves.toBeNull();
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException when job is missing', async () => {
+      mockRepo.findOne.mockResolvedValue(null);
+      await expect(service.findOne(42)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('completeCategory', () => {
+    it('should advance the cursor and accumulate counters', async () => {
+      const job = makeJob({ completedCategories: 1, totalSaved: 5 });
+
+      const result = await service.completeCategory(job, 'Категорія:B', {
+        processed: 10,
+        saved: 8,
+        errors: 2,
+      });
+
+      expect(result.completedCategories).toBe(2);
+      expect(result.totalSaved).toBe(13);
+      expect(result.totalErrors).toBe(2);
+      expect(result.categoryStats['Категорія:B']).toEqual({
+        processed: 10,
+        saved: 8,
+        errors: 2,
+      });
+      expect(result.currentCategory).toBeNull();
+    });
+  });
+
+  describe('requestAbort', () => {
+    it('should flag the active job', async () => {
+      mockRepo.find.mockResolvedValue([makeJob()]);
+      const job = await service.requestAbort();
+      expect(job.abortRequested).toBe(true);
+      expect(mockRepo.save).toHaveBeenCalled();
+    });
+
+    it('should return null when nothing is running', async () => {
+      mockRepo.find.mockResolvedValue([]);
+      expect(await service.requestAbort()).toBeNull();
+      expect(mockRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('finish', () => {
+    it('should set status and finish time', async () => {
+      const job = await service.finish(
+        makeJob({ currentCategory: 'Категорія:A' }),
+        SyncJobStatus.FAILED,
+        'boom',
+      );
+      expect(job.status).toBe(SyncJobStatus.FAILED);
+      expect(job.error).toBe('boom');
+      expect(job.finishedAt).toBeInstanceOf(Date);
+      expect(job.currentCategory).toBeNull();
+    });
+  });
+
+  describe('toProgress', () => {
+    it('should report percent and last completed category', () => {
+      const progress = service.toProgress(
+        makeJob({ completedCategories: 3, currentCategory: 'Категорія:D' }),
+      );
+      expect(progress.totalCategories).toBe(4);
+      expect(progress.percent).toBe(75);
+      expect(progress.lastCompletedCategory).toBe('Категорія:C');
+      expect(progress.currentCategory).toBe('Категорія:D');
+    });
+
+    it('should handle a job whose categories are not discovered yet', () => {
+      const progress = service.toProgress(makeJob({ categories: [] }));
+      expect(progress.percent).toBe(0);
+      expect(progress.lastCompletedCategory).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { QueryFailedError, Repository } from 'typeorm';
+import {
+  SyncJob,
+  SyncJobStatus,
+  SyncJobTrigger,
+  SyncCategoryStats,
+} from '../entities/sync-job.entity';
+
+export interface SyncProgress {
+  id: number;
+  status: SyncJobStatus;
+  trigger: SyncJobTrigger;
+  forceRefresh: boolean;
+  totalCategories: number;
+  completedCategories: number;
+  percent: number;
+  currentCategory: string | null;
+  lastCompletedCategory: string | null;
+  totalSaved: number;
+  totalErrors: number;
+  resumeCount: number;
+  abortRequested: boolean;
+  error: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+  categoryStats: Record<string, SyncCategoryStats>;
+}
+
+/** Postgres error code for a unique index violation. */
+const UNIQUE_VIOLATION = '23505';
+
+@Injectable()
+export class SyncJobsService {
+  constructor(
+    @InjectRepository(SyncJob)
+    private syncJobRepository: Repository<SyncJob>,
+  ) {}
+
+  /**
+   * Start a new RUNNING job, or return null when one is already running.
+   * The check is left to the unique index on running jobs, so two
+   * concurrent starts cannot both get through.
+   */
+  async create(
+    forceRefresh = false,
+    trigger = SyncJobTrigger.MANUAL,
+  ): Promise<SyncJob | null> {
+    const job = this.syncJobRepository.create({
+      status: SyncJobStatus.RUNNING,
+      trigger,
+      forceRefresh,
+      categories: [],
+      completedCategories: 0,
+      categoryStats: {},
+    });
+    try {
+      return await this.syncJobRepository.save(job);
+    } catch (error) {
+      if (
+        error instanceof QueryFailedError &&
+        error.driverError?.code === UNIQUE_VIOLATION
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async findOne(id: number): Promise<SyncJob> {
+    const job = await this.syncJobRepository.findOne({ where: { id } });
+    if (!job) {
+      throw new NotFoundException(`Sync job with id ${id} not found`);
+    }
+    return job;
+  }
+
+  /**
+   * All jobs still marked RUNNING, newest first. At boot these are jobs
+   * that were cut off by a restart.
+   */
+  async findRunning(): Promise<SyncJob[]> {
+    return this.syncJobRepository.find({
+      where: { status: SyncJobStatus.RUNNING },
+      order: { startedAt: 'DESC' },
+    });
+  }
+
+  async findActive(): Promise<SyncJob | null> {
+    const [job] = await this.findRunning();
+    return job ?? null;
+  }
+
+  async findLatest(): Promise<SyncJob | null> {
+    const [job] = await this.syncJobRepository.find({
+      order: { startedAt: 'DESC' },
+      take: 1,
+    });
+    return job ?? null;
+  }
+
+  async findRecent(limit = 20): Promise<SyncJob[]> {
+    return this.syncJobRepository.find({
+      order: { startedAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  async setCategories(job: SyncJob, categories: string[]): Promise<SyncJob> {
+    job.categories = categories;
+    job.completedCategories = 0;
+    return this.syncJobRepository.save(job);
+  }
+
+  async startCategory(job: SyncJob, category: string): Promise<SyncJob> {
+    job.currentCategory = category;
+    return this.syncJobRepository.save(job);
+  }
+
+  /**
+   * Record the counters for a finished category and advance the cursor.
+   * The cursor only moves after the category's persons are saved, so a
+   * resumed job redoes at most the one category that was in flight.
+   */
+  async completeCategory(
+    job: SyncJob,
+    category: string,
+    stats: SyncCategoryStats,
+  ): Promise<SyncJob> {
+    job.categoryStats = { ...job.categoryStats, [category]: stats };
+    job.completedCategories += 1;
+    job.totalSaved += stats.saved;
+    job.totalErrors += stats.errors;
+    job.currentCategory = null;
+    return this.syncJobRepository.save(job);
+  }
+
+  async markResumed(job: SyncJob): Promise<SyncJob> {
+    job.resumeCount += 1;
+    job.abortRequested = false;
+    return this.syncJobRepository.save(job);
+  }
+
+  async requestAbort(): Promise<SyncJob | null> {
+    const job = await this.findActive();
+    if (!job) return null;
+    job.abortRequested = true;
+    return this.syncJobRepository.save(job);
+  }
+
+  async isAbortRequested(id: number): Promise<boolean> {
+    const job = await this.syncJobRepository.findOne({
+      select: ['id', 'abortRequested'],
+      where: { id },
+    });
+    return !!job?.abortRequested;
+  }
+
+  async finish(
+    job: SyncJob,
+    status: SyncJobStatus,
+    error?: string,
+  ): Promise<SyncJob> {
+    job.status = status;
+    job.currentCategory = null;
+    job.finishedAt = new Date();
+    job.error = error || null;
+    return this.syncJobRepository.save(job);
+  }
+
+  toProgress(job: SyncJob): SyncProgress {
+    const totalCategories = job.categories?.length ?? 0;
+    const lastIndex = job.completedCategories - 1;
+    return {
+      id: job.id,
+      status: job.status,
+      trigger: job.trigger,
+      forceRefresh: job.forceRefresh,
+      totalCategories,
+      completedCategories: job.completedCategories,
+      percent:
+        totalCategories > 0
+          ? Math.round((job.completedCategories / totalCategories) * 1000) / 10
+          : 0,
+      currentCategory: job.currentCategory ?? null,
+      lastCompletedCategory:
+        lastIndex >= 0 ? (job.categories[lastIndex] ?? null) : null,
+      totalSaved: job.totalSaved,
+      totalErrors: job.totalErrors,
+      resumeCount: job.resumeCount,
+      abortRequested: job.abortRequested,
+      error: job.error ?? null,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt ?? null,
+      categoryStats: job.categoryStats,
+    };
+  }
+}
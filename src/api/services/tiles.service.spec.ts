@@ -0,0 +1,68 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { TilesService } from './tiles.service';
+import { Person } from '../entities/person.entity';
+
+describe('TilesService', () => {
+  let service: TilesService;
+  const mockRepo = {
+    query: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TilesService,
+        { provide: getRepositoryToken(Person), useValue: mockRepo },
+      ],
+    }).compile();
+
+    service = module.get<TilesService>(TilesService);
+    jest.clearAllMocks();
+  });
+
+  describe('getPersonTile', () => {
+    it('should return the tile built by ST_AsMVT', async () => {
+      const tile = Buffer.from([0x1a, 0x05]);
+      mockRepo.query.mockResolvedValue([{ tile }]);
+
+      const result = await service.getPersonTile(10, 598, 347);
+      expect(result).toBe(tile);
+      expect(mockRepo.query).toHaveBeenCalledWith(
+        expect.stringContaining('ST_AsMVT'),
+        [10, 598, 347, 4096, 64, 0, 5000],
+      );
+    });
+
+    it('should return an empty buffer when the tile has no features', async () => {
+      mockRepo.query.mockResolvedValue([{ tile: null }]);
+      const result = await service.getPersonTile(0, 0, 0);
+      expect(result.length).toBe(0);
+    });
+
+    it('should only include top-rated persons at low zoom', async () => {
+      mockRepo.query.mockResolvedValue([]);
+      await service.getPersonTile(2, 1, 1);
+      expect(mockRepo.query.mock.calls[0][1][5]).toBe(9);
+    });
+
+    it('should reject coordinates outside the tile grid', async () => {
+      await expect(service.getPersonTile(2, 4, 0)).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(service.getPersonTile(23, 0, 0)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockRepo.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('minRatingForZoom', () => {
+    it('should lower the threshold as zoom increases', () => {
+      expect(service.minRatingForZoom(3)).toBe(9);
+      expect(service.minRatingForZoom(6)).toBe(6);
+      expect(service.minRatingForZoom(12)).toBe(0);
+    });
+  });
+});
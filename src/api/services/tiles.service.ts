@@ -0,0 +1,97 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Person } from '../entities/person.entity';
+
+@Injectable()
+export class TilesService {
+  private readonly MAX_ZOOM = 22;
+  private readonly EXTENT = 4096;
+  private readonly BUFFER = 64;
+  /** Hard cap per tile so a dense city tile stays a few hundred KB. */
+  private readonly MAX_FEATURES = 5000;
+  /**
+   * Minimum rating (0–10 percentile scale) shown up to a zoom level.
+   * Low zooms only carry the most prominent people.
+   */
+  private readonly RATING_THRESHOLDS: { maxZoom: number; minRating: number }[] =
+    [
+      { maxZoom: 3, minRating: 9 },
+      { maxZoom: 5, minRating: 8 },
+      { maxZoom: 7, minRating: 6 },
+      { maxZoom: 9, minRating: 3 },
+    ];
+
+  constructor(
+    @InjectRepository(Person)
+    private personRepository: Repository<Person>,
+  ) {}
+
+  /**
+   * Build a Mapbox Vector Tile of person birth locations with PostGIS
+   * ST_AsMVT. The layer is named "persons"; each feature carries id, name,
+   * rating and category. Returns an empty buffer for tiles without data.
+   */
+  async getPersonTile(z: number, x: number, y: number): Promise<Buffer> {
+    this.validateTile(z, x, y);
+
+    const result = await this.personRepository.query(
+      `WITH bounds AS (
+         SELECT ST_TileEnvelope($1, $2, $3) AS geom
+       ),
+       features AS (
+         SELECT ST_AsMVTGeom(
+                  ST_Transform(p."birthLocation", 3857),
+                  bounds.geom, $4, $5, true
+                ) AS geom,
+                p.id, p.name, p.rating, p.category
+         FROM person p, bounds
+         WHERE p."birthLocation" IS NOT NULL
+           AND p."deletedAt" IS NULL
+           AND p."birthLocation" && ST_Transform(bounds.geom, 4326)
+           AND p.rating >= $6
+         ORDER BY p.rating DESC
+         LIMIT $7
+       )
+       SELECT ST_AsMVT(features.*, 'persons', $4, 'geom') AS tile
+       FROM features`,
+      [
+        z,
+        x,
+        y,
+        this.EXTENT,
+        this.BUFFER,
+        this.minRatingForZoom(z),
+        this.MAX_FEATURES,
+      ],
+    );
+
+    return result[0]?.tile ?? Buffer.alloc(0);
+  }
+
+  minRatingForZoom(z: number): number {
+    const threshold = this.RATING_THRESHOLDS.find((t) => z <= t.maxZoom);
+    return threshold?.minRating ?? 0;
+  }
+
+  private validateTile(z: number, x: number, y: number) {
+    if (!Number.isInteger(z) || z < 0 || z > this.MAX_ZOOM) {
+      throw new BadRequestException(
+        `Zoom must be an integer between 0 and ${this.MAX_ZOOM}`,
+      );
+    }
+    const size = 2 ** z;
+    if (
+      !Number.isInteger(x) ||
+      !Number.isInteger(y) ||
+      x < 0 ||
+      y < 0 ||
+      x >= size ||
+      y >= size
+    ) {
+      throw new BadRequestException(
+        `Tile ${z}/${x}/${y} is outside the tile grid`,
+      );
+    }
+  }
+}
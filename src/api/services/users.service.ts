@@ -1,7 +1,10 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { User, UserRole, UserPersona } from '../entities/user.entity';
+import { User, UserPersona } from '../entities/user.entity';
+import { CursorPageQueryDto } from '../dtos/pagination.dto';
+import { CursorPage } from '../pagination/cursor';
+import { paginate } from '../pagination/paginate';
 
 @Injectable()
 export class UsersService {
@@ -10,18 +13,20 @@ export class UsersService {
     private readonly usersRepository: Repository<User>,
   ) {}
 
-  async findAll(): Promise<Omit<User, 'password'>[]> {
-    const users = await this.usersRepository.find({
-      order: { createdAt: 'DESC' },
+  async findAll(
+    page: CursorPageQueryDto = {},
+  ): Promise<CursorPage<Omit<User, 'password'>>> {
+    return paginate(this.usersRepository, page, {
+      sortColumn: 'createdAt',
+      sortType: 'timestamp',
+      select: this.publicColumns(),
     });
-    return users.map(({ password, ...rest }) => rest);
   }
 
-  async updateRole(
-    id: number,
-    role: UserRole,
-  ): Promise<Omit<User, 'password'>> {
+  async updateRole(id: number, role: string): Promise<Omit<User, 'password'>> {
     await this.usersRepository.update(id, { role });
+    // Outstanding access tokens still carry the old role.
+    await this.usersRepository.increment({ id }, 'tokenVersion', 1);
     const user = await this.usersRepository.findOneByOrFail({ id });
     const { password, ...rest } = user;
     return rest;
@@ -36,4 +41,11 @@ export class UsersService {
     const { password, ...rest } = user;
     return rest;
   }
+
+  /** Every column but the password hash. */
+  private publicColumns(): (keyof User & string)[] {
+    return this.usersRepository.metadata.columns
+      .map((column) => column.propertyName as keyof User & string)
+      .filter((name) => name !== 'password');
+  }
 }
@@ -0,0 +1,150 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { WikipediaService } from './wikipedia.service';
+import { Person } from '../entities/person.entity';
+import { ImportLog } from '../entities/import-log.entity';
+import { EntityResolutionService } from './entity-resolution.service';
+import { SyncJobsService } from './sync-jobs.service';
+import { SyncEventsService } from './sync-events.service';
+import { PlacesService } from './places.service';
+import { PlaceNormalizationService } from '../geocoding/place-normalization.service';
+import { PersonRevisionsService } from './person-revisions.service';
+import { RevisionSource } from '../entities/person-revision.entity';
+
+describe('WikipediaService', () => {
+  let service: WikipediaService;
+  const mockPersonRepo = {
+    find: jest.fn(),
+    save: jest.fn(async (p) => p),
+    update: jest.fn(),
+  };
+  const mockPlaceNormalization = {
+    normalize: jest.fn(),
+  };
+  const mockRevisions = {
+    record: jest.fn(),
+    recordMany: jest.fn(),
+  };
+  const mockSyncJobs = {
+    create: jest.fn(),
+    findActive: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WikipediaService,
+        SyncEventsService,
+        { provide: getRepositoryToken(Person), useValue: mockPersonRepo },
+        { provide: getRepositoryToken(ImportLog), useValue: {} },
+        { provide: EntityResolutionService, useValue: {} },
+        { provide: SyncJobsService, useValue: mockSyncJobs },
+        { provide: PlacesService, useValue: {} },
+        {
+          provide: PlaceNormalizationService,
+          useValue: mockPlaceNormalization,
+        },
+        { provide: PersonRevisionsService, useValue: mockRevisions },
+      ],
+    }).compile();
+
+    service = module.get<WikipediaService>(WikipediaService);
+    jest.clearAllMocks();
+  });
+
+  describe('startSync', () => {
+    it('should start a single sync when two are requested at once', async () => {
+      const job = { id: 7 };
+      // The unique index on running jobs lets only one insert through
+      mockSyncJobs.create
+        .mockResolvedValueOnce(job)
+        .mockResolvedValueOnce(null);
+      mockSyncJobs.findActive.mockResolvedValue(job);
+      const pipeline = jest
+        .spyOn(service as any, 'runFullSyncPipeline')
+        .mockResolvedValue(undefined);
+
+      const results = await Promise.all([
+        service.startSync(),
+        service.startSync(),
+      ]);
+      expect(results.map((r) => r.status)).toEqual([
+        'Sync started in background',
+        'Sync already running',
+      ]);
+      expect(results[1].jobId).toBe(7);
+      expect(pipeline).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('processCategory', () => {
+    it('should not re-import a page a moderator excluded, even when forced', async () => {
+      jest
+        .spyOn(service as any, 'fetchCategoryMembers')
+        .mockResolvedValue([{ pageid: 42, title: 'List of Kyiv streets' }]);
+      const enrich = jest.spyOn(service as any, 'enrichWithViews');
+      // Trashed long ago; purgeExpired keeps excluded rows.
+      mockPersonRepo.find.mockResolvedValue([
+        {
+          id: 'p-1',
+          wikiPageId: 42,
+          excludedFromSync: true,
+          deletedAt: new Date('2020-01-01'),
+        },
+      ]);
+
+      const { people } = await service.processCategory('Writers', 10, true);
+      expect(people).toEqual([]);
+      expect(enrich).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('normalizePlaces', () => {
+    it('should leave locked fields alone and record a sync revision', async () => {
+      const person = {
+        id: 'p-1',
+        birthPlace: 'Моринці',
+        birthOblast: null,
+        birthCountryModern: null,
+        meta_data: {},
+        deathOblast: null,
+        deathCountryModern: null,
+        provenance: {
+          birthOblast: {
+            source: RevisionSource.MANUAL,
+            setAt: null,
+            actorId: 1,
+            locked: true,
+          },
+        },
+      };
+      mockPersonRepo.find
+        .mockResolvedValueOnce([person])
+        .mockResolvedValueOnce([]);
+      mockPlaceNormalization.normalize.mockImplementation(async (place) =>
+        place
+          ? { oblast: 'Черкаська', countryModern: 'Україна' }
+          : { oblast: null, countryModern: null },
+      );
+
+      const result = await service.normalizePlaces();
+      expect(result).toEqual({ processed: 1, updated: 1 });
+      const [, changes] = mockPersonRepo.update.mock.calls[0];
+      expect(changes).not.toHaveProperty('birthOblast');
+      expect(changes.birthCountryModern).toBe('Україна');
+      expect(changes.provenance.birthCountryModern).toMatchObject({
+        source: RevisionSource.WIKIPEDIA_SYNC,
+        locked: false,
+      });
+      expect(mockRevisions.recordMany).toHaveBeenCalledWith(
+        [
+          {
+            before: person,
+            after: expect.objectContaining({ birthCountryModern: 'Україна' }),
+          },
+        ],
+        { source: RevisionSource.WIKIPEDIA_SYNC },
+      );
+    });
+  });
+});
@@ -1,10 +1,37 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  MessageEvent,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { Observable, from, merge } from 'rxjs';
+import { map } from 'rxjs/operators';
 import { InjectRepository } from '@nestjs/typeorm';
-import { In, IsNull, Not, Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { Person } from '../entities/person.entity';
 import { ImportLog, ImportStatus } from '../entities/import-log.entity';
 import { EntityResolutionService } from './entity-resolution.service';
+import { SyncJobsService } from './sync-jobs.service';
+import { SyncEventsService, SyncStage } from './sync-events.service';
+import { PlacesService } from './places.service';
+import { PlaceNormalizationService } from '../geocoding/place-normalization.service';
+import { RevisionSource } from '../entities/person-revision.entity';
+import {
+  PersonRevisionsService,
+  RevisionEntry,
+} from './person-revisions.service';
+import {
+  PROVENANCE_FIELDS,
+  isFieldLocked,
+  stampProvenance,
+} from '../provenance/field-provenance';
+import {
+  SyncJob,
+  SyncJobStatus,
+  SyncJobTrigger,
+  SyncCategoryStats,
+} from '../entities/sync-job.entity';
 import { JSDOM } from 'jsdom';
 
 interface RawMember {
@@ -23,15 +50,24 @@ interface DetailedMember extends RawMember {
   deathDate?: string;
 }
 
-export interface WikiPerson extends DetailedMember {
+interface GeocodedMember extends DetailedMember {
   lat: number | null;
   lng: number | null;
+  birthOblast: string | null;
+  birthCountryModern: string | null;
+  deathLat: number | null;
+  deathLng: number | null;
+  deathOblast: string | null;
+  deathCountryModern: string | null;
+}
+
+export interface WikiPerson extends GeocodedMember {
   rating: number;
   category: string;
 }
 
 @Injectable()
-export class WikipediaService {
+export class WikipediaService implements OnApplicationBootstrap {
   private readonly logger = new Logger(WikipediaService.name);
   private readonly WIKIPEDIA_API_URL = 'https://uk.wikipedia.org/w/api.php';
   private readonly REQUEST_DELAY = 500;
@@ -40,8 +76,7 @@ export class WikipediaService {
   private readonly SPARQL_BATCH_SIZE = 40;
   private readonly SPARQL_MAX_RETRIES = 3;
   private readonly SAVE_BATCH_SIZE = 50;
-  private syncAborted = false;
-  private isSyncing = false;
+  private readonly NORMALIZE_BATCH_SIZE = 500;
 
   /**
    * Prefixes to search for people-related categories on Ukrainian Wikipedia.
@@ -229,8 +264,46 @@ export class WikipediaService {
     @InjectRepository(ImportLog)
     private importLogRepository: Repository<ImportLog>,
     private readonly entityResolution: EntityResolutionService,
+    private readonly syncJobs: SyncJobsService,
+    private readonly syncEvents: SyncEventsService,
+    private readonly places: PlacesService,
+    private readonly placeNormalization: PlaceNormalizationService,
+    private readonly revisions: PersonRevisionsService,
   ) {}
 
+  /**
+   * Resume a sync that was cut off by a restart. Any job still marked
+   * RUNNING at boot has no process behind it; the newest one is picked up
+   * from its last finished category, older ones are closed as failed.
+   */
+  async onApplicationBootstrap() {
+    let running: SyncJob[];
+    try {
+      running = await this.syncJobs.findRunning();
+    } catch (error: any) {
+      this.logger.warn(
+        `Could not check for interrupted syncs: ${error.message}`,
+      );
+      return;
+    }
+    if (running.length === 0) return;
+
+    const [latest, ...stale] = running;
+    for (const job of stale) {
+      await this.syncJobs.finish(
+        job,
+        SyncJobStatus.FAILED,
+        'Interrupted by restart and superseded by a newer job',
+      );
+    }
+
+    const job = await this.syncJobs.markResumed(latest);
+    this.logger.log(
+      `Resuming sync job #${job.id} at category ${job.completedCategories + 1}/${job.categories.length || '?'}`,
+    );
+    this.runFullSyncPipeline(job).catch((err) => this.logger.error(err));
+  }
+
   /**
    * Dynamically discover all people-related categories from Ukrainian Wikipedia.
    * Queries the allcategories API for each prefix, filters by people keywords,
@@ -306,12 +379,20 @@ export class WikipediaService {
    * Excluding `summary` (full biography text) cuts payload from ~2 MB to
    * ~300 KB for 2 000 records (~35 KB gzipped).
    * The client lazy-loads the full biography via GET /persons/:id on click.
+   *
+   * @deprecated Offset paging for GET /wikipedia/famous-people only; new
+   * callers should use PersonsService.findAll, which pages with a cursor.
    */
   async getAllPeople(
     offset?: number,
     limit?: number,
+    filters: { oblast?: string; country?: string } = {},
   ): Promise<Partial<Person>[]> {
     return this.personRepository.find({
+      where: {
+        ...(filters.oblast ? { birthOblast: filters.oblast } : {}),
+        ...(filters.country ? { birthCountryModern: filters.country } : {}),
+      },
       select: [
         'id',
         'name',
@@ -320,6 +401,8 @@ export class WikipediaService {
         'birthYear',
         'birthDate',
         'birthPlace',
+        'birthOblast',
+        'birthCountryModern',
         'lat',
         'lng',
         'meta_data',
@@ -336,25 +419,55 @@ export class WikipediaService {
   }
 
   async startSync(forceRefresh = false) {
+    const job = await this.syncJobs.create(forceRefresh, SyncJobTrigger.MANUAL);
+    if (!job) {
+      const active = await this.syncJobs.findActive();
+      return {
+        status: 'Sync already running',
+        syncing: true,
+        jobId: active?.id ?? null,
+      };
+    }
+
     this.logger.log(`Manual sync started... (forceRefresh: ${forceRefresh})`);
-    this.syncAborted = false;
-    this.isSyncing = true;
-    this.runFullSyncPipeline(forceRefresh)
-      .catch((err) => this.logger.error(err))
-      .finally(() => {
-        this.isSyncing = false;
-      });
-    return { status: 'Sync started in background', syncing: true };
+    this.runFullSyncPipeline(job).catch((err) => this.logger.error(err));
+    return {
+      status: 'Sync started in background',
+      syncing: true,
+      jobId: job.id,
+    };
   }
 
-  stopSync() {
+  async stopSync() {
     this.logger.log('Sync stop requested');
-    this.syncAborted = true;
-    return { status: 'Sync stop requested' };
+    const job = await this.syncJobs.requestAbort();
+    if (!job) return { status: 'No sync is running' };
+    return { status: 'Sync stop requested', jobId: job.id };
   }
 
-  getSyncStatus() {
-    return { syncing: this.isSyncing };
+  async getSyncStatus() {
+    const job = await this.syncJobs.findLatest();
+    if (!job) return { syncing: false, job: null };
+    return {
+      syncing: job.status === SyncJobStatus.RUNNING,
+      job: this.syncJobs.toProgress(job),
+    };
+  }
+
+  /**
+   * Live progress feed for SSE clients. Starts with a `status` snapshot so
+   * a dashboard that connects mid-run can draw its progress bar at once.
+   */
+  streamSyncEvents(): Observable<MessageEvent> {
+    const snapshot$ = from(this.getSyncStatus()).pipe(
+      map((status) => ({ type: 'status', data: status })),
+    );
+    return merge(snapshot$, this.syncEvents.stream());
+  }
+
+  async getSyncJobs(limit = 20) {
+    const jobs = await this.syncJobs.findRecent(limit);
+    return jobs.map((job) => this.syncJobs.toProgress(job));
   }
 
   /**
@@ -378,6 +491,7 @@ export class WikipediaService {
       const { saved, errors: errorCount } = await this.batchSavePersons(
         people,
         existingMap,
+        categoryName,
       );
 
       await this.recalculateAllRatings();
@@ -415,19 +529,92 @@ export class WikipediaService {
   }
 
   /**
-   * Remove all non-manual persons from the database for a clean re-import.
+   * Move all non-manual persons to the trash for a clean re-import.
+   * Persons with curator-locked fields are kept. The next sync restores
+   * every person it imports again; the rest are purged once the trash
+   * retention period is over.
    */
   async clearImportedPersons() {
     const result = await this.personRepository
       .createQueryBuilder()
-      .delete()
+      .softDelete()
       .where('isManual = :isManual', { isManual: false })
+      .andWhere(`NOT jsonb_path_exists(provenance, '$.* ? (@.locked == true)')`)
       .execute();
 
+    this.logger.log(`Moved ${result.affected} imported persons to the trash`);
+    return { deleted: result.affected };
+  }
+
+  /**
+   * Backfill the modern oblast/country of birth and death places for
+   * persons imported before place normalization existed, or after the
+   * alias table was extended. Like a sync, it leaves locked fields alone
+   * and records a revision for every person it changes.
+   */
+  async normalizePlaces(): Promise<{
+    processed: number;
+    updated: number;
+  }> {
+    let processed = 0;
+    let updated = 0;
+    for (let skip = 0; ; skip += this.NORMALIZE_BATCH_SIZE) {
+      const persons = await this.personRepository.find({
+        order: { id: 'ASC' },
+        skip,
+        take: this.NORMALIZE_BATCH_SIZE,
+      });
+      if (persons.length === 0) break;
+      processed += persons.length;
+
+      const revisionEntries: RevisionEntry[] = [];
+      for (const person of persons) {
+        const birth = await this.placeNormalization.normalize(
+          person.birthPlace,
+        );
+        const death = await this.placeNormalization.normalize(
+          person.meta_data?.deathPlace,
+        );
+        const changes: Partial<Person> = {
+          birthOblast: birth.oblast,
+          birthCountryModern: birth.countryModern,
+          deathOblast: death.oblast,
+          deathCountryModern: death.countryModern,
+        };
+        for (const field of Object.keys(changes) as (keyof Person)[]) {
+          if (
+            isFieldLocked(person, field) ||
+            (person[field] ?? null) === changes[field]
+          ) {
+            delete changes[field];
+          }
+        }
+        if (Object.keys(changes).length === 0) continue;
+
+        const after = { ...person, ...changes };
+        changes.provenance = stampProvenance(
+          person.provenance,
+          Object.keys(changes),
+          RevisionSource.WIKIPEDIA_SYNC,
+        );
+        await this.personRepository.update(person.id, changes);
+        revisionEntries.push({ before: person, after });
+        updated++;
+      }
+
+      try {
+        await this.revisions.recordMany(revisionEntries, {
+          source: RevisionSource.WIKIPEDIA_SYNC,
+        });
+      } catch (err: any) {
+        this.logger.warn(`Failed to record revisions: ${err.message}`);
+      }
+    }
+
     this.logger.log(
-      `Cleared ${result.affected} imported persons from database`,
+      `Normalized places: ${updated} of ${processed} persons updated`,
     );
-    return { deleted: result.affected };
+    return { processed, updated };
   }
 
   async getAvailableCategories() {
@@ -436,50 +623,95 @@ export class WikipediaService {
 
   @Cron(CronExpression.EVERY_WEEK)
   async handleCron() {
+    const job = await this.syncJobs.create(false, SyncJobTrigger.CRON);
+    if (!job) {
+      this.logger.log('Cron job skipped: a sync is already running');
+      return;
+    }
     this.logger.log('Cron job started: Updating database...');
-    await this.runFullSyncPipeline();
+    await this.runFullSyncPipeline(job);
   }
 
-  private async runFullSyncPipeline(forceRefresh = false) {
-    // Pre-warm geocode cache from all existing persons in DB
-    this.geocodeCache.clear();
-    const allPersonsWithCoords = await this.personRepository.find({
-      select: ['birthPlace', 'lat', 'lng'],
-      where: { lat: Not(IsNull()), lng: Not(IsNull()) },
-    });
-    for (const p of allPersonsWithCoords) {
-      if (p.birthPlace) {
-        const key = p.birthPlace.toLowerCase().trim();
-        if (!this.geocodeCache.has(key)) {
-          this.geocodeCache.set(key, { lat: p.lat, lng: p.lng });
-        }
-      }
+  /**
+   * Run (or resume) a persisted sync job. Categories before
+   * job.completedCategories were finished by an earlier run and are skipped.
+   */
+  private async runFullSyncPipeline(job: SyncJob) {
+    try {
+      await this.runSyncJob(job);
+    } catch (e: any) {
+      await this.syncJobs.finish(job, SyncJobStatus.FAILED, e.message);
+      this.syncEvents.emit('error', {
+        jobId: job.id,
+        data: { message: e.message, fatal: true },
+      });
+      this.syncEvents.emit('job_finished', {
+        jobId: job.id,
+        data: { status: SyncJobStatus.FAILED },
+      });
+      throw e;
     }
-    this.logger.log(
-      `Geocode cache pre-warmed with ${this.geocodeCache.size} unique places from DB`,
-    );
+  }
 
-    const categories = await this.discoverCategories();
-    this.logger.log(`Starting full sync with ${categories.length} categories`);
+  private async runSyncJob(job: SyncJob) {
+    // Make sure places geocoded before the Place table existed are cached
+    await this.places.seedFromPersons();
+
+    if (job.categories.length === 0) {
+      const discovered = await this.discoverCategories();
+      job = await this.syncJobs.setCategories(job, discovered);
+      this.logger.log(
+        `Starting full sync #${job.id} with ${discovered.length} categories`,
+      );
+    } else {
+      this.logger.log(
+        `Continuing sync #${job.id} from category ${job.completedCategories + 1}/${job.categories.length}`,
+      );
+    }
+    const categories = job.categories;
+    this.syncEvents.emit('job_started', {
+      jobId: job.id,
+      data: {
+        totalCategories: categories.length,
+        completedCategories: job.completedCategories,
+        resumeCount: job.resumeCount,
+      },
+    });
 
-    for (let catIdx = 0; catIdx < categories.length; catIdx++) {
-      if (this.syncAborted) {
+    for (
+      let catIdx = job.completedCategories;
+      catIdx < categories.length;
+      catIdx++
+    ) {
+      if (await this.syncJobs.isAbortRequested(job.id)) {
         this.logger.log('Sync aborted by user request');
-        break;
+        await this.syncJobs.finish(job, SyncJobStatus.ABORTED);
+        this.syncEvents.emit('job_finished', {
+          jobId: job.id,
+          data: { status: SyncJobStatus.ABORTED },
+        });
+        return;
       }
       const category = categories[catIdx];
       this.logger.log(
         `=== Category ${catIdx + 1}/${categories.length}: ${category} ===`,
       );
+      job = await this.syncJobs.startCategory(job, category);
+      this.syncEvents.emit('category_started', {
+        jobId: job.id,
+        category,
+        data: { index: catIdx, total: categories.length },
+      });
+      let stats: SyncCategoryStats;
       try {
         const { people, existingMap } = await this.processCategory(
           category,
           undefined,
-          forceRefresh,
+          job.forceRefresh,
         );
 
         const { saved: savedCount, errors: errorCount } =
-          await this.batchSavePersons(people, existingMap);
+          await this.batchSavePersons(people, existingMap, category);
 
         await this.importLogRepository.save({
           sourceUrl: `uk.wikipedia.org/wiki/${encodeURIComponent(category)}`,
@@ -491,6 +723,12 @@ export class WikipediaService {
         this.logger.log(
           `Category done: ${savedCount} saved, ${errorCount} errors`,
         );
+        stats = {
+          processed: people.length,
+          saved: savedCount,
+          errors: errorCount,
+        };
+        job = await this.syncJobs.completeCategory(job, category, stats);
         // Only sleep between categories that actually did work
         if (people.length > 0) await this.sleep(2000);
       } catch (e: any) {
@@ -504,10 +742,35 @@ export class WikipediaService {
           message: e.message,
           recordsProcessed: 0,
         });
+        this.syncEvents.emit('error', {
+          jobId: job.id,
+          category,
+          data: { message: e.message },
+        });
+        stats = { processed: 0, saved: 0, errors: 0, failed: true };
+        job = await this.syncJobs.completeCategory(job, category, stats);
       }
+      this.syncEvents.emit('category_finished', {
+        jobId: job.id,
+        category,
+        data: {
+          ...stats,
+          completedCategories: job.completedCategories,
+          totalCategories: categories.length,
+        },
+      });
     }
 
     await this.recalculateAllRatings();
+    await this.syncJobs.finish(job, SyncJobStatus.COMPLETED);
+    this.syncEvents.emit('job_finished', {
+      jobId: job.id,
+      data: {
+        status: SyncJobStatus.COMPLETED,
+        totalSaved: job.totalSaved,
+        totalErrors: job.totalErrors,
+      },
+    });
     this.logger.log('Full sync completed!');
   }
 
@@ -530,23 +793,29 @@ export class WikipediaService {
     const existingMap = await this.batchLoadExisting(
       filteredMembers.map((m) => m.pageid),
     );
+    // Pages removed by moderators stay out, even with forceRefresh
+    const syncableMembers = filteredMembers.filter(
+      (m) => !existingMap.get(m.pageid)?.excludedFromSync,
+    );
 
     // When not forcing refresh, skip members that already exist in the DB.
     // This ensures a crashed/re-started sync resumes quickly without re-fetching
-    // data for thousands of already-saved persons.
+    // data for thousands of already-saved persons. Trashed imports are
+    // fetched again so the sync can restore them.
     let membersToProcess: { pageid: number; title: string }[];
     if (!forceRefresh) {
-      membersToProcess = filteredMembers.filter(
-        (m) => !existingMap.has(m.pageid),
-      );
-      const skipped = filteredMembers.length - membersToProcess.length;
+      membersToProcess = syncableMembers.filter((m) => {
+        const existing = existingMap.get(m.pageid);
+        return !existing || (existing.deletedAt && !existing.isManual);
+      });
+      const skipped = syncableMembers.length - membersToProcess.length;
       if (skipped > 0) {
         this.logger.log(
           `Skipping ${skipped} existing persons (forceRefresh=false), processing ${membersToProcess.length} new`,
         );
       }
     } else {
-      membersToProcess = filteredMembers;
+      membersToProcess = syncableMembers;
     }
 
     if (membersToProcess.length === 0) {
@@ -556,6 +825,9 @@ export class WikipediaService {
       return { people: [], existingMap };
     }
 
+    this.emitStage(categoryName, 'views', 'started', {
+      total: membersToProcess.length,
+    });
     let topMembers: RawMember[];
     if (limit) {
       const subset = membersToProcess.slice(0, limit * 3);
@@ -573,7 +845,14 @@ export class WikipediaService {
       );
     }
 
+    this.emitStage(categoryName, 'views', 'finished', {
+      count: topMembers.length,
+    });
+
     // Validate that entries are actually humans via Wikidata P31=Q5
+    this.emitStage(categoryName, 'humans', 'started', {
+      total: topMembers.length,
+    });
     const validatedMembers = await this.filterHumansOnly(
       topMembers,
       existingMap,
@@ -581,16 +860,34 @@ export class WikipediaService {
     this.logger.log(
       `${validatedMembers.length}/${topMembers.length} confirmed as humans via Wikidata.`,
     );
+    this.emitStage(categoryName, 'humans', 'finished', {
+      count: validatedMembers.length,
+      total: topMembers.length,
+    });
 
+    this.emitStage(categoryName, 'details', 'started', {
+      total: validatedMembers.length,
+    });
     const detailedMembers = await this.enrichWithDetails(
       validatedMembers,
       existingMap,
     );
+    this.emitStage(categoryName, 'details', 'finished', {
+      count: detailedMembers.length,
+    });
 
+    this.emitStage(categoryName, 'geocoding', 'started', {
+      total: detailedMembers.length,
+    });
     const geocodedMembers = await this.enrichWithCoordinates(
       detailedMembers,
       existingMap,
     );
+    this.emitStage(categoryName, 'geocoding', 'finished', {
+      count: geocodedMembers.filter((m) => m.lat != null && m.lng != null)
+        .length,
+      total: geocodedMembers.length,
+    });
     return {
       people: geocodedMembers.map((person) => ({
         ...person,
@@ -601,6 +898,19 @@ export class WikipediaService {
     };
   }
 
+  private emitStage(
+    category: string,
+    stage: SyncStage,
+    status: 'started' | 'finished',
+    data: Record<string, unknown> = {},
+  ) {
+    this.syncEvents.emit('stage', {
+      category,
+      stage,
+      data: { status, ...data },
+    });
+  }
+
   /**
    * Batch-load all existing persons by wikiPageId in a single query
    * to avoid N individual findOne queries in each enrichment step.
@@ -615,6 +925,7 @@ export class WikipediaService {
       const batch = pageIds.slice(i, i + batchSize);
       const persons = await this.personRepository.find({
         where: { wikiPageId: In(batch) },
+        withDeleted: true,
       });
       for (const p of persons) {
         if (p.wikiPageId) map.set(p.wikiPageId, p);
@@ -915,59 +1226,96 @@ export class WikipediaService {
     return [...enrichedFromDb, ...enrichedFetched];
   }
 
-  /** In-memory geocode cache: place name → coords. Persists across categories within one sync run. */
-  private geocodeCache = new Map<string, { lat: number; lng: number } | null>();
-
   private async enrichWithCoordinates(
     members: DetailedMember[],
     existingMap?: Map<number, Person>,
-  ): Promise<(DetailedMember & { lat: number | null; lng: number | null })[]> {
-    const result: (DetailedMember & {
-      lat: number | null;
-      lng: number | null;
-    })[] = [];
-
-    let nominatimCalls = 0;
-    let cacheHits = 0;
+  ): Promise<GeocodedMember[]> {
+    const result: GeocodedMember[] = [];
+    const stats = { geocoderCalls: 0, cacheHits: 0 };
 
     for (const member of members) {
       const existing = existingMap?.get(member.pageid);
-      if (existing && existing.lat && existing.lng && !existing.isManual) {
-        result.push({ ...member, lat: existing.lat, lng: existing.lng });
-        continue;
-      }
-
-      let coords: { lat: number; lng: number } | null = null;
-      if (member.birthPlace && member.birthPlace !== 'Невідомо') {
-        const cacheKey = member.birthPlace.toLowerCase().trim();
-
-        if (this.geocodeCache.has(cacheKey)) {
-          coords = this.geocodeCache.get(cacheKey)!;
-          cacheHits++;
-        } else {
-          coords = await this.resolveGeoLocation(member.birthPlace);
-          this.geocodeCache.set(cacheKey, coords);
-          nominatimCalls++;
-          await this.sleep(1100); // Nominatim: max 1 req/s
-        }
-      }
+      const reuse = existing && !existing.isManual;
+
+      const birth = await this.resolvePlace(
+        member.birthPlace,
+        stats,
+        reuse && existing.lat && existing.lng
+          ? { lat: existing.lat, lng: existing.lng }
+          : undefined,
+      );
+      const death = await this.resolvePlace(
+        member.deathPlace,
+        stats,
+        reuse && existing.deathLat && existing.deathLng
+          ? { lat: existing.deathLat, lng: existing.deathLng }
+          : undefined,
+      );
 
       result.push({
         ...member,
-        lat: coords?.lat ?? null,
-        lng: coords?.lng ?? null,
+        lat: birth.coords?.lat ?? null,
+        lng: birth.coords?.lng ?? null,
+        birthOblast: birth.oblast,
+        birthCountryModern: birth.countryModern,
+        deathLat: death.coords?.lat ?? null,
+        deathLng: death.coords?.lng ?? null,
+        deathOblast: death.oblast,
+        deathCountryModern: death.countryModern,
       });
     }
 
-    if (nominatimCalls > 0 || cacheHits > 0) {
+    if (stats.geocoderCalls > 0 || stats.cacheHits > 0) {
       this.logger.log(
-        `Geocoding: ${nominatimCalls} Nominatim calls, ${cacheHits} cache hits (cache size: ${this.geocodeCache.size})`,
+        `Geocoding: ${stats.geocoderCalls} geocoder lookups, ${stats.cacheHits} place cache hits`,
       );
     }
 
     return result;
   }
 
+  /**
+   * Normalize a birth or death place to its modern region and geocode it,
+   * unless coordinates are already known from a previous import.
+   */
+  private async resolvePlace(
+    rawPlace: string | null | undefined,
+    stats: { geocoderCalls: number; cacheHits: number },
+    known?: { lat: number; lng: number },
+  ): Promise<{
+    coords: { lat: number; lng: number } | null;
+    oblast: string | null;
+    countryModern: string | null;
+  }> {
+    if (!rawPlace || rawPlace === 'Невідомо') {
+      return { coords: null, oblast: null, countryModern: null };
+    }
+    const modern = await this.placeNormalization.normalize(rawPlace);
+    if (known) {
+      return {
+        coords: known,
+        oblast: modern.oblast,
+        countryModern: modern.countryModern,
+      };
+    }
+
+    // Resolve by the same normalized name that is stored on the person,
+    // so place overrides can later be re-applied by birthPlace. Renamed
+    // settlements are geocoded by their present-day name.
+    const placeName = this.entityResolution.normalizeBirthPlace(rawPlace);
+    const query = modern.historicalName
+      ? [modern.settlement, modern.oblast].filter(Boolean).join(', ')
+      : placeName;
+    const resolved = await this.places.resolve(placeName, query);
+    if (resolved.cached) stats.cacheHits++;
+    else stats.geocoderCalls++;
+    return {
+      coords: resolved.coords,
+      oblast: modern.oblast,
+      countryModern: modern.countryModern,
+    };
+  }
+
   /**
    * Save or update persons in batches. Uses the pre-loaded existingMap to avoid
    * redundant DB lookups. New persons are bulk-inserted, PostGIS updates are batched.
@@ -975,6 +1323,7 @@ export class WikipediaService {
   private async batchSavePersons(
     people: WikiPerson[],
     existingMap: Map<number, Person>,
+    category?: string,
   ): Promise<{ saved: number; errors: number }> {
     let saved = 0;
     let errors = 0;
@@ -985,22 +1334,26 @@ export class WikipediaService {
       const updateOps: {
         id: string;
         payload: any;
+        before: Person;
         lat?: number;
         lng?: number;
       }[] = [];
       const newWithCoords: { index: number; lat: number; lng: number }[] = [];
+      const withDeathCoords: string[] = [];
+      const revisionEntries: RevisionEntry[] = [];
 
       for (const person of batch) {
         try {
           const result = this.buildPersonPayload(person, existingMap);
-          if (!result) continue; // skipped (manual entry)
 
           if (result.existingId) {
+            // Locked coordinates were dropped from the payload
             updateOps.push({
               id: result.existingId,
               payload: result.payload,
-              lat: person.lat ?? undefined,
-              lng: person.lng ?? undefined,
+              before: existingMap.get(person.pageid)!,
+              lat: result.payload.lat ?? undefined,
+              lng: result.payload.lng ?? undefined,
             });
           } else {
             newPayloads.push(result.payload);
@@ -1025,6 +1378,9 @@ export class WikipediaService {
         try {
           const savedEntities = await this.personRepository.save(newPayloads);
           saved += savedEntities.length;
+          revisionEntries.push(
+            ...savedEntities.map((e) => ({ before: null, after: e })),
+          );
 
           // Batch PostGIS update for new persons with coordinates
           const geoUpdates = newWithCoords
@@ -1034,6 +1390,11 @@ export class WikipediaService {
               lng: c.lng,
             }))
             .filter((g) => g.id);
+          withDeathCoords.push(
+            ...savedEntities
+              .filter((e) => e.deathLat != null && e.deathLng != null)
+              .map((e) => e.id),
+          );
           if (geoUpdates.length > 0) {
             const cases = geoUpdates
               .map(
@@ -1064,6 +1425,13 @@ export class WikipediaService {
               [op.lng, op.lat, op.id],
             );
           }
+          if (op.payload.deathLat != null && op.payload.deathLng != null) {
+            withDeathCoords.push(op.id);
+          }
+          revisionEntries.push({
+            before: op.before,
+            after: { ...op.before, ...op.payload, id: op.id },
+          });
           saved++;
         } catch (err: any) {
           errors++;
@@ -1071,6 +1439,38 @@ export class WikipediaService {
         }
       }
 
+      // Death geometry is derived from the deathLat/deathLng just saved
+      if (withDeathCoords.length > 0) {
+        try {
+          await this.personRepository.query(
+            `UPDATE person
+             SET "deathLocation" = ST_SetSRID(ST_MakePoint("deathLng", "deathLat"), 4326)
+             WHERE id = ANY($1)`,
+            [withDeathCoords],
+          );
+        } catch (err: any) {
+          this.logger.warn(`Death location update failed: ${err.message}`);
+        }
+      }
+
+      try {
+        await this.revisions.recordMany(revisionEntries, {
+          source: RevisionSource.WIKIPEDIA_SYNC,
+        });
+      } catch (err: any) {
+        this.logger.warn(`Failed to record revisions: ${err.message}`);
+      }
+
+      this.syncEvents.emit('batch_saved', {
+        category,
+        data: {
+          batch: Math.floor(i / this.SAVE_BATCH_SIZE) + 1,
+          totalBatches: Math.ceil(people.length / this.SAVE_BATCH_SIZE),
+          saved,
+          errors,
+        },
+      });
+
       if (i + this.SAVE_BATCH_SIZE < people.length) {
         this.logger.log(
           `Saved batch ${Math.floor(i / this.SAVE_BATCH_SIZE) + 1}/${Math.ceil(people.length / this.SAVE_BATCH_SIZE)}`,
@@ -1089,14 +1489,10 @@ export class WikipediaService {
   private buildPersonPayload(
     data: WikiPerson,
     existingMap: Map<number, Person>,
-  ): { payload: any; existingId?: string } | null {
+  ): { payload: any; existingId?: string } {
     // Use pre-loaded map instead of per-person DB query
     const existing = existingMap.get(data.pageid) || null;
 
-    if (existing && existing.isManual) {
-      return null;
-    }
-
     // Normalize birth place and map category label
     let normalizedBirthPlace = data.birthPlace
       ? this.entityResolution.normalizeBirthPlace(data.birthPlace)
@@ -1122,6 +1518,8 @@ export class WikipediaService {
     const slug = this.entityResolution.toSlug(data.title);
 
     const payload: any = {
+      // Re-importing an imported person takes it out of the trash
+      ...(existing?.deletedAt ? { deletedAt: null } : {}),
       name: data.title,
       slug,
       wikiPageId: data.pageid,
@@ -1132,6 +1530,13 @@ export class WikipediaService {
       imageUrl: data.imageUrl || existing?.imageUrl || null,
       birthDate: data.birthDate,
       birthPlace: normalizedBirthPlace,
+      birthOblast: normalizedBirthPlace ? data.birthOblast : null,
+      birthCountryModern: normalizedBirthPlace ? data.birthCountryModern : null,
+      deathLat: data.deathLat ?? existing?.deathLat ?? null,
+      deathLng: data.deathLng ?? existing?.deathLng ?? null,
+      deathOblast: data.deathOblast ?? existing?.deathOblast ?? null,
+      deathCountryModern:
+        data.deathCountryModern ?? existing?.deathCountryModern ?? null,
       birthYear,
       lat: data.lat,
       lng: data.lng,
@@ -1148,6 +1553,18 @@ export class WikipediaService {
       },
     };
 
+    // Fields locked by curators keep their value; the rest is refreshed
+    if (existing) {
+      for (const field of PROVENANCE_FIELDS) {
+        if (isFieldLocked(existing, field)) delete payload[field];
+      }
+    }
+    payload.provenance = stampProvenance(
+      existing?.provenance,
+      this.revisions.changedFields(existing, { ...existing, ...payload }),
+      RevisionSource.WIKIPEDIA_SYNC,
+    );
+
     return { payload, existingId: existing?.id };
   }
 
@@ -1166,6 +1583,7 @@ export class WikipediaService {
    */
   async recalculateAllRatings() {
     this.logger.log('Recalculating ratings (percentile-based)...');
+    this.syncEvents.emit('ratings', { data: { status: 'started' } });
 
     // Single SQL query: rank each person by views and assign 0-10 rating
     // using percent_rank() which returns 0.0 to 1.0
@@ -1175,10 +1593,12 @@ export class WikipediaService {
       FROM (
         SELECT id, percent_rank() OVER (ORDER BY views ASC) AS pct
         FROM person
+        WHERE "deletedAt" IS NULL
       ) sub
       WHERE person.id = sub.id
     `);
 
+    this.syncEvents.emit('ratings', { data: { status: 'finished' } });
     this.logger.log('Ratings recalculated.');
   }
 
@@ -1547,37 +1967,6 @@ export class WikipediaService {
     }
   }
 
-  private async resolveGeoLocation(
-    address: string,
-  ): Promise<{ lat: number; lng: number } | null> {
-    const cleanAddress = address.replace(/\(.*\)/, '').trim();
-    const url = `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(cleanAddress)}&format=json&limit=1&accept-language=uk`;
-
-    try {
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'UkrMapDiplomaBot/1.0 (student_project)',
-        },
-        signal: AbortSignal.timeout(this.FETCH_TIMEOUT),
-      });
-      if (!response.ok) throw new Error(`Nominatim error: ${response.status}`);
-
-      const data = await response.json();
-      if (data && data.length > 0) {
-        return {
-          lat: parseFloat(data[0].lat),
-          lng: parseFloat(data[0].lon),
-        };
-      }
-      return null;
-    } catch (error: any) {
-      this.logger.error(
-        `Error geocoding address "${address}": ${error.message}`,
-      );
-      return null;
-    }
-  }
-
   private sleep(ms: number) {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
@@ -0,0 +1,122 @@
+import {
+  changeSensitivity,
+  findStaleFields,
+  validatePersonChanges,
+} from './person-changes';
+import { FieldSensitivity } from '../entities/auto-approval-rule.entity';
+
+describe('person changes', () => {
+  describe('validatePersonChanges', () => {
+    it('should accept valid changes to editable fields', () => {
+      expect(
+        validatePersonChanges({
+          name: { old: 'Тарас', new: 'Тарас Шевченко' },
+          birthYear: { old: null, new: 1814 },
+          lat: { old: null, new: 49.08 },
+          imageUrl: { old: null, new: 'https://upload.wikimedia.org/a.jpg' },
+          meta_data: {
+            old: {},
+            new: { occupation: ['поет', 'художник'], deathYear: 1861 },
+          },
+        }),
+      ).toEqual([]);
+    });
+
+    it('should reject fields outside the whitelist', () => {
+      expect(
+        validatePersonChanges({
+          id: { old: 'a', new: 'b' },
+          rating: { old: 1, new: 10 },
+          isManual: { old: false, new: true },
+        }),
+      ).toEqual([
+        'id is not an editable field',
+        'rating is not an editable field',
+        'isManual is not an editable field',
+      ]);
+    });
+
+    it('should reject values of the wrong shape or range', () => {
+      const errors = validatePersonChanges({
+        name: { old: 'A', new: '' },
+        birthYear: { old: null, new: 3000 },
+        lng: { old: null, new: 200 },
+        imageUrl: { old: null, new: 'javascript:alert(1)' },
+        meta_data: { old: {}, new: { occupation: 'поет' } },
+        summary: 'text',
+      });
+      expect(errors).toHaveLength(6);
+      expect(errors[0]).toBe('name must be a non-empty string');
+      expect(errors[4]).toBe(
+        'meta_data occupation must be a list of at most 50 non-empty strings',
+      );
+      expect(errors[5]).toBe('summary must be given as { old, new }');
+    });
+
+    it('should reject unknown meta_data keys', () => {
+      expect(
+        validatePersonChanges({
+          meta_data: { old: {}, new: { secret: true } },
+        }),
+      ).toEqual(['meta_data has unknown key "secret"']);
+    });
+
+    it('should reject an empty change set', () => {
+      expect(validatePersonChanges({})).toEqual([
+        'changes must be a non-empty object',
+      ]);
+    });
+  });
+
+  describe('findStaleFields', () => {
+    const person = {
+      name: 'Taras Shevchenko',
+      summary: null,
+      meta_data: { occupation: ['поет'], deathYear: 1861 },
+    } as any;
+
+    it('should accept old values matching the record', () => {
+      expect(
+        findStaleFields(person, {
+          name: { old: 'Taras Shevchenko', new: 'Тарас Шевченко' },
+          summary: { old: undefined, new: 'Поет' },
+          meta_data: {
+            old: { deathYear: 1861, occupation: ['поет'] },
+            new: {},
+          },
+        }),
+      ).toEqual([]);
+    });
+
+    it('should not report a field that already has the proposed value', () => {
+      expect(
+        findStaleFields(person, {
+          name: { old: 'T. Shevchenko', new: 'Taras Shevchenko' },
+        }),
+      ).toEqual([]);
+    });
+
+    it('should report fields changed since the proposal', () => {
+      expect(
+        findStaleFields(person, {
+          name: { old: 'T. Shevchenko', new: 'Тарас Шевченко' },
+          summary: { old: null, new: 'Поет' },
+        }),
+      ).toEqual(['name']);
+    });
+  });
+
+  describe('changeSensitivity', () => {
+    it('should be the level of the most sensitive field', () => {
+      expect(changeSensitivity({ summary: { old: null, new: 'Poet' } })).toBe(
+        FieldSensitivity.MINOR,
+      );
+      expect(
+        changeSensitivity({
+          summary: { old: null, new: 'Poet' },
+          lat: { old: null, new: 49.08 },
+        }),
+      ).toBe(FieldSensitivity.MODERATE);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { isInt, isLatitude, isLongitude, isURL } from 'class-validator';
+import { isDeepStrictEqual } from 'util';
+import { Person } from '../entities/person.entity';
+import { FieldSensitivity } from '../entities/auto-approval-rule.entity';
+
+export type PersonChanges = Record<string, { old: any; new: any }>;
+
+/** Returns an error message, or null when the value is acceptable. */
+type FieldValidator = (value: unknown) => string | null;
+
+const MIN_YEAR = -1000;
+const MAX_STRING_LIST = 50;
+
+const maxYear = () => new Date().getFullYear();
+
+const text =
+  (maxLength: number, nullable = true): FieldValidator =>
+  (value) => {
+    if (value === null) return nullable ? null : 'must not be empty';
+    if (typeof value !== 'string' || value.trim() === '') {
+      return 'must be a non-empty string';
+    }
+    return value.length > maxLength
+      ? `must be at most ${maxLength} characters`
+      : null;
+  };
+
+const year: FieldValidator = (value) => {
+  if (value === null) return null;
+  return isInt(value) &&
+    (value as number) >= MIN_YEAR &&
+    (value as number) <= maxYear()
+    ? null
+    : `must be a whole year between ${MIN_YEAR} and ${maxYear()}`;
+};
+
+const coordinate =
+  (check: (value: string) => boolean, label: string): FieldValidator =>
+  (value) => {
+    if (value === null) return null;
+    return typeof value === 'number' && check(String(value))
+      ? null
+      : `must be a valid ${label}`;
+  };
+
+const url: FieldValidator = (value) => {
+  if (value === null) return null;
+  return typeof value === 'string' &&
+    isURL(value, { protocols: ['http', 'https'], require_protocol: true })
+    ? null
+    : 'must be an http(s) URL';
+};
+
+const stringList: FieldValidator = (value) => {
+  if (
+    !Array.isArray(value) ||
+    value.length > MAX_STRING_LIST ||
+    value.some((item) => text(255, false)(item) !== null)
+  ) {
+    return `must be a list of at most ${MAX_STRING_LIST} non-empty strings`;
+  }
+  return null;
+};
+
+const META_DATA_FIELDS: Record<string, FieldValidator> = {
+  occupation: stringList,
+  alternativeNames: stringList,
+  placeOfBirth: text(255),
+  deathPlace: text(255),
+  deathYear: year,
+  wikiLink: url,
+};
+
+const metaData: FieldValidator = (value) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'must be an object';
+  }
+  for (const [key, item] of Object.entries(value)) {
+    const validate = META_DATA_FIELDS[key];
+    if (!validate) return `has unknown key "${key}"`;
+    const error = item === undefined ? null : validate(item);
+    if (error) return `${key} ${error}`;
+  }
+  return null;
+};
+
+/**
+ * Person fields a proposed edit may change, with the validator for the new
+ * value. Identifiers, traffic metrics, provenance and the oblast/country
+ * fields derived from places are not editable.
+ */
+export const EDITABLE_PERSON_FIELDS: Partial<
+  Record<keyof Person, FieldValidator>
+> = {
+  name: text(255, false),
+  summary: text(20000),
+  birthYear: year,
+  birthDate: text(50),
+  birthPlace: text(255),
+  lat: coordinate(isLatitude, 'latitude'),
+  lng: coordinate(isLongitude, 'longitude'),
+  deathLat: coordinate(isLatitude, 'latitude'),
+  deathLng: coordinate(isLongitude, 'longitude'),
+  imageUrl: url,
+  category: text(100),
+  meta_data: metaData,
+};
+
+/**
+ * Sensitivity of each editable field for auto-approval. Names identify
+ * the person and places move them on the map, so those need more trust
+ * than descriptive fields.
+ */
+export const FIELD_SENSITIVITY: Record<string, FieldSensitivity> = {
+  name: FieldSensitivity.MAJOR,
+  birthYear: FieldSensitivity.MODERATE,
+  birthDate: FieldSensitivity.MODERATE,
+  birthPlace: FieldSensitivity.MODERATE,
+  lat: FieldSensitivity.MODERATE,
+  lng: FieldSensitivity.MODERATE,
+  deathLat: FieldSensitivity.MODERATE,
+  deathLng: FieldSensitivity.MODERATE,
+  summary: FieldSensitivity.MINOR,
+  imageUrl: FieldSensitivity.MINOR,
+  category: FieldSensitivity.MINOR,
+  meta_data: FieldSensitivity.MINOR,
+};
+
+const SENSITIVITY_ORDER = [
+  FieldSensitivity.MINOR,
+  FieldSensitivity.MODERATE,
+  FieldSensitivity.MAJOR,
+];
+
+/** The most sensitive level among the changed fields. */
+export function changeSensitivity(changes: PersonChanges): FieldSensitivity {
+  return Object.keys(changes).reduce<FieldSensitivity>((max, field) => {
+    const level = FIELD_SENSITIVITY[field] ?? FieldSensitivity.MAJOR;
+    return SENSITIVITY_ORDER.indexOf(level) > SENSITIVITY_ORDER.indexOf(max)
+      ? level
+      : max;
+  }, FieldSensitivity.MINOR);
+}
+
+export function isSensitivityWithin(
+  level: FieldSensitivity,
+  max: FieldSensitivity,
+): boolean {
+  return SENSITIVITY_ORDER.indexOf(level) <= SENSITIVITY_ORDER.indexOf(max);
+}
+
+/** Validation errors of a proposed change set; empty when it is valid. */
+export function validatePersonChanges(changes: unknown): string[] {
+  if (
+    typeof changes !== 'object' ||
+    changes === null ||
+    Array.isArray(changes) ||
+    Object.keys(changes).length === 0
+  ) {
+    return ['changes must be a non-empty object'];
+  }
+
+  const errors: string[] = [];
+  for (const [field, change] of Object.entries(changes)) {
+    const validate = EDITABLE_PERSON_FIELDS[field as keyof Person];
+    if (!validate) {
+      errors.push(`${field} is not an editable field`);
+      continue;
+    }
+    if (
+      typeof change !== 'object' ||
+      change === null ||
+      !('old' in change) ||
+      !('new' in change)
+    ) {
+      errors.push(`${field} must be given as { old, new }`);
+      continue;
+    }
+    const error = validate(change.new);
+    if (error) errors.push(`${field} ${error}`);
+  }
+  return errors;
+}
+
+function normalize(value: unknown): unknown {
+  return value == null ? null : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Fields changed by someone else since the proposal was made: a three-way
+ * comparison of the proposal's `old` (base), its `new` and the current
+ * value. A field already holding the proposed value is not stale.
+ */
+export function findStaleFields(
+  person: Partial<Person>,
+  changes: PersonChanges,
+): string[] {
+  return Object.entries(changes)
+    .filter(([field, change]) => {
+      const current = normalize(person[field as keyof Person]);
+      return (
+        !isDeepStrictEqual(current, normalize(change.old)) &&
+        !isDeepStrictEqual(current, normalize(change.new))
+      );
+    })
+    .map(([field]) => field);
+}
+
+/** True when two proposals set a field to different values. */
+export function isConflictingChange(
+  a: { old: any; new: any },
+  b: { old: any; new: any },
+): boolean {
+  return !isDeepStrictEqual(normalize(a.new), normalize(b.new));
+}
@@ -9,6 +9,20 @@ import { User } from './api/entities/user.entity';
 import { Person } from './api/entities/person.entity';
 import { ImportLog } from './api/entities/import-log.entity';
 import { ProposedEdit } from './api/entities/proposed-edit.entity';
+import { SyncJob } from './api/entities/sync-job.entity';
+import { Place } from './api/entities/place.entity';
+import { PersonRevision } from './api/entities/person-revision.entity';
+import { AutoApprovalRule } from './api/entities/auto-approval-rule.entity';
+import { Notification } from './api/entities/notification.entity';
+import { Comment } from './api/entities/comment.entity';
+import { RefreshToken } from './api/entities/refresh-token.entity';
+import { UserToken } from './api/entities/user-token.entity';
+import { AuthEvent } from './api/entities/auth-event.entity';
+import { ApiKey } from './api/entities/api-key.entity';
+import { Role } from './api/entities/role.entity';
+import { RolePermissions1792368000000 } from './database/migrations/1792368000000-RolePermissions';
+import { BackfillVerifiedAt1792368000001 } from './database/migrations/1792368000001-BackfillVerifiedAt';
+import { SingleRunningSyncJob1792368000002 } from './database/migrations/1792368000002-SingleRunningSyncJob';
 import { AuthModule } from './api/auth/auth.module';
 
 @Module({
@@ -22,7 +36,31 @@ import { AuthModule } from './api/auth/auth.module';
       username: process.env.DB_USERNAME || 'postgres',
       password: process.env.DB_PASSWORD || 'postgres',
       database: process.env.DB_NAME || 'ukrmap',
-      entities: [User, Person, ImportLog, ProposedEdit],
+      entities: [
+        User,
+        Person,
+        ImportLog,
+        ProposedEdit,
+        SyncJob,
+        Place,
+        PersonRevision,
+        AutoApprovalRule,
+        Notification,
+        Comment,
+        RefreshToken,
+        UserToken,
+        AuthEvent,
+        ApiKey,
+        Role,
+      ],
+      // Run before synchronize, so schema changes that need data
+      // conversion go through a migration.
+      migrations: [
+        RolePermissions1792368000000,
+        BackfillVerifiedAt1792368000001,
+        SingleRunningSyncJob1792368000002,
+      ],
+      migrationsRun: true,
       synchronize: process.env.NODE_ENV !== 'production',
       logging: process.env.NODE_ENV === 'development',
       extra: {
@@ -0,0 +1,17 @@
+import { DataSource } from 'typeorm';
+
+/**
+ * Data source for the TypeORM CLI (npm run migration:*). Uses the same
+ * DB_* variables as AppModule; the app itself runs pending migrations on
+ * startup.
+ */
+export default new DataSource({
+  type: 'postgres',
+  host: process.env.DB_HOST || 'localhost',
+  port: parseInt(process.env.DB_PORT, 10) || 5432,
+  username: process.env.DB_USERNAME || 'postgres',
+  password: process.env.DB_PASSWORD || 'postgres',
+  database: process.env.DB_NAME || 'ukrmap',
+  entities: [__dirname + '/../**/*.entity{.ts,.js}'],
+  migrations: [__dirname + '/../database/migrations/*{.ts,.js}'],
+});
@@ -0,0 +1,90 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Turns the fixed user_role_enum into editable roles. Today's admin,
+ * moderator and user become built-in roles holding the permissions those
+ * roles had implicitly; "user"."role" keeps the role name.
+ *
+ * Runs before synchronize, so on a fresh database the user table may not
+ * exist yet; the role table is created either way.
+ */
+export class RolePermissions1792368000000 implements MigrationInterface {
+  name = 'RolePermissions1792368000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS "role" (
+         "id" SERIAL NOT NULL,
+         "name" character varying NOT NULL,
+         "description" text,
+         "permissions" text array NOT NULL DEFAULT '{}',
+         "builtIn" boolean NOT NULL DEFAULT false,
+         "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+         "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+         CONSTRAINT "UQ_ae4578dcaed5adff96595e61660" UNIQUE ("name"),
+         CONSTRAINT "PK_b36bcfe02fc8de3c57a8b2391c2" PRIMARY KEY ("id")
+       )`,
+    );
+    // A snapshot of the permissions as of this migration, not the live list.
+    await queryRunner.query(
+      `INSERT INTO "role" ("name", "description", "permissions", "builtIn")
+       VALUES
+         ('admin', 'Full access', $1, true),
+         ('moderator', 'Reviews proposed edits', $2, true),
+         ('user', 'Proposes edits', '{}', true)
+       ON CONFLICT ("name") DO NOTHING`,
+      [
+        [
+          'persons:write',
+          'persons:delete',
+          'edits:review',
+          'sync:run',
+          'places:manage',
+          'rules:manage',
+          'users:manage',
+          'roles:manage',
+          'audit:read',
+        ],
+        ['edits:review'],
+      ],
+    );
+
+    if (await queryRunner.hasTable('user')) {
+      await queryRunner.query(
+        `ALTER TABLE "user" ALTER COLUMN "role" DROP DEFAULT`,
+      );
+      await queryRunner.query(
+        `ALTER TABLE "user" ALTER COLUMN "role"
+           TYPE character varying USING "role"::text`,
+      );
+      await queryRunner.query(
+        `ALTER TABLE "user" ALTER COLUMN "role" SET DEFAULT 'user'`,
+      );
+    }
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."user_role_enum"`);
+  }
+
+  /** Users holding a custom role fall back to "user". */
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."user_role_enum" AS ENUM ('admin', 'moderator', 'user')`,
+    );
+    if (await queryRunner.hasTable('user')) {
+      await queryRunner.query(
+        `UPDATE "user" SET "role" = 'user'
+         WHERE "role" NOT IN ('admin', 'moderator', 'user')`,
+      );
+      await queryRunner.query(
+        `ALTER TABLE "user" ALTER COLUMN "role" DROP DEFAULT`,
+      );
+      await queryRunner.query(
+        `ALTER TABLE "user" ALTER COLUMN "role"
+           TYPE "public"."user_role_enum" USING "role"::"public"."user_role_enum"`,
+      );
+      await queryRunner.query(
+        `ALTER TABLE "user" ALTER COLUMN "role" SET DEFAULT 'user'`,
+      );
+    }
+    await queryRunner.query(`DROP TABLE IF EXISTS "role"`);
+  }
+}
@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Email verification gates proposing edits, but accounts created before
+ * it existed were never sent a verification mail. Treat them as verified
+ * as of their sign-up.
+ *
+ * Runs before synchronize, so the column may not exist yet; it is added
+ * here with the definition synchronize would give it.
+ */
+export class BackfillVerifiedAt1792368000001 implements MigrationInterface {
+  name = 'BackfillVerifiedAt1792368000001';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('user'))) return;
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD COLUMN IF NOT EXISTS "verifiedAt" TIMESTAMP WITH TIME ZONE`,
+    );
+    await queryRunner.query(
+      `UPDATE "user" SET "verifiedAt" = "createdAt" WHERE "verifiedAt" IS NULL`,
+    );
+  }
+
+  /** Which accounts were backfilled is not recorded; nothing to undo. */
+  public async down(): Promise<void> {}
+}
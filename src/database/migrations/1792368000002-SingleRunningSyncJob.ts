@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Allow at most one RUNNING sync job, so concurrent starts cannot both
+ * launch a full sync. Jobs left RUNNING next to a newer one are failed
+ * first, as the resume at boot would do; the index is created with the
+ * name and definition synchronize expects.
+ */
+export class SingleRunningSyncJob1792368000002 implements MigrationInterface {
+  name = 'SingleRunningSyncJob1792368000002';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('sync_job'))) return;
+    await queryRunner.query(
+      `UPDATE "sync_job" SET "status" = 'failed', "finishedAt" = now(),
+         "error" = 'Interrupted by restart and superseded by a newer job'
+       WHERE "status" = 'running' AND "id" <> (
+         SELECT "id" FROM "sync_job" WHERE "status" = 'running'
+         ORDER BY "startedAt" DESC LIMIT 1
+       )`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_sync_job_single_running" ON "sync_job" ("status") WHERE "status" = 'running'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_sync_job_single_running"`,
+    );
+  }
+}
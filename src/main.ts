@@ -1,4 +1,5 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { ValidationPipe } from '@nestjs/common';
 import { DataSource } from 'typeorm';
@@ -7,7 +8,19 @@ import { GlobalExceptionFilter } from './api/filters/http-exception.filter';
 import { EtagInterceptor } from './api/interceptors/etag.interceptor';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+  // Login throttling is per client IP, which is the proxy's without this.
+  const trustProxy = process.env.TRUST_PROXY;
+  if (trustProxy) {
+    app.set(
+      'trust proxy',
+      trustProxy === 'true'
+        ? true
+        : /^\d+$/.test(trustProxy)
+          ? parseInt(trustProxy, 10)
+          : trustProxy,
+    );
+  }
   app.enableCors({
     origin: process.env.FRONTEND_URL || 'http://localhost:3000',
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
@@ -28,6 +41,8 @@ async function bootstrap() {
     .addTag('search', 'Search and geo-queries')
     .addTag('statistics', 'Statistical data')
     .addTag('import-logs', 'Import log history')
+    .addTag('places', 'Geocoded places and coordinate overrides')
+    .addTag('tiles', 'Vector tiles for map layers')
     .build();
   const document = SwaggerModule.createDocument(app, swaggerConfig);
   SwaggerModule.setup('api/docs', app, document);